@@ -0,0 +1,390 @@
+'use server'
+
+import type { PostgrestError } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import {
+  UNCHECKED_LINK,
+  bookmarkColumns,
+  findSavedUrls,
+  getDomain,
+  isDuplicateUrlError,
+  readStateUpdate,
+  type Bookmark,
+} from '@/lib/bookmarks'
+import { BookmarkInputError, isUuid, parseBookmarkInput } from '@/lib/bookmark-input'
+import { fetchMetadata } from '@/lib/metadata'
+import { addTagsToBookmarks, setBookmarkTags } from '@/lib/tags'
+import { MAX_COLLECTION_NAME_LENGTH, type Collection } from '@/lib/collections'
+
+// Bookmark and folder writes from the app. Each action checks the session,
+// validates its input (bookmarks with lib/bookmark-input.ts) and writes with
+// the signed-in user's client, so row level security still decides what they
+// may change. Failures come back as values for the caller to show rather than
+// as thrown errors.
+
+const MAX_IDS = 1000
+const MAX_IMPORT_BATCH = 100
+
+export type MutationErrorCode = 'unauthorized' | 'invalid' | 'duplicate' | 'not_found' | 'failed'
+
+export type MutationError = { code: MutationErrorCode, message: string }
+
+export type MutationResult<T> = { data: T, warning?: string } | { error: MutationError }
+
+// What became of each entry of an import batch, in the order they were sent
+export type ImportOutcome = { id: string } | { error: string }
+
+function failure(code: MutationErrorCode, message: string): { error: MutationError } {
+  return { error: { code, message } }
+}
+
+// Turns what the database refused into something the user can act on
+function databaseFailure(error: PostgrestError, fallback: string) {
+  if (isDuplicateUrlError(error)) return failure('duplicate', 'A bookmark with this URL is already saved')
+  if (error.code === '23514') return failure('invalid', 'The bookmark has a value that is too long or not allowed')
+  return failure('failed', fallback)
+}
+
+async function getSession() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  return { supabase, user }
+}
+
+function validate(fields: unknown, requireUrl: boolean) {
+  try {
+    return { input: parseBookmarkInput(fields, { requireUrl }) }
+  } catch (error) {
+    if (error instanceof BookmarkInputError) return failure('invalid', error.message)
+    throw error
+  }
+}
+
+function isIdList(ids: unknown): ids is string[] {
+  return Array.isArray(ids) && ids.length > 0 && ids.length <= MAX_IDS && ids.every(isUuid)
+}
+
+// Saves a new bookmark, filling in the title, description and images from
+// the page. A page that can't be fetched is still saved with what was given.
+export async function saveBookmark(workspaceId: string, fields: unknown): Promise<MutationResult<Bookmark>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(workspaceId)) return failure('invalid', 'Unknown workspace')
+
+  const parsed = validate(fields, true)
+  if ('error' in parsed) return parsed
+  const { tags, read_state, ...input } = parsed.input
+  const url = input.url!
+
+  const saved = await findSavedUrls(supabase, workspaceId, [url]).catch(() => [])
+  if (saved.length > 0) return failure('duplicate', 'This URL is already bookmarked')
+
+  const metadata = await fetchMetadata(url).catch(() => null)
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .insert([{
+      title: input.title || metadata?.title || getDomain(url),
+      url,
+      description: input.description !== undefined ? input.description : metadata?.description ?? null,
+      notes: input.notes ?? null,
+      image_url: metadata?.image_url ?? null,
+      canonical_url: metadata?.canonical_url ?? null,
+      favicon_url: metadata?.favicon_url ?? null,
+      collection_id: input.collection_id ?? null,
+      pinned: input.pinned ?? false,
+      ...(read_state ? readStateUpdate(read_state) : {}),
+      user_id: user.id,
+      workspace_id: workspaceId,
+    }])
+    .select(bookmarkColumns())
+    .single<Bookmark>()
+  if (error) return databaseFailure(error, 'Failed to add bookmark')
+
+  if (!tags?.length) return { data }
+  try {
+    const saved = await setBookmarkTags(supabase, { userId: user.id, workspaceId }, data.id, tags)
+    return { data: { ...data, tags: saved } }
+  } catch {
+    return { data, warning: 'Bookmark added, but its tags could not be saved' }
+  }
+}
+
+// Edits one bookmark; also used to restore an older revision
+export async function updateBookmark(id: string, fields: unknown): Promise<MutationResult<Bookmark>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(id)) return failure('not_found', 'Bookmark not found')
+
+  const parsed = validate(fields, false)
+  if ('error' in parsed) return parsed
+  const { tags, read_state, ...input } = parsed.input
+
+  const { data: current } = await supabase
+    .from('bookmarks')
+    .select(bookmarkColumns())
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle<Bookmark & { workspace_id: string }>()
+  if (!current) return failure('not_found', 'Bookmark not found')
+
+  if (input.url) {
+    const saved = await findSavedUrls(supabase, current.workspace_id, [input.url], { exceptId: id }).catch(() => [])
+    if (saved.length > 0) return failure('duplicate', 'Another bookmark already has this URL')
+  }
+
+  let bookmark: Bookmark = current
+  const changes = {
+    ...input,
+    ...(read_state ? readStateUpdate(read_state) : {}),
+    ...(input.url && input.url !== current.url ? UNCHECKED_LINK : {}),
+  }
+  if (Object.keys(changes).length > 0) {
+    const { data, error } = await supabase
+      .from('bookmarks')
+      .update(changes)
+      .eq('id', id)
+      .select(bookmarkColumns())
+      .returns<Bookmark[]>()
+    if (error) return databaseFailure(error, 'Failed to update bookmark')
+    // Row level security filters out rows it won't let us change rather than failing
+    if (data.length === 0) return failure('not_found', 'You can no longer edit this bookmark')
+    bookmark = data[0]
+  }
+
+  if (!tags) return { data: bookmark }
+  try {
+    const saved = await setBookmarkTags(supabase, { userId: user.id, workspaceId: current.workspace_id }, id, tags)
+    return { data: { ...bookmark, tags: saved } }
+  } catch {
+    return { data: bookmark, warning: 'Bookmark updated, but its tags could not be saved' }
+  }
+}
+
+// Applies the same folder, read state or pin to several bookmarks at once
+export async function updateBookmarks(ids: string[], fields: unknown): Promise<MutationResult<Bookmark[]>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isIdList(ids)) return failure('invalid', `Select between 1 and ${MAX_IDS} bookmarks`)
+
+  const parsed = validate(fields, false)
+  if ('error' in parsed) return parsed
+  const { collection_id, read_state, pinned } = parsed.input
+  const changes = {
+    ...(collection_id !== undefined ? { collection_id } : {}),
+    ...(read_state ? readStateUpdate(read_state) : {}),
+    ...(pinned !== undefined ? { pinned } : {}),
+  }
+  if (Object.keys(changes).length === 0) return failure('invalid', 'Nothing to change')
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update(changes)
+    .in('id', ids)
+    .is('deleted_at', null)
+    .select(bookmarkColumns())
+    .returns<Bookmark[]>()
+  if (error) return databaseFailure(error, 'Failed to update bookmarks')
+  if (data.length === 0) return failure('not_found', 'None of these bookmarks could be changed')
+  return { data }
+}
+
+// Moves bookmarks to the trash and returns the ids that were moved
+export async function moveBookmarksToTrash(ids: string[]): Promise<MutationResult<string[]>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isIdList(ids)) return failure('invalid', `Select between 1 and ${MAX_IDS} bookmarks`)
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('deleted_at', null)
+    .select('id')
+  if (error) return databaseFailure(error, 'Failed to move to trash')
+  if (data.length === 0) return failure('not_found', 'None of these bookmarks could be moved to the trash')
+  return { data: data.map(row => row.id as string) }
+}
+
+export async function restoreBookmarksFromTrash(ids: string[]): Promise<MutationResult<Bookmark[]>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isIdList(ids)) return failure('invalid', `Select between 1 and ${MAX_IDS} bookmarks`)
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update({ deleted_at: null })
+    .in('id', ids)
+    .not('deleted_at', 'is', null)
+    .select(bookmarkColumns())
+    .returns<Bookmark[]>()
+  if (isDuplicateUrlError(error)) {
+    return failure('duplicate', 'A bookmark with the same URL is already saved; remove it before restoring')
+  }
+  if (error) return databaseFailure(error, 'Failed to restore')
+  if (data.length === 0) return failure('not_found', 'None of these bookmarks could be restored')
+  return { data }
+}
+
+// Permanently deletes bookmarks that are already in the trash
+export async function deleteBookmarksForever(ids: string[]): Promise<MutationResult<string[]>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isIdList(ids)) return failure('invalid', `Select between 1 and ${MAX_IDS} bookmarks`)
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .delete()
+    .in('id', ids)
+    .not('deleted_at', 'is', null)
+    .select('id')
+  if (error) return databaseFailure(error, 'Failed to delete')
+  if (data.length === 0) return failure('not_found', 'None of these bookmarks could be deleted')
+  return { data: data.map(row => row.id as string) }
+}
+
+// Permanently deletes everything in a workspace's trash, returning how many
+export async function emptyWorkspaceTrash(workspaceId: string): Promise<MutationResult<number>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(workspaceId)) return failure('invalid', 'Unknown workspace')
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .not('deleted_at', 'is', null)
+    .select('id')
+  if (error) return databaseFailure(error, 'Failed to empty trash')
+  return { data: data.length }
+}
+
+// Saves one batch of a file import. Each entry is validated like a new
+// bookmark plus an optional created_at, and page metadata isn't fetched.
+// Entries succeed or fail one by one, so a bad row doesn't sink the batch.
+export async function importBookmarks(workspaceId: string, entries: unknown[]): Promise<MutationResult<ImportOutcome[]>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(workspaceId)) return failure('invalid', 'Unknown workspace')
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_IMPORT_BATCH) {
+    return failure('invalid', `Import between 1 and ${MAX_IMPORT_BATCH} bookmarks at a time`)
+  }
+
+  const outcomes: ImportOutcome[] = []
+  const valid: { index: number, tags: string[], row: Record<string, unknown> }[] = []
+  entries.forEach((entry, index) => {
+    const parsed = validate(entry, true)
+    if ('error' in parsed) {
+      outcomes[index] = { error: parsed.error.message }
+      return
+    }
+    const createdAt = (entry as Record<string, unknown>).created_at
+    if (createdAt != null && (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt)))) {
+      outcomes[index] = { error: 'created_at must be a date' }
+      return
+    }
+    const { url, title, description, notes, collection_id, tags } = parsed.input
+    valid.push({
+      index,
+      tags: tags ?? [],
+      row: {
+        title: title || getDomain(url!),
+        url,
+        description: description ?? null,
+        notes: notes ?? null,
+        collection_id: collection_id ?? null,
+        user_id: user.id,
+        workspace_id: workspaceId,
+        ...(createdAt ? { created_at: createdAt } : {}),
+      },
+    })
+  })
+
+  const inserted: { index: number, tags: string[], id: string }[] = []
+  if (valid.length > 0) {
+    const { data, error } = await supabase.from('bookmarks').insert(valid.map(({ row }) => row)).select('id')
+    if (data && !error) {
+      valid.forEach(({ index, tags }, i) => inserted.push({ index, tags, id: data[i].id }))
+    } else {
+      // Retry one by one to find the rows that were refused
+      for (const { index, tags, row } of valid) {
+        const { data: single, error: singleError } = await supabase.from('bookmarks').insert([row]).select('id')
+        if (single && !singleError) {
+          inserted.push({ index, tags, id: single[0].id })
+        } else {
+          outcomes[index] = { error: singleError ? databaseFailure(singleError, 'Insert failed').error.message : 'Insert failed' }
+        }
+      }
+    }
+  }
+  inserted.forEach(({ index, id }) => {
+    outcomes[index] = { id }
+  })
+
+  try {
+    await addTagsToBookmarks(
+      supabase,
+      { userId: user.id, workspaceId },
+      inserted.map(({ id, tags }) => ({ bookmarkId: id, names: tags }))
+    )
+  } catch {
+    return { data: outcomes, warning: 'Imported, but tags could not be saved' }
+  }
+  return { data: outcomes }
+}
+
+function validateCollectionName(name: unknown) {
+  if (typeof name !== 'string' || !name.trim()) return failure('invalid', 'Give the folder a name')
+  if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+    return failure('invalid', `Folder names can be at most ${MAX_COLLECTION_NAME_LENGTH} characters`)
+  }
+  return { name: name.trim() }
+}
+
+export async function createCollection(workspaceId: string, name: string, parentId: string | null): Promise<MutationResult<Collection>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(workspaceId)) return failure('invalid', 'Unknown workspace')
+  if (parentId !== null && !isUuid(parentId)) return failure('invalid', 'Unknown parent folder')
+
+  const validated = validateCollectionName(name)
+  if ('error' in validated) return validated
+
+  const { data, error } = await supabase
+    .from('collections')
+    .insert([{ name: validated.name, parent_id: parentId, user_id: user.id, workspace_id: workspaceId }])
+    .select('id, name, parent_id, created_at')
+    .single<Collection>()
+  if (error) return failure('failed', 'Failed to create folder')
+  return { data }
+}
+
+export async function renameCollection(id: string, name: string): Promise<MutationResult<Collection>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(id)) return failure('not_found', 'Folder not found')
+
+  const validated = validateCollectionName(name)
+  if ('error' in validated) return validated
+
+  const { data, error } = await supabase
+    .from('collections')
+    .update({ name: validated.name })
+    .eq('id', id)
+    .select('id, name, parent_id, created_at')
+    .returns<Collection[]>()
+  if (error) return failure('failed', 'Failed to rename folder')
+  if (data.length === 0) return failure('not_found', 'You can no longer rename this folder')
+  return { data: data[0] }
+}
+
+// Deletes a folder with its subfolders; their bookmarks become unsorted
+export async function deleteCollection(id: string): Promise<MutationResult<string>> {
+  const { supabase, user } = await getSession()
+  if (!user) return failure('unauthorized', 'Not signed in')
+  if (!isUuid(id)) return failure('not_found', 'Folder not found')
+
+  const { data, error } = await supabase.from('collections').delete().eq('id', id).select('id')
+  if (error) return failure('failed', 'Failed to delete folder')
+  if (data.length === 0) return failure('not_found', 'You can no longer delete this folder')
+  return { data: id }
+}
@@ -0,0 +1,104 @@
+import { createClient } from '@/lib/supabase/server'
+import { getWorkspaces } from '@/lib/supabase/workspace'
+import { ACCESS_TOKEN_COLUMNS } from '@/lib/access-tokens'
+import { SHARED_LINK_COLUMNS } from '@/lib/shares'
+import { PREFERENCE_COLUMNS } from '@/lib/preferences'
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const PAGE_SIZE = 1000
+
+// Offline copies are exported as their extracted text; the stored raw HTML
+// files are left out
+const SNAPSHOT_COLUMNS = 'id, bookmark_id, source_url, title, byline, excerpt, text_content, word_count, created_at'
+const REVISION_COLUMNS = 'id, bookmark_id, user_id, title, url, notes, created_at'
+
+// PostgREST caps each response, so page through the whole table
+async function fetchAll(supabase: SupabaseClient, table: string, columns: string, workspaceId: string) {
+  const rows: Record<string, unknown>[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<Record<string, unknown>[]>()
+    if (error) throw error
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+// Everything the settings page's "Download my data" covers: the profile,
+// every workspace the user belongs to with its folders, tags, bookmarks
+// (trash included), offline copies and edit history, their API tokens, share
+// links and preferences. Unlike /api/export this is a raw JSON dump rather
+// than an importable file.
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const memberships = await getWorkspaces(supabase, user.id)
+    const workspaces = []
+    for (const workspace of memberships) {
+      const [{ data: collections, error: collectionError }, { data: tags, error: tagError }] = await Promise.all([
+        supabase.from('collections').select('id, name, parent_id, created_at').eq('workspace_id', workspace.id),
+        supabase.from('tags').select('id, name, created_at').eq('workspace_id', workspace.id),
+      ])
+      if (collectionError) throw collectionError
+      if (tagError) throw tagError
+
+      const bookmarks = await fetchAll(supabase, 'bookmarks', '*, tags(name)', workspace.id)
+      bookmarks.forEach(row => delete row.search_vector)
+      const snapshots = await fetchAll(supabase, 'bookmark_snapshots', SNAPSHOT_COLUMNS, workspace.id)
+      const revisions = await fetchAll(supabase, 'bookmark_revisions', REVISION_COLUMNS, workspace.id)
+
+      workspaces.push({ ...workspace, collections, tags, bookmarks, snapshots, revisions })
+    }
+
+    const [
+      { data: accessTokens, error: tokenError },
+      { data: sharedLinks, error: shareError },
+      { data: preferences, error: preferenceError },
+    ] = await Promise.all([
+      supabase.from('personal_access_tokens').select(ACCESS_TOKEN_COLUMNS).eq('user_id', user.id),
+      supabase.from('shared_links').select(SHARED_LINK_COLUMNS).eq('user_id', user.id),
+      supabase.from('user_preferences').select(`${PREFERENCE_COLUMNS}, updated_at`).eq('user_id', user.id).maybeSingle(),
+    ])
+    if (tokenError) throw tokenError
+    if (shareError) throw shareError
+    if (preferenceError) throw preferenceError
+
+    const body = {
+      exported_at: new Date().toISOString(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        name: user.user_metadata?.full_name ?? null,
+        created_at: user.created_at,
+        providers: (user.identities ?? []).map(identity => identity.provider),
+      },
+      workspaces,
+      access_tokens: accessTokens,
+      shared_links: sharedLinks,
+      preferences,
+    }
+
+    return new NextResponse(JSON.stringify(body, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="savenest-account.json"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch {
+    return NextResponse.json({ error: 'Failed to export your data' }, { status: 500 })
+  }
+}
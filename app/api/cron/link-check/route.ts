@@ -0,0 +1,38 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkBookmarks } from '@/lib/link-check'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const BATCH_SIZE = 200
+const RECHECK_AFTER_DAYS = 7
+
+// Scheduled entry point (see vercel.json): re-checks the bookmarks whose
+// links were checked longest ago, across all users. Vercel Cron sends
+// CRON_SECRET as a bearer token; any other caller is rejected.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createAdminClient()
+  const cutoff = new Date(Date.now() - RECHECK_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data: bookmarks, error } = await supabase
+    .from('bookmarks')
+    .select('id, url')
+    .is('deleted_at', null)
+    .or(`link_checked_at.is.null,link_checked_at.lt.${cutoff}`)
+    .order('link_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE)
+  if (error) {
+    return NextResponse.json({ error: 'Failed to load bookmarks' }, { status: 500 })
+  }
+
+  const results = await checkBookmarks(supabase, bookmarks)
+  return NextResponse.json({
+    checked: results.length,
+    broken: results.filter(r => r.link_error || (r.link_status !== null && r.link_status >= 400)).length,
+  })
+}
@@ -0,0 +1,111 @@
+import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/supabase/workspace'
+import { getDescendantIds, type Collection } from '@/lib/collections'
+import { EXPORT_FORMATS, exportFileName, isExportFormat, serializeBookmarks, type ExportBookmark, type ExportFormat } from '@/lib/export'
+import { NextResponse, type NextRequest } from 'next/server'
+
+const PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 200
+
+type ExportFilter = {
+  ids?: string[]
+  collectionId?: string | null
+  tag?: string | null
+}
+
+async function buildExport(format: ExportFormat, filter: ExportFilter) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { active: workspace } = await getActiveWorkspace(supabase, user.id)
+  if (!workspace) {
+    return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+  }
+
+  const { data: collections, error: collectionError } = await supabase
+    .from('collections')
+    .select('id, name, parent_id, created_at')
+    .eq('workspace_id', workspace.id)
+  if (collectionError) {
+    return NextResponse.json({ error: 'Failed to load folders' }, { status: 500 })
+  }
+
+  // Selected ids are fetched in chunks to keep request URLs short
+  const idChunks = filter.ids
+    ? Array.from({ length: Math.ceil(filter.ids.length / ID_CHUNK_SIZE) }, (_, i) =>
+        filter.ids!.slice(i * ID_CHUNK_SIZE, (i + 1) * ID_CHUNK_SIZE)
+      )
+    : [null]
+
+  const columns: string = filter.tag
+    ? '*, tags(id, name), tag_filter:tags!inner(name)'
+    : '*, tags(id, name)'
+
+  const bookmarks: Record<string, unknown>[] = []
+  for (const ids of idChunks) {
+    // PostgREST caps each response, so page through the whole library
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('bookmarks')
+        .select(columns)
+        .eq('workspace_id', workspace.id)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (ids) query = query.in('id', ids)
+      if (filter.tag) query = query.eq('tag_filter.name', filter.tag)
+      if (filter.collectionId) {
+        query = query.in('collection_id', [...getDescendantIds(collections as Collection[], filter.collectionId)])
+      }
+
+      const { data, error } = await query.returns<Record<string, unknown>[]>()
+      if (error) {
+        return NextResponse.json({ error: 'Failed to load bookmarks' }, { status: 500 })
+      }
+      data.forEach(row => delete row.tag_filter)
+      bookmarks.push(...data)
+      if (data.length < PAGE_SIZE) break
+    }
+  }
+
+  const body = serializeBookmarks(bookmarks as ExportBookmark[], format, collections as Collection[])
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': `${EXPORT_FORMATS[format].mimeType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${exportFileName(format)}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const format = params.get('format') ?? 'json'
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: 'Unknown export format' }, { status: 400 })
+  }
+
+  return buildExport(format, {
+    collectionId: params.get('collection'),
+    tag: params.get('tag'),
+  })
+}
+
+// Selections can be too long for a query string, so they are POSTed
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const format = body?.format ?? 'json'
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: 'Unknown export format' }, { status: 400 })
+  }
+  if (!Array.isArray(body?.ids) || !body.ids.every((id: unknown) => typeof id === 'string')) {
+    return NextResponse.json({ error: 'ids must be an array of bookmark ids' }, { status: 400 })
+  }
+
+  return buildExport(format, { ids: body.ids })
+}
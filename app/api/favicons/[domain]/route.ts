@@ -0,0 +1,34 @@
+import { createClient } from '@/lib/supabase/server'
+import { getFavicon, imageResponse, isCacheableDomain } from '@/lib/image-cache'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+// Favicon for a domain in the caller's bookmarks, or a letter avatar
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ domain: string }> }) {
+  const domain = (await params).domain.toLowerCase()
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (!isCacheableDomain(domain)) {
+    return NextResponse.json({ error: 'Invalid domain' }, { status: 400 })
+  }
+
+  // Only fetch for domains the caller has bookmarked, so the route can't be
+  // used to make the server contact arbitrary hosts. An icon the page itself
+  // declared beats guessing /favicon.ico, so those rows come first.
+  const { data: bookmark } = await supabase
+    .from('bookmarks')
+    .select('favicon_url')
+    .eq('domain', domain)
+    .order('favicon_url', { nullsFirst: false })
+    .limit(1)
+    .maybeSingle()
+  if (!bookmark) {
+    return imageResponse(null, domain)
+  }
+
+  return imageResponse(await getFavicon(domain, bookmark.favicon_url), domain)
+}
@@ -0,0 +1,39 @@
+import { createClient } from '@/lib/supabase/server'
+import { checkBookmarks } from '@/lib/link-check'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const MAX_IDS = 50
+
+// Checks the given bookmarks now. Writes go through the user's session,
+// so RLS limits them to workspaces the caller can edit.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const ids = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id: unknown) => typeof id === 'string')) {
+    return NextResponse.json({ error: 'ids must be a non-empty array of bookmark ids' }, { status: 400 })
+  }
+  if (ids.length > MAX_IDS) {
+    return NextResponse.json({ error: `At most ${MAX_IDS} bookmarks can be checked at once` }, { status: 400 })
+  }
+
+  const { data: bookmarks, error } = await supabase
+    .from('bookmarks')
+    .select('id, url')
+    .is('deleted_at', null)
+    .in('id', ids)
+  if (error) {
+    return NextResponse.json({ error: 'Failed to load bookmarks' }, { status: 500 })
+  }
+
+  const results = await checkBookmarks(supabase, bookmarks)
+  return NextResponse.json({ results })
+}
@@ -0,0 +1,31 @@
+import { createClient } from '@/lib/supabase/server'
+import { fetchMetadata } from '@/lib/metadata'
+import { UnsafeUrlError } from '@/lib/safe-fetch'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const url = request.nextUrl.searchParams.get('url')
+  if (!url) {
+    return NextResponse.json({ error: 'Missing url parameter' }, { status: 400 })
+  }
+
+  try {
+    const metadata = await fetchMetadata(url)
+    return NextResponse.json(metadata, {
+      headers: { 'Cache-Control': 'private, max-age=3600' },
+    })
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Could not fetch page metadata' }, { status: 502 })
+  }
+}
@@ -0,0 +1,28 @@
+import { createClient } from '@/lib/supabase/server'
+import { getDomain } from '@/lib/bookmarks'
+import { getPreviewImage, imageResponse } from '@/lib/image-cache'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+// A bookmark's preview image, or a letter avatar when it has none
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { data: bookmark } = await supabase
+    .from('bookmarks')
+    .select('url, image_url')
+    .eq('id', id)
+    .maybeSingle()
+  if (!bookmark) {
+    return NextResponse.json({ error: 'Bookmark not found' }, { status: 404 })
+  }
+
+  const image = bookmark.image_url ? await getPreviewImage(bookmark.image_url) : null
+  return imageResponse(image, getDomain(bookmark.url))
+}
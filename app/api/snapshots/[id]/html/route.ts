@@ -0,0 +1,39 @@
+import { createClient } from '@/lib/supabase/server'
+import { SNAPSHOT_BUCKET } from '@/lib/snapshots'
+import { NextResponse, type NextRequest } from 'next/server'
+
+// Serves a snapshot's raw HTML. The page is someone else's markup served
+// from our origin, so the CSP sandbox gives it an opaque origin with
+// scripts, forms and plugins disabled.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { data: snapshot } = await supabase
+    .from('bookmark_snapshots')
+    .select('html_path')
+    .eq('id', id)
+    .maybeSingle()
+  if (!snapshot?.html_path) {
+    return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+  }
+
+  const { data: file, error } = await supabase.storage.from(SNAPSHOT_BUCKET).download(snapshot.html_path)
+  if (error || !file) {
+    return NextResponse.json({ error: 'Snapshot file is missing' }, { status: 404 })
+  }
+
+  return new NextResponse(await file.text(), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': "sandbox; default-src 'none'; img-src * data:; style-src * 'unsafe-inline'; font-src * data:",
+      'X-Content-Type-Options': 'nosniff',
+      'Referrer-Policy': 'no-referrer',
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
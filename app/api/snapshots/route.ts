@@ -0,0 +1,44 @@
+import { createClient } from '@/lib/supabase/server'
+import { SnapshotError, captureSnapshot } from '@/lib/snapshots'
+import { UnsafeUrlError } from '@/lib/safe-fetch'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+// Saves an offline copy of a bookmark in one of the caller's workspaces
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (typeof body?.bookmarkId !== 'string') {
+    return NextResponse.json({ error: 'bookmarkId is required' }, { status: 400 })
+  }
+
+  const { data: bookmark } = await supabase
+    .from('bookmarks')
+    .select('id, url, workspace_id')
+    .eq('id', body.bookmarkId)
+    .maybeSingle()
+  if (!bookmark) {
+    return NextResponse.json({ error: 'Bookmark not found' }, { status: 404 })
+  }
+
+  try {
+    const snapshot = await captureSnapshot(supabase, { userId: user.id, workspaceId: bookmark.workspace_id }, bookmark)
+    return NextResponse.json({
+      id: snapshot.id,
+      created_at: snapshot.created_at,
+      word_count: snapshot.word_count,
+    })
+  } catch (error) {
+    if (error instanceof UnsafeUrlError || error instanceof SnapshotError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    return NextResponse.json({ error: 'Could not fetch the page' }, { status: 502 })
+  }
+}
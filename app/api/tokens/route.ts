@@ -0,0 +1,51 @@
+import { createClient } from '@/lib/supabase/server'
+import { generateAccessToken } from '@/lib/supabase/token'
+import { ACCESS_TOKEN_COLUMNS, isAccessTokenScope } from '@/lib/access-tokens'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+const MAX_NAME_LENGTH = 100
+const MAX_EXPIRY_DAYS = 365
+
+// Creates a personal access token. The plaintext is only ever returned
+// here; listing and revoking go through the browser client and RLS.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return NextResponse.json({ error: `Name must be 1-${MAX_NAME_LENGTH} characters` }, { status: 400 })
+  }
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isAccessTokenScope)) {
+    return NextResponse.json({ error: 'Pick at least one valid scope' }, { status: 400 })
+  }
+  const expiresInDays = body.expiresInDays ?? null
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    return NextResponse.json({ error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` }, { status: 400 })
+  }
+
+  const { token, hash, prefix } = generateAccessToken()
+  const { data, error } = await supabase
+    .from('personal_access_tokens')
+    .insert([{
+      user_id: user.id,
+      name,
+      token_hash: hash,
+      token_prefix: prefix,
+      scopes: [...new Set(body.scopes)],
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000).toISOString() : null,
+    }])
+    .select(ACCESS_TOKEN_COLUMNS)
+    .single()
+  if (error) {
+    return NextResponse.json({ error: 'Failed to create token' }, { status: 500 })
+  }
+
+  return NextResponse.json({ token, record: data }, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,84 @@
+import { createTokenClient } from '@/lib/supabase/token'
+import { ApiError, errorResponse, isUuid, parseBookmarkInput, readBookmark, resolveWorkspace } from '@/lib/rest-api'
+import { UNCHECKED_LINK, isDuplicateUrlError, readStateUpdate } from '@/lib/bookmarks'
+import { setBookmarkTags } from '@/lib/tags'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function bookmarkId(context: RouteContext) {
+  const { id } = await context.params
+  if (!isUuid(id)) throw new ApiError('Bookmark not found', 404)
+  return id
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:read')
+    const scope = await resolveWorkspace(supabase, userId, request.nextUrl.searchParams.get('workspace'), { write: false })
+    return NextResponse.json({ data: await readBookmark(supabase, scope, await bookmarkId(context)) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// PATCH /api/v1/bookmarks/:id updates any of title, url, description,
+// notes, collection_id, read_state, pinned and tags (which replaces the
+// whole tag list)
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:write')
+    const scope = await resolveWorkspace(supabase, userId, request.nextUrl.searchParams.get('workspace'), { write: true })
+    const id = await bookmarkId(context)
+    const { tags, read_state, ...fields } = parseBookmarkInput(await request.json().catch(() => null), { requireUrl: false })
+    const changes = {
+      ...fields,
+      ...(read_state ? readStateUpdate(read_state) : {}),
+      ...(fields.url ? UNCHECKED_LINK : {}),
+    }
+
+    if (Object.keys(changes).length > 0) {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .update(changes)
+        .eq('id', id)
+        .eq('workspace_id', scope.workspaceId)
+        .is('deleted_at', null)
+        .select('id')
+      if (isDuplicateUrlError(error)) throw new ApiError('Another bookmark already has this URL', 409)
+      if (error) throw new ApiError('Failed to update bookmark', 500)
+      if (data.length === 0) throw new ApiError('Bookmark not found', 404)
+    } else {
+      await readBookmark(supabase, scope, id)
+    }
+
+    if (tags) {
+      await setBookmarkTags(supabase, scope, id, tags)
+    }
+    return NextResponse.json({ data: await readBookmark(supabase, scope, id) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/v1/bookmarks/:id moves the bookmark to the trash, like the app
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:write')
+    const { workspaceId } = await resolveWorkspace(supabase, userId, request.nextUrl.searchParams.get('workspace'), { write: true })
+    const { data, error } = await supabase
+      .from('bookmarks')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', await bookmarkId(context))
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+      .select('id')
+    if (error) throw new ApiError('Failed to delete bookmark', 500)
+    if (data.length === 0) throw new ApiError('Bookmark not found', 404)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,120 @@
+import { createTokenClient } from '@/lib/supabase/token'
+import {
+  ApiError,
+  MAX_BULK_ITEMS,
+  createBookmark,
+  errorResponse,
+  isUuid,
+  parseBookmarkInput,
+  parseIds,
+  resolveWorkspace,
+  type ApiBookmark,
+} from '@/lib/rest-api'
+import { addTagsToBookmarks } from '@/lib/tags'
+import { isDuplicateUrlError } from '@/lib/bookmarks'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const CREATE_CONCURRENCY = 5
+
+// POST /api/v1/bookmarks/bulk?workspace= with one of:
+//   { action: 'create', bookmarks: [{ url, ... }] }
+//   { action: 'move', ids, collection_id }
+//   { action: 'tag', ids, tags }
+//   { action: 'delete', ids }   (moves to the trash)
+//   { action: 'restore', ids }  (brings back from the trash)
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:write')
+    const scope = await resolveWorkspace(supabase, userId, request.nextUrl.searchParams.get('workspace'), { write: true })
+    const body = await request.json().catch(() => null)
+
+    switch (body?.action) {
+      case 'create': {
+        if (!Array.isArray(body.bookmarks) || body.bookmarks.length === 0) {
+          throw new ApiError('bookmarks must be a non-empty array')
+        }
+        if (body.bookmarks.length > MAX_BULK_ITEMS) {
+          throw new ApiError(`At most ${MAX_BULK_ITEMS} bookmarks per request`)
+        }
+        const inputs = (body.bookmarks as unknown[]).map(item => parseBookmarkInput(item, { requireUrl: true }))
+
+        // Each create fetches page metadata, so a few run at once and a
+        // failure only affects its own item
+        const created: ApiBookmark[] = []
+        const errors: { index: number, error: string }[] = []
+        let next = 0
+        const worker = async () => {
+          while (next < inputs.length) {
+            const index = next++
+            try {
+              created.push(await createBookmark(supabase, scope, inputs[index]))
+            } catch (error) {
+              errors.push({ index, error: error instanceof ApiError ? error.message : 'Failed to save bookmark' })
+            }
+          }
+        }
+        await Promise.all(Array.from({ length: Math.min(CREATE_CONCURRENCY, inputs.length) }, worker))
+        return NextResponse.json({ data: created, errors: errors.sort((a, b) => a.index - b.index) })
+      }
+
+      case 'move': {
+        const ids = parseIds(body.ids)
+        if (body.collection_id !== null && !isUuid(body.collection_id)) {
+          throw new ApiError('collection_id must be a folder id or null')
+        }
+        const { data, error } = await supabase
+          .from('bookmarks')
+          .update({ collection_id: body.collection_id })
+          .in('id', ids)
+          .eq('workspace_id', scope.workspaceId)
+          .is('deleted_at', null)
+          .select('id')
+        if (error) throw new ApiError('Failed to move bookmarks', 500)
+        return NextResponse.json({ ids: data.map(row => row.id) })
+      }
+
+      case 'tag': {
+        const ids = parseIds(body.ids)
+        if (!Array.isArray(body.tags) || !body.tags.every((tag: unknown) => typeof tag === 'string')) {
+          throw new ApiError('tags must be an array of strings')
+        }
+        // Only tag bookmarks in the workspace, and report which those were
+        const { data, error } = await supabase
+          .from('bookmarks')
+          .select('id')
+          .in('id', ids)
+          .eq('workspace_id', scope.workspaceId)
+          .is('deleted_at', null)
+        if (error) throw new ApiError('Failed to tag bookmarks', 500)
+        await addTagsToBookmarks(supabase, scope, data.map(row => ({ bookmarkId: row.id, names: body.tags })))
+        return NextResponse.json({ ids: data.map(row => row.id) })
+      }
+
+      case 'delete':
+      case 'restore': {
+        const ids = parseIds(body.ids)
+        const trashing = body.action === 'delete'
+        let query = supabase
+          .from('bookmarks')
+          .update({ deleted_at: trashing ? new Date().toISOString() : null })
+          .in('id', ids)
+          .eq('workspace_id', scope.workspaceId)
+        query = trashing ? query.is('deleted_at', null) : query.not('deleted_at', 'is', null)
+        const { data, error } = await query.select('id')
+        if (!trashing && isDuplicateUrlError(error)) {
+          throw new ApiError('A bookmark with the same URL is already saved; it has to be trashed first', 409)
+        }
+        if (error) throw new ApiError(trashing ? 'Failed to delete bookmarks' : 'Failed to restore bookmarks', 500)
+        return NextResponse.json({ ids: data.map(row => row.id) })
+      }
+
+      default:
+        throw new ApiError('action must be one of create, move, tag, delete or restore')
+    }
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
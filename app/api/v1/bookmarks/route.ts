@@ -0,0 +1,123 @@
+import { createTokenClient } from '@/lib/supabase/token'
+import {
+  API_COLUMNS,
+  ApiError,
+  MAX_PAGE_SIZE,
+  createBookmark,
+  decodeCursor,
+  encodeCursor,
+  errorResponse,
+  isUuid,
+  parseBookmarkInput,
+  resolveWorkspace,
+  toApiBookmark,
+  type ApiBookmarkRow,
+} from '@/lib/rest-api'
+import { SORT_ORDER, bookmarkColumns, cursorFilter, tagFilterColumn, type BookmarkSort } from '@/lib/bookmarks'
+import { UNSORTED, getDescendantIds, type Collection } from '@/lib/collections'
+import { parseSearchQuery, toTsQuery } from '@/lib/search'
+import { normalizeTagName } from '@/lib/tags'
+import { NextResponse, type NextRequest } from 'next/server'
+
+export const runtime = 'nodejs'
+
+const DEFAULT_LIMIT = 50
+
+// GET /api/v1/bookmarks?workspace=&sort=&limit=&cursor=&tag=&collection=&q=
+// Lists a workspace's bookmarks a page at a time. `tag` may repeat (all must match),
+// `collection` takes a folder id (subfolders included) or "unsorted", and
+// `q` uses the app's search syntax, returning one ranked page without a cursor.
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:read')
+    const params = request.nextUrl.searchParams
+    const { workspaceId } = await resolveWorkspace(supabase, userId, params.get('workspace'), { write: false })
+
+    const sort = (params.get('sort') ?? 'date') as BookmarkSort
+    if (!Object.hasOwn(SORT_ORDER, sort)) {
+      throw new ApiError('sort must be one of date, title or domain')
+    }
+    const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ApiError(`limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    }
+
+    const search = params.get('q')?.trim()
+    if (search) {
+      if (params.has('cursor')) {
+        throw new ApiError('Search results are not paginated; drop the cursor')
+      }
+      const parsed = parseSearchQuery(search)
+      const { data, error } = await supabase
+        .rpc('search_bookmarks', {
+          target_workspace: workspaceId,
+          search_query: toTsQuery(parsed),
+          sites: parsed.sites,
+          excluded_sites: parsed.excludedSites,
+          tag_names: [...parsed.tags, ...params.getAll('tag').map(normalizeTagName)],
+          excluded_tag_names: parsed.excludedTags,
+          max_results: limit,
+        })
+        .select(API_COLUMNS)
+      if (error) throw new ApiError('Search failed', 500)
+      return NextResponse.json({ data: (data as ApiBookmarkRow[]).map(toApiBookmark), next_cursor: null })
+    }
+
+    const tags = [...new Set(params.getAll('tag').map(normalizeTagName).filter(Boolean))]
+    const { column, ascending } = SORT_ORDER[sort]
+    let query = supabase
+      .from('bookmarks')
+      .select(bookmarkColumns(tags, API_COLUMNS))
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+
+    const collection = params.get('collection')
+    if (collection === UNSORTED) {
+      query = query.is('collection_id', null)
+    } else if (collection) {
+      if (!isUuid(collection)) throw new ApiError('collection must be a folder id or "unsorted"')
+      const { data: collections } = await supabase
+        .from('collections')
+        .select('id, name, parent_id, created_at')
+        .eq('workspace_id', workspaceId)
+      query = query.in('collection_id', [...getDescendantIds((collections ?? []) as Collection[], collection)])
+    }
+    tags.forEach((name, i) => {
+      query = query.eq(tagFilterColumn(i), name)
+    })
+
+    const cursor = params.get('cursor')
+    if (cursor) {
+      query = query.or(cursorFilter(sort, decodeCursor(cursor, sort)))
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(limit)
+      .returns<ApiBookmarkRow[]>()
+    if (error) throw new ApiError('Failed to load bookmarks', 500)
+
+    const last = data[data.length - 1]
+    return NextResponse.json({
+      data: data.map(toApiBookmark),
+      next_cursor: data.length === limit ? encodeCursor(last[column], last.id) : null,
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// POST /api/v1/bookmarks creates one bookmark from { url, title?,
+// description?, notes?, collection_id?, read_state?, pinned?, tags? }
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, userId } = await createTokenClient(request.headers.get('authorization'), 'bookmarks:write')
+    const scope = await resolveWorkspace(supabase, userId, request.nextUrl.searchParams.get('workspace'), { write: true })
+    const input = parseBookmarkInput(await request.json().catch(() => null), { requireUrl: true })
+    const bookmark = await createBookmark(supabase, scope, input)
+    return NextResponse.json({ data: bookmark }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -1,18 +1,25 @@
 import { createClient } from '@/lib/supabase/server'
+import { safeNextPath } from '@/lib/auth'
 import { NextResponse } from 'next/server'
 
+// OAuth providers, magic links and sign-up confirmations all land here
 export async function GET(request: Request) {
   const { searchParams, origin } = new URL(request.url)
   const code = searchParams.get('code')
-  const next = searchParams.get('next') ?? '/'
+  const next = safeNextPath(searchParams.get('next'))
 
-  if (code) {
+  // Providers that refuse or fail report it in the query instead of a code
+  let errorCode = searchParams.get('error_code') ?? searchParams.get('error')
+  if (code && !errorCode) {
     const supabase = await createClient()
     const { error } = await supabase.auth.exchangeCodeForSession(code)
     if (!error) {
       return NextResponse.redirect(`${origin}${next}`)
     }
+    errorCode = error.code ?? 'unexpected_failure'
   }
 
-  return NextResponse.redirect(`${origin}/auth/error`)
+  const params = new URLSearchParams({ code: errorCode ?? 'missing_code' })
+  if (next !== '/') params.set('next', next)
+  return NextResponse.redirect(`${origin}/auth/error?${params}`)
 }
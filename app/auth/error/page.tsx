@@ -1,10 +1,21 @@
-export default function AuthError() {
+import Link from 'next/link'
+import { authErrorMessage, safeNextPath, signInUrl } from '@/lib/auth'
+
+type AuthErrorProps = { searchParams: Promise<{ code?: string; next?: string }> }
+
+export default async function AuthError({ searchParams }: AuthErrorProps) {
+  const { code, next } = await searchParams
+
   return (
-    <div className="flex min-h-screen items-center justify-center">
-      <div className="text-center">
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="text-center max-w-md">
         <h1 className="text-2xl font-bold mb-4">Authentication Error</h1>
-        <p className="text-gray-600 mb-4">There was a problem signing you in.</p>
-        <a href="/" className="text-blue-600 hover:underline">Go back home</a>
+        <p className="text-gray-600 mb-2">{authErrorMessage(code)}</p>
+        {code && <p className="text-xs text-gray-400 mb-6">Error code: {code}</p>}
+        <div className="flex items-center justify-center gap-4">
+          <Link href={signInUrl(safeNextPath(next))} className="text-blue-600 hover:underline">Try again</Link>
+          <Link href="/" className="text-blue-600 hover:underline">Go back home</Link>
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import LoginButton from '@/components/LoginButton'
+import AcceptInvite from '@/components/AcceptInvite'
+import { ROLE_LABELS, isInvitePending, type WorkspaceInvitePreview } from '@/lib/workspaces'
+
+type InvitePageProps = { params: Promise<{ token: string }> }
+
+export const metadata: Metadata = {
+  title: 'Join a workspace',
+  robots: { index: false, follow: false },
+}
+
+// Landing page for workspace invitation links. Signed-out visitors come back
+// here through the OAuth callback; accept_workspace_invite() checks that the
+// signed-in email is the one that was invited.
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params
+  const supabase = await createClient()
+  const [{ data }, { data: { user } }] = await Promise.all([
+    supabase.rpc('get_workspace_invite', { invite_token: token }),
+    supabase.auth.getUser(),
+  ])
+  const invite = data as WorkspaceInvitePreview | null
+  if (!invite) notFound()
+
+  let content: React.ReactNode
+  if (!isInvitePending(invite)) {
+    content = (
+      <p className="text-gray-600">
+        {invite.accepted_at ? 'This invitation has already been used.' : 'This invitation has expired.'} Ask the
+        workspace owner for a new one.
+      </p>
+    )
+  } else if (!user) {
+    content = (
+      <>
+        <p className="text-gray-600 mb-6">Sign in as {invite.email} to join.</p>
+        <LoginButton next={`/invite/${token}`} />
+      </>
+    )
+  } else if (user.email?.toLowerCase() !== invite.email.toLowerCase()) {
+    content = (
+      <p className="text-gray-600">
+        This invitation was sent to {invite.email}, but you are signed in as {user.email}. Sign in with the
+        invited account to join.
+      </p>
+    )
+  } else {
+    content = <AcceptInvite token={token} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white border border-gray-200 rounded-2xl shadow-sm p-6 text-gray-900 text-center">
+        <p className="text-sm text-gray-500 mb-2">You&apos;re invited to</p>
+        <h1 className="text-xl font-semibold mb-1">{invite.workspace_name}</h1>
+        <p className="text-sm text-gray-500 mb-6">{ROLE_LABELS[invite.role]} access</p>
+        {content}
+        <Link href="/" className="inline-block text-sm text-blue-600 hover:underline mt-6">Back to bookmarks</Link>
+      </div>
+    </div>
+  )
+}
@@ -14,7 +14,7 @@ const geistMono = Geist_Mono({
 
 export const metadata: Metadata = {
   title: "Smart Bookmark App",
-  description: "Save and organize your bookmarks with Google OAuth and real-time sync",
+  description: "Save and organize your bookmarks with real-time sync",
 };
 
 export default function RootLayout({
@@ -23,7 +23,8 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    // The color scheme script may mark <html> before it hydrates
+    <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
@@ -0,0 +1,38 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { safeNextPath } from '@/lib/auth'
+import SignInForm from '@/components/SignInForm'
+
+type LoginPageProps = { searchParams: Promise<{ next?: string }> }
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const next = safeNextPath((await searchParams).next)
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (user) redirect(next)
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <Image
+          src="/logo.png"
+          alt="SaveNest Logo"
+          width={320}
+          height={100}
+          priority
+          className="mx-auto w-56 mb-6"
+        />
+        <div className="bg-white border border-gray-200 rounded-2xl shadow-sm p-6 text-gray-900">
+          <h1 className="text-xl font-semibold text-center mb-6">Sign in to SaveNest</h1>
+          <SignInForm next={next} />
+        </div>
+      </div>
+    </div>
+  )
+}
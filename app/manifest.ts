@@ -0,0 +1,27 @@
+import type { MetadataRoute } from 'next'
+
+// Installing the app registers it as a share target, so links shared from
+// other apps open /save with title/text/url filled in
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'SaveNest',
+    short_name: 'SaveNest',
+    description: 'Your links, safely nested.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f9fafb',
+    theme_color: '#2563eb',
+    icons: [
+      { src: '/favicon.ico', sizes: '16x16 32x32', type: 'image/x-icon' },
+    ],
+    share_target: {
+      action: '/save',
+      method: 'GET',
+      params: {
+        title: 'title',
+        text: 'text',
+        url: 'url',
+      },
+    },
+  }
+}
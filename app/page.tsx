@@ -1,11 +1,23 @@
+import { cookies } from 'next/headers'
 import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/supabase/workspace'
 import LoginButton from '@/components/LoginButton'
 import BookmarkList from '@/components/BookmarkList'
+import { COLOR_SCHEME_COOKIE, PREFERENCE_COLUMNS, colorSchemeScript, isDarkTheme, parsePreferences } from '@/lib/preferences'
 import Image from 'next/image'
 
 export default async function Home() {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
+  const { workspaces, active } = user
+    ? await getActiveWorkspace(supabase, user.id)
+    : { workspaces: [], active: null }
+  // Rendered with the saved theme and layout so the page doesn't flash the defaults
+  const { data: row } = user
+    ? await supabase.from('user_preferences').select(PREFERENCE_COLUMNS).eq('user_id', user.id).maybeSingle()
+    : { data: null }
+  const preferences = parsePreferences(row)
+  const systemDark = (await cookies()).get(COLOR_SCHEME_COOKIE)?.value === 'dark'
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -26,8 +38,23 @@ export default async function Home() {
             <LoginButton />
           </div>
         </div>
+      ) : active ? (
+        <>
+          {preferences.theme === 'system' && (
+            <script dangerouslySetInnerHTML={{ __html: colorSchemeScript(isDarkTheme(preferences.theme, systemDark)) }} />
+          )}
+          {/* Keyed so switching workspaces starts from a clean list and channel */}
+          <BookmarkList
+            key={active.id}
+            userId={user.id}
+            workspaces={workspaces}
+            workspace={active}
+            preferences={preferences}
+            systemDark={systemDark}
+          />
+        </>
       ) : (
-        <BookmarkList userId={user.id} />
+        <p className="p-8 text-center text-gray-600">Your workspace is still being set up. Refresh in a moment.</p>
       )}
     </div>
   )
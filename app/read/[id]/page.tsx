@@ -0,0 +1,115 @@
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import type { Snapshot } from '@/lib/snapshots'
+import type { ArticleBlock } from '@/lib/readability'
+import { isWebUrl } from '@/lib/bookmark-input'
+
+// Reader view for the latest offline snapshot of a bookmark. Everything is
+// rendered from stored plain-text blocks, never from the page's own HTML.
+export default async function ReaderPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/')
+
+  const [{ data: bookmark }, { data: snapshot }] = await Promise.all([
+    supabase
+      .from('bookmarks')
+      .select('id, title, url')
+      .eq('id', id)
+      .maybeSingle(),
+    supabase
+      .from('bookmark_snapshots')
+      .select('id, bookmark_id, source_url, title, byline, excerpt, content, word_count, html_path, created_at')
+      .eq('bookmark_id', id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<Snapshot>(),
+  ])
+  if (!bookmark || !snapshot) notFound()
+
+  const savedOn = new Date(snapshot.created_at).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  return (
+    <div className="min-h-screen bg-stone-50 text-gray-900 dark:bg-gray-900 dark:text-gray-100">
+      <div className="max-w-2xl mx-auto px-5 py-10">
+        <nav className="flex flex-wrap items-center gap-4 text-sm mb-8 text-gray-500 dark:text-gray-400">
+          <Link href="/" className="hover:underline">&larr; Back to bookmarks</Link>
+          {isWebUrl(bookmark.url) && (
+            <a href={bookmark.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              Open original
+            </a>
+          )}
+          {snapshot.html_path && (
+            <a href={`/api/snapshots/${snapshot.id}/html`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              Saved HTML
+            </a>
+          )}
+        </nav>
+
+        <article>
+          <header className="mb-8">
+            <h1 className="text-3xl font-bold leading-tight mb-3">{snapshot.title ?? bookmark.title}</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {snapshot.byline && <>{snapshot.byline} · </>}
+              {new URL(snapshot.source_url).hostname.replace('www.', '')} · {snapshot.word_count.toLocaleString('en-US')} words · saved {savedOn}
+            </p>
+          </header>
+          <div className="space-y-5 text-lg leading-relaxed font-serif">
+            {renderBlocks(snapshot.content)}
+          </div>
+        </article>
+      </div>
+    </div>
+  )
+}
+
+// Groups consecutive list items into lists and renders each block as text
+function renderBlocks(blocks: ArticleBlock[]) {
+  const rendered: React.ReactNode[] = []
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i]
+    switch (block.type) {
+      case 'heading':
+        rendered.push(block.level === 2
+          ? <h2 key={i} className="text-2xl font-bold font-sans pt-4">{block.text}</h2>
+          : <h3 key={i} className="text-xl font-semibold font-sans pt-2">{block.text}</h3>)
+        break
+      case 'paragraph':
+        rendered.push(<p key={i}>{block.text}</p>)
+        break
+      case 'quote':
+        rendered.push(
+          <blockquote key={i} className="border-l-4 pl-4 italic border-gray-300 dark:border-gray-600">{block.text}</blockquote>
+        )
+        break
+      case 'code':
+        rendered.push(
+          <pre key={i} className="text-sm font-mono p-4 rounded-lg overflow-x-auto bg-gray-100 dark:bg-gray-800">{block.text}</pre>
+        )
+        break
+      case 'list-item': {
+        const items: string[] = []
+        const ordered = block.ordered
+        while (i < blocks.length && blocks[i].type === 'list-item') {
+          items.push(blocks[i].text)
+          i++
+        }
+        i--
+        const List = ordered ? 'ol' : 'ul'
+        rendered.push(
+          <List key={i} className={`pl-6 space-y-1 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+            {items.map((item, index) => <li key={index}>{item}</li>)}
+          </List>
+        )
+        break
+      }
+    }
+  }
+  return rendered
+}
@@ -0,0 +1,121 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/supabase/workspace'
+import LoginButton from '@/components/LoginButton'
+import QuickSave from '@/components/QuickSave'
+import BookmarkletLink from '@/components/BookmarkletLink'
+import type { Collection } from '@/lib/collections'
+import { canEditWorkspace } from '@/lib/workspaces'
+import { normalizeUrl } from '@/lib/normalize-url'
+
+export const metadata: Metadata = {
+  title: 'Save to SaveNest',
+}
+
+type SaveSearchParams = Record<string, string | string[] | undefined>
+
+function firstParam(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? ''
+}
+
+// The bookmarklet sends `url` and `title`; share targets often put the link
+// inside `text` instead, so fall back to the first URL found there
+function sharedLink(params: SaveSearchParams) {
+  const text = firstParam(params.text)
+  const candidate = firstParam(params.url) || text.match(/https?:\/\/\S+/)?.[0] || ''
+  try {
+    const url = new URL(candidate)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+  } catch {
+    return null
+  }
+  const title = firstParam(params.title) || text.replace(candidate, '').trim()
+  return { url: candidate, title }
+}
+
+// Save-via-URL endpoint for the bookmarklet popup and the PWA share target
+export default async function SavePage({ searchParams }: { searchParams: Promise<SaveSearchParams> }) {
+  const params = await searchParams
+  const link = sharedLink(params)
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  const workspace = user ? (await getActiveWorkspace(supabase, user.id)).active : null
+
+  let content: React.ReactNode
+  if (!user) {
+    // Bring the shared link back through the OAuth callback
+    const next = link ? `/save?${new URLSearchParams(link)}` : '/save'
+    content = (
+      <div className="text-center">
+        <p className="text-gray-600 mb-6">Sign in to save this link.</p>
+        <LoginButton next={next} />
+      </div>
+    )
+  } else if (!link) {
+    content = (
+      <div className="text-center">
+        <p className="text-gray-600 mb-4">
+          {firstParam(params.url) || firstParam(params.text)
+            ? 'That is not a web link SaveNest can save.'
+            : 'Save pages from any site with one click.'}
+        </p>
+        <p className="text-sm text-gray-500 mb-4">Drag this button to your bookmarks bar, then click it on any page:</p>
+        <BookmarkletLink />
+        <p className="text-sm text-gray-500 mt-6">
+          On mobile, install SaveNest to your home screen and pick it from the share menu.
+        </p>
+        <Link href="/" className="inline-block text-sm text-blue-600 hover:underline mt-6">Back to bookmarks</Link>
+      </div>
+    )
+  } else if (!workspace || !canEditWorkspace(workspace.role)) {
+    content = (
+      <div className="text-center">
+        <p className="text-gray-600 mb-4">
+          You have view-only access to {workspace?.name ?? 'this workspace'}. Switch to a workspace you can edit to save links.
+        </p>
+        <Link href="/" className="inline-block text-sm text-blue-600 hover:underline">Back to bookmarks</Link>
+      </div>
+    )
+  } else {
+    const [{ data: existing }, { data: collections }, { data: tags }] = await Promise.all([
+      supabase
+        .from('bookmarks')
+        .select('title, created_at')
+        .eq('workspace_id', workspace.id)
+        .eq('normalized_url', normalizeUrl(link.url))
+        .is('deleted_at', null)
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('collections')
+        .select('id, name, parent_id, created_at')
+        .eq('workspace_id', workspace.id)
+        .returns<Collection[]>(),
+      supabase
+        .from('tags')
+        .select('name')
+        .eq('workspace_id', workspace.id),
+    ])
+    content = (
+      <QuickSave
+        scope={{ userId: user.id, workspaceId: workspace.id }}
+        workspaceName={workspace.personal ? null : workspace.name}
+        url={link.url}
+        initialTitle={link.title}
+        collections={collections ?? []}
+        tagSuggestions={(tags ?? []).map(tag => tag.name)}
+        existing={existing}
+      />
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white border border-gray-200 rounded-2xl shadow-sm p-6 text-gray-900">
+        <h1 className="text-base font-semibold mb-4 text-center">Save to SaveNest</h1>
+        {content}
+      </div>
+    </div>
+  )
+}
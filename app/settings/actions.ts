@@ -0,0 +1,51 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { SNAPSHOT_BUCKET } from '@/lib/snapshots'
+import { DELETE_CONFIRMATION } from '@/lib/account'
+
+const STORAGE_CHUNK_SIZE = 100
+
+export type DeleteAccountResult = { error: string } | { deleted: true }
+
+// Deletes the signed-in user's data and then the auth user itself. The form
+// has to send back the account's email and the confirmation word, so a
+// stray request can't trigger it.
+export async function deleteAccount(email: string, confirmation: string): Promise<DeleteAccountResult> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: 'Not signed in' }
+  }
+  if (confirmation !== DELETE_CONFIRMATION || email.trim().toLowerCase() !== (user.email ?? '').toLowerCase()) {
+    return { error: 'The confirmation did not match' }
+  }
+
+  // Only the service role may call it, with the user checked above
+  const admin = createAdminClient()
+  const { data: paths, error } = await admin.rpc('delete_account_data', { uid: user.id })
+  if (error) {
+    console.error('delete_account_data failed', error)
+    // The function refuses while the user is a workspace's only owner
+    if (error.message.startsWith('Make someone else an owner')) {
+      return { error: 'Make someone else an owner of your shared workspaces, or delete them, before closing your account.' }
+    }
+    return { error: 'Your account could not be deleted. Please try again.' }
+  }
+
+  // Files aren't removed with their rows; a failure here only leaves orphans
+  const files = (paths ?? []) as string[]
+  for (let i = 0; i < files.length; i += STORAGE_CHUNK_SIZE) {
+    await admin.storage.from(SNAPSHOT_BUCKET).remove(files.slice(i, i + STORAGE_CHUNK_SIZE))
+  }
+
+  // Tokens, share links, memberships and invites cascade from the auth user
+  const { error: deleteError } = await admin.auth.admin.deleteUser(user.id)
+  if (deleteError) {
+    return { error: 'Your data was deleted, but the account could not be closed. Please try again.' }
+  }
+
+  await supabase.auth.signOut()
+  return { deleted: true }
+}
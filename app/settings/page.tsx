@@ -0,0 +1,77 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { signInUrl } from '@/lib/auth'
+import type { AccountSession } from '@/lib/account'
+import ProfileSettings from '@/components/ProfileSettings'
+import ConnectedProviders from '@/components/ConnectedProviders'
+import SessionList from '@/components/SessionList'
+import DeleteAccount from '@/components/DeleteAccount'
+
+export const metadata: Metadata = {
+  title: 'Settings',
+}
+
+function Section({ title, description, children }: { title: string, description?: string, children: React.ReactNode }) {
+  return (
+    <section className="bg-white border border-gray-200 rounded-2xl shadow-sm p-6">
+      <h2 className="text-lg font-semibold mb-1">{title}</h2>
+      {description && <p className="text-sm text-gray-500 mb-4">{description}</p>}
+      <div className={description ? '' : 'mt-4'}>{children}</div>
+    </section>
+  )
+}
+
+export default async function SettingsPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect(signInUrl('/settings'))
+
+  const { data } = await supabase.rpc('get_account_sessions')
+  const sessions = (data ?? []) as AccountSession[]
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <div className="max-w-2xl mx-auto px-5 py-10 space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold">Account Settings</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">Back to bookmarks</Link>
+        </header>
+
+        <Section title="Profile">
+          <ProfileSettings
+            email={user.email ?? null}
+            name={user.user_metadata?.full_name ?? ''}
+            createdAt={user.created_at}
+          />
+        </Section>
+
+        <Section title="Sign-in Methods" description="Any of these opens the same account.">
+          <ConnectedProviders identities={user.identities ?? []} />
+        </Section>
+
+        <Section title="Sessions" description="Browsers and devices signed in to your account.">
+          <SessionList sessions={sessions} />
+        </Section>
+
+        <Section
+          title="Your Data"
+          description="Everything in your workspaces, including offline copies as text and edit history, plus your API tokens and share links, as one JSON file. Saved page HTML is not included."
+        >
+          <a
+            href="/api/account/export"
+            download
+            className="inline-block px-4 py-2 rounded-lg text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all"
+          >
+            Download My Data
+          </a>
+        </Section>
+
+        <Section title="Delete Account" description="Remove your account and your bookmarks for good.">
+          <DeleteAccount email={user.email ?? ''} />
+        </Section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import type { SharedCollection } from '@/lib/shares'
+import { isWebUrl } from '@/lib/bookmark-input'
+
+type SharedPageProps = { params: Promise<{ token: string }> }
+
+export const metadata: Metadata = {
+  title: 'Shared bookmarks',
+  robots: { index: false, follow: false },
+}
+
+// Read-only public view of a shared link. Visitors don't need an account;
+// get_shared_collection() decides what they can see and counts the view.
+export default async function SharedPage({ params }: SharedPageProps) {
+  const { token } = await params
+  const supabase = await createClient()
+  const { data } = await supabase.rpc('get_shared_collection', { share_token: token })
+  const shared = data as SharedCollection | null
+  if (!shared) notFound()
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <div className="max-w-3xl mx-auto px-5 py-10">
+        <header className="mb-8">
+          <p className="text-sm text-gray-500 mb-2">Shared with SaveNest</p>
+          <h1 className="text-3xl font-bold leading-tight mb-2">{shared.title}</h1>
+          {shared.description && <p className="text-gray-600 mb-2">{shared.description}</p>}
+          <p className="text-sm text-gray-500">
+            {shared.bookmarks.length === 1 ? '1 bookmark' : `${shared.bookmarks.length} bookmarks`}
+            {shared.expires_at && ` · available until ${new Date(shared.expires_at).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}`}
+          </p>
+        </header>
+
+        {shared.bookmarks.length === 0 ? (
+          <p className="text-gray-500">There is nothing in this list yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {shared.bookmarks.map((bookmark, index) => (
+              <li key={index} className="rounded-xl border border-gray-200 bg-white p-4">
+                <a
+                  href={isWebUrl(bookmark.url) ? bookmark.url : undefined}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="font-medium text-gray-900 hover:text-blue-600 hover:underline"
+                >
+                  {bookmark.title}
+                </a>
+                <p className="text-sm text-blue-600 truncate">{bookmark.domain ?? bookmark.url}</p>
+                {bookmark.description && (
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2">{bookmark.description}</p>
+                )}
+                {bookmark.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {bookmark.tags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">#{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <footer className="mt-10 text-center text-sm text-gray-500">
+          <Link href="/" className="hover:underline">Keep your own links with SaveNest</Link>
+        </footer>
+      </div>
+    </div>
+  )
+}
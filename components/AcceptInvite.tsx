@@ -0,0 +1,41 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { rememberWorkspace } from '@/lib/workspaces'
+
+// Joins the workspace behind an invite link and opens it
+export default function AcceptInvite({ token }: { token: string }) {
+  const router = useRouter()
+  const [joining, setJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const accept = async () => {
+    setJoining(true)
+    setError(null)
+    const supabase = createClient()
+    const { data, error } = await supabase.rpc('accept_workspace_invite', { invite_token: token })
+    if (error || !data) {
+      setError(error?.message ?? 'Could not accept the invitation')
+      setJoining(false)
+      return
+    }
+    rememberWorkspace(data as string)
+    router.push('/')
+    router.refresh()
+  }
+
+  return (
+    <div>
+      <button
+        onClick={accept}
+        disabled={joining}
+        className="w-full px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+      >
+        {joining ? 'Joining...' : 'Join Workspace'}
+      </button>
+      {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  ACCESS_TOKEN_COLUMNS,
+  ACCESS_TOKEN_SCOPES,
+  isTokenActive,
+  type AccessToken,
+  type AccessTokenScope,
+} from '@/lib/access-tokens'
+
+type AccessTokensDialogProps = {
+  userId: string
+  onClose: () => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+]
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Create, list and revoke personal access tokens for the /api/v1 REST API
+export default function AccessTokensDialog({ userId, onClose, onNotify, darkMode }: AccessTokensDialogProps) {
+  const [tokens, setTokens] = useState<AccessToken[] | null>(null)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['bookmarks:read'])
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90)
+  const [creating, setCreating] = useState(false)
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null)
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .from('personal_access_tokens')
+      .select(ACCESS_TOKEN_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .returns<AccessToken[]>()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        setTokens(error ? [] : data)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, supabase])
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(body.error)
+      setTokens(prev => [body.record, ...(prev ?? [])])
+      setNewToken(body.token)
+      setName('')
+    } catch (error) {
+      onNotify(error instanceof Error && error.message ? error.message : 'Failed to create token', 'error')
+    }
+    setCreating(false)
+  }
+
+  const revokeToken = async (id: string) => {
+    setConfirmRevokeId(null)
+    const { data: revokedAt, error } = await supabase.rpc('revoke_access_token', { target: id })
+    if (error || !revokedAt) {
+      onNotify('Failed to revoke token', 'error')
+      return
+    }
+    setTokens(prev => prev?.map(token => token.id === id ? { ...token, revoked_at: revokedAt as string } : token) ?? null)
+    onNotify('Token revoked', 'success')
+  }
+
+  const copyToken = async () => {
+    if (!newToken) return
+    await navigator.clipboard.writeText(newToken)
+    onNotify('Token copied to clipboard', 'success')
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tokens-title"
+        className={`rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="tokens-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          API Access Tokens
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Scripts and CLI tools can call <code>/api/v1/bookmarks</code> with{' '}
+          <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+
+        {newToken ? (
+          <div className={`rounded-xl border p-4 mb-4 ${darkMode ? 'border-emerald-700 bg-emerald-900/20' : 'border-emerald-200 bg-emerald-50'}`}>
+            <p className="text-sm font-medium mb-2">Copy your new token now. It won&apos;t be shown again.</p>
+            <div className="flex gap-2">
+              <code className={`flex-1 min-w-0 truncate px-3 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-900' : 'bg-white'}`}>
+                {newToken}
+              </code>
+              <button onClick={copyToken} className="px-3 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all">
+                Copy
+              </button>
+              <button onClick={() => setNewToken(null)} className={`px-3 py-2 text-sm rounded-lg transition-all ${subtleButton}`}>
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={createToken} className="flex flex-col gap-3 mb-4">
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Token name, e.g. Laptop CLI"
+                aria-label="Token name"
+                maxLength={100}
+                className={`flex-1 min-w-48 ${inputClass}`}
+              />
+              <select
+                value={expiresInDays ?? ''}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                aria-label="Token expiry"
+                className={inputClass}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? ''}>
+                    {option.days ? `Expires in ${option.label}` : 'Never expires'}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={creating || !name.trim() || scopes.length === 0}
+                className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create Token'}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(ACCESS_TOKEN_SCOPES) as AccessTokenScope[]).map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  <code>{scope}</code>
+                  <span className={mutedText}>{ACCESS_TOKEN_SCOPES[scope]}</span>
+                </label>
+              ))}
+            </div>
+          </form>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {!tokens && <p className={`text-sm ${mutedText}`}>Loading...</p>}
+          {tokens?.length === 0 && <p className={`text-sm ${mutedText}`}>No tokens yet.</p>}
+          {tokens?.map(token => {
+            const active = isTokenActive(token)
+            return (
+              <div
+                key={token.id}
+                className={`rounded-xl border p-3 flex items-start gap-3 ${
+                  darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'
+                } ${active ? '' : 'opacity-60'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {token.name} <code className={`text-xs font-normal ${mutedText}`}>{token.token_prefix}…</code>
+                  </p>
+                  <p className={`text-xs ${mutedText}`}>{token.scopes.join(', ')}</p>
+                  <p className={`text-xs mt-1 ${mutedText}`}>
+                    Created {formatDate(token.created_at)}
+                    {' · '}
+                    {token.last_used_at ? `last used ${formatDate(token.last_used_at)}` : 'never used'}
+                    {' · '}
+                    {token.revoked_at
+                      ? `revoked ${formatDate(token.revoked_at)}`
+                      : token.expires_at
+                        ? `${active ? 'expires' : 'expired'} ${formatDate(token.expires_at)}`
+                        : 'no expiry'}
+                  </p>
+                </div>
+                {active && (confirmRevokeId === token.id ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => revokeToken(token.id)}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+                    >
+                      Revoke
+                    </button>
+                    <button onClick={() => setConfirmRevokeId(null)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setConfirmRevokeId(token.id)}
+                    title="Stop this token from working"
+                    className={`px-3 py-1.5 text-xs rounded-lg transition-all ${
+                      darkMode ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-red-50'
+                    }`}
+                  >
+                    Revoke
+                  </button>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+
+        <button onClick={onClose} className={`px-4 py-2 rounded-lg transition-all ${subtleButton}`}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
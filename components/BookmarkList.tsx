@@ -1,225 +1,628 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useRef, useState, useCallback } from 'react'
+import {
+  createCollection,
+  deleteCollection,
+  moveBookmarksToTrash,
+  renameCollection,
+  restoreBookmarksFromTrash,
+  saveBookmark,
+  updateBookmark,
+  updateBookmarks,
+} from '@/app/actions'
 import { createClient } from '@/lib/supabase/client'
-import type { RealtimeChannel } from '@supabase/supabase-js'
 import Image from 'next/image'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import TagInput from '@/components/TagInput'
+import CollectionSidebar from '@/components/CollectionSidebar'
+import ImportDialog from '@/components/ImportDialog'
+import ExportMenu from '@/components/ExportMenu'
+import AccessTokensDialog from '@/components/AccessTokensDialog'
+import ShareDialog from '@/components/ShareDialog'
+import DuplicatesDialog from '@/components/DuplicatesDialog'
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher'
+import WorkspaceDialog from '@/components/WorkspaceDialog'
+import Highlight from '@/components/Highlight'
+import Markdown from '@/components/Markdown'
+import VirtualBookmarkList from '@/components/VirtualBookmarkList'
+import SyncIndicator from '@/components/SyncIndicator'
+import RevisionHistory from '@/components/RevisionHistory'
+import TrashView from '@/components/TrashView'
+import LinkHealthBadge from '@/components/LinkHealthBadge'
+import LinkHealthBar from '@/components/LinkHealthBar'
+import CommandPalette, { type PaletteCommand } from '@/components/CommandPalette'
+import ShortcutsDialog from '@/components/ShortcutsDialog'
+import type { Tag } from '@/lib/tags'
+import { BOOKMARK_DRAG_TYPE, TRASH, UNSORTED, getDescendantIds, type Collection } from '@/lib/collections'
+import type { ShareTarget } from '@/lib/shares'
+import { canEditWorkspace, type LibraryScope, type WorkspaceMembership } from '@/lib/workspaces'
+import type { LinkCheckResult } from '@/lib/link-check'
+import {
+  MAX_NOTES_LENGTH,
+  PAGE_SIZE,
+  READ_FILTERS,
+  SORT_ORDER,
+  bookmarkColumns,
+  getDomain,
+  matchesReadFilter,
+  pinnedCursorFilter,
+  stripTagFilters,
+  tagFilterColumn,
+  type Bookmark,
+  type BookmarkRevision,
+  type BookmarkSort,
+  type ReadFilter,
+  type ReadState,
+  type ViewMode,
+} from '@/lib/bookmarks'
+import { upsertBookmark, useBookmarkSync } from '@/lib/bookmark-sync'
+import { isWebUrl } from '@/lib/bookmark-input'
+import {
+  actionForBinding,
+  bindingKeys,
+  eventToBinding,
+  isMacPlatform,
+  worksInFields,
+  type ShortcutAction,
+} from '@/lib/shortcuts'
+import { THEMES, type Preferences, type Theme } from '@/lib/preferences'
+import { usePreferences } from '@/lib/preferences-sync'
+import { highlightTerms, isEmptySearch, parseSearchQuery, toTsQuery } from '@/lib/search'
 
-type Bookmark = {
-  id: string
-  title: string
-  url: string
-  created_at: string
+const LINK_CHECK_BATCH = 50
+
+type ToastAction = {
+  label: string
+  onClick: () => void
+}
+
+type BookmarkListProps = {
+  userId: string
+  workspaces: WorkspaceMembership[]
+  workspace: WorkspaceMembership
+  preferences: Preferences
+  // The OS color scheme as last seen, for resolving a "system" theme
+  systemDark: boolean
 }
 
-export default function BookmarkList({ userId }: { userId: string }) {
+const VIEW_MODE_LABELS: Record<ViewMode, string> = { grid: 'grid', cards: 'cards', list: 'list' }
+
+export default function BookmarkList({ userId, workspaces, workspace, preferences: initialPreferences, systemDark }: BookmarkListProps) {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
   const [title, setTitle] = useState('')
   const [url, setUrl] = useState('')
+  const [tags, setTags] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [showForm, setShowForm] = useState(false)
   const [copiedId, setCopiedId] = useState<string | null>(null)
-  const [darkMode, setDarkMode] = useState(false)
-  const [toast, setToast] = useState<{message: string, type: 'success' | 'error'} | null>(null)
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [sortBy, setSortBy] = useState<'date' | 'title' | 'domain'>('date')
+  const [toast, setToast] = useState<{message: string, type: 'success' | 'error', action?: ToastAction} | null>(null)
+  const toastTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const handleShortcut = useRef<(e: KeyboardEvent) => void>(() => {})
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const [showPalette, setShowPalette] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  // The card j/k moved to; Enter, e, x and Delete act on it
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all')
+  const [markReadOnOpen, setMarkReadOnOpen] = useState(true)
   const [showConfirm, setShowConfirm] = useState<{id: string, title: string} | null>(null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editTitle, setEditTitle] = useState('')
   const [editUrl, setEditUrl] = useState('')
+  const [editTags, setEditTags] = useState<string[]>([])
+  const [editNotes, setEditNotes] = useState('')
+  const [historyFor, setHistoryFor] = useState<{id: string, title: string} | null>(null)
+  const [allTags, setAllTags] = useState<Tag[]>([])
+  const [activeTags, setActiveTags] = useState<string[]>([])
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [activeCollection, setActiveCollection] = useState<string | null>(null)
   const [selectedIds, setSelectedIds] = useState<string[]>([])
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showTokens, setShowTokens] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showWorkspaces, setShowWorkspaces] = useState(false)
+  const [snapshottingId, setSnapshottingId] = useState<string | null>(null)
+  const [linkCheckProgress, setLinkCheckProgress] = useState<{ done: number, total: number } | null>(null)
+  const [searchResults, setSearchResults] = useState<Bookmark[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [totalCount, setTotalCount] = useState(0)
+  const [unsortedCount, setUnsortedCount] = useState(0)
+  const [collectionCounts, setCollectionCounts] = useState<Record<string, number>>({})
   const supabase = createClient()
+  const router = useRouter()
+  const { preferences, updatePreferences, darkMode } = usePreferences({
+    supabase,
+    userId,
+    initial: initialPreferences,
+    initialSystemDark: systemDark,
+  })
+  const { view_mode: viewMode, sort_by: sortBy, shortcuts: bindings } = preferences
+  const workspaceId = workspace.id
+  const scope: LibraryScope = { userId, workspaceId }
+  // Viewers get the same library without the controls that change it
+  const canEdit = canEditWorkspace(workspace.role)
+
+  // Collection ids the list is scoped to, as a string so it only changes
+  // when the scope itself does
+  const collectionScope = activeCollection === UNSORTED
+    ? UNSORTED
+    : activeCollection && activeCollection !== TRASH
+      ? [...getDescendantIds(collections, activeCollection)].join(',')
+      : ''
+
+  const fetchPage = useCallback(async (after: Bookmark | null) => {
+    const { column, ascending } = SORT_ORDER[sortBy]
+    let query = supabase
+      .from('bookmarks')
+      .select(bookmarkColumns(activeTags))
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+
+    if (collectionScope === UNSORTED) {
+      query = query.is('collection_id', null)
+    } else if (collectionScope) {
+      query = query.in('collection_id', collectionScope.split(','))
+    }
+    activeTags.forEach((name, i) => {
+      query = query.eq(tagFilterColumn(i), name)
+    })
+    if (readFilter === 'pinned') {
+      query = query.eq('pinned', true)
+    } else if (readFilter !== 'all') {
+      query = query.eq('read_state', readFilter)
+    }
+    if (after) {
+      query = query.or(pinnedCursorFilter(sortBy, after))
+    }
+
+    const { data, error } = await query
+      .order('pinned', { ascending: false })
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(PAGE_SIZE)
+      .returns<Bookmark[]>()
+    return error ? null : stripTagFilters(data)
+  }, [workspaceId, supabase, sortBy, activeTags, collectionScope, readFilter])
+
+  const fetchCounts = useCallback(async () => {
+    const { data } = await supabase.rpc('bookmark_counts', { target_workspace: workspaceId })
+    if (!data) return
+
+    const counts: Record<string, number> = {}
+    let total = 0
+    let unsorted = 0
+    data.forEach((row: { collection_id: string | null, bookmark_count: number }) => {
+      total += row.bookmark_count
+      if (row.collection_id) {
+        counts[row.collection_id] = row.bookmark_count
+      } else {
+        unsorted = row.bookmark_count
+      }
+    })
+    setCollectionCounts(counts)
+    setTotalCount(total)
+    setUnsortedCount(unsorted)
+  }, [workspaceId, supabase])
+
+  const fetchLibrary = useCallback(async () => {
+    const [{ data: tagData }, { data: collectionData }] = await Promise.all([
+      supabase
+        .from('tags')
+        .select('id, name')
+        .eq('workspace_id', workspaceId)
+        .order('name'),
+      supabase
+        .from('collections')
+        .select('id, name, parent_id, created_at')
+        .eq('workspace_id', workspaceId),
+      fetchCounts(),
+    ])
+    
+    if (tagData) setAllTags(tagData)
+    if (collectionData) setCollections(collectionData)
+  }, [workspaceId, supabase, fetchCounts])
 
   const fetchBookmarks = useCallback(async () => {
     setIsRefreshing(true)
-    const { data } = await supabase
-      .from('bookmarks')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
+    const [page] = await Promise.all([fetchPage(null), fetchLibrary()])
     
-    if (data) setBookmarks(data)
+    if (page) {
+      setBookmarks(page)
+      setHasMore(page.length === PAGE_SIZE)
+    }
     setIsRefreshing(false)
-  }, [userId, supabase])
+  }, [fetchPage, fetchLibrary])
 
-  useEffect(() => {
-    // Fetch initial bookmarks
-    fetchBookmarks()
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore || bookmarks.length === 0) return
+    setLoadingMore(true)
+    const page = await fetchPage(bookmarks[bookmarks.length - 1])
     
-    // Keyboard shortcuts
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.ctrlKey || e.metaKey) {
-        switch (e.key) {
-          case 'k':
-            e.preventDefault()
-            const searchInput = document.querySelector('input[placeholder="Search bookmarks..."]') as HTMLInputElement
-            searchInput?.focus()
-            break
-          case 'n':
-            e.preventDefault()
-            setShowForm(true)
-            break
-          case 'd':
-            e.preventDefault()
-            setDarkMode(!darkMode)
-            break
-        }
-      }
-      if (e.key === 'Escape') {
-        setShowForm(false)
-        setShowConfirm(null)
-        setEditingId(null)
-      }
+    if (page) {
+      setBookmarks(prev => [...prev, ...page.filter(b => !prev.some(p => p.id === b.id))])
+      setHasMore(page.length === PAGE_SIZE)
     }
-    
+    setLoadingMore(false)
+  }, [loadingMore, hasMore, bookmarks, fetchPage])
+
+  useEffect(() => {
+    fetchBookmarks()
+  }, [fetchBookmarks])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcut.current(e)
     window.addEventListener('keydown', handleKeyDown)
-    
-    const channel: RealtimeChannel = supabase
-      .channel('bookmarks-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'bookmarks',
-          filter: `user_id=eq.${userId}`,
-        },
-        (payload) => {
-          console.log('Realtime event:', payload)
-          fetchBookmarks()
-        }
-      )
-      .subscribe((status) => {
-        console.log('Subscription status:', status)
-      })
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
 
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown)
-      supabase.removeChannel(channel)
-    }
-  }, [userId, darkMode, fetchBookmarks, supabase])
+  // Search runs in Postgres; it is re-run whenever the loaded bookmarks
+  // change so results never show stale or deleted rows
+  useEffect(() => {
+    const parsed = parseSearchQuery(searchQuery)
+    let cancelled = false
 
-  const fetchTitleFromUrl = async (url: string) => {
-    try {
-      const response = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(url)}`)
-      const data = await response.json()
-      const parser = new DOMParser()
-      const doc = parser.parseFromString(data.contents, 'text/html')
-      const title = doc.querySelector('title')?.textContent
-      return title || getDomain(url)
-    } catch {
-      return getDomain(url)
+    const timer = setTimeout(async () => {
+      if (isEmptySearch(parsed)) {
+        setSearchResults(null)
+        setIsSearching(false)
+        return
+      }
+
+      setIsSearching(true)
+      const { data, error } = await supabase
+        .rpc('search_bookmarks', {
+          target_workspace: workspaceId,
+          search_query: toTsQuery(parsed),
+          sites: parsed.sites,
+          excluded_sites: parsed.excludedSites,
+          tag_names: parsed.tags,
+          excluded_tag_names: parsed.excludedTags,
+        })
+        .select('*, tags(id, name)')
+
+      if (cancelled) return
+      if (!error) setSearchResults(data as Bookmark[])
+      setIsSearching(false)
+    }, searchQuery.trim() ? 250 : 0)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
-  }
+  }, [searchQuery, bookmarks, workspaceId, supabase])
 
-  const showToast = (message: string, type: 'success' | 'error') => {
-    setToast({ message, type })
-    setTimeout(() => setToast(null), 3000)
+  // Toasts with an action (like Undo) stay up longer so there's time to use it
+  const showToast = (message: string, type: 'success' | 'error', action?: ToastAction) => {
+    if (toastTimer.current) clearTimeout(toastTimer.current)
+    setToast({ message, type, action })
+    toastTimer.current = setTimeout(() => setToast(null), action ? 6000 : 3000)
   }
 
   const addBookmark = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!title.trim() || !url.trim()) return
+    if (!url.trim()) return
+
+    setLoading(true)
+    // The server checks for duplicates and fills in the page's title and images
+    const collectionId = activeCollection && activeCollection !== UNSORTED ? activeCollection : null
+    const result = await saveBookmark(workspaceId, {
+      url,
+      title: title.trim() || undefined,
+      collection_id: collectionId,
+      tags,
+    })
+    setLoading(false)
 
-    // Check for duplicates
-    const isDuplicate = bookmarks.some(b => b.url === url.trim())
-    if (isDuplicate) {
-      showToast('This URL is already bookmarked!', 'error')
+    // Keep the form filled in so a rejected URL can be corrected
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
       return
     }
+    const saved = result.data
+    setBookmarks(prev => [saved, ...prev.filter(b => b.id !== saved.id)])
+    mergeTags(saved.tags)
+    fetchCounts()
+    showToast(result.warning ?? 'Bookmark added successfully!', result.warning ? 'error' : 'success')
 
-    setLoading(true)
-    
-    // Auto-fetch title if empty
-    let finalTitle = title.trim()
-    if (!finalTitle) {
-      finalTitle = await fetchTitleFromUrl(url.trim())
-    }
-    
-    const { data, error } = await supabase.from('bookmarks').insert([
-      { title: finalTitle, url: url.trim(), user_id: userId }
-    ]).select()
-    
-    if (data && !error) {
-      setBookmarks(prev => [data[0], ...prev])
-      showToast('Bookmark added successfully!', 'success')
-    } else {
-      showToast('Failed to add bookmark', 'error')
-    }
-    
     setTitle('')
     setUrl('')
-    setLoading(false)
+    setTags([])
     setShowForm(false)
   }
 
+  // Deleting only moves bookmarks to the trash; the toast offers an undo
+  const trashBookmarks = async (ids: string[]) => {
+    const result = await trackMutation(ids, moveBookmarksToTrash(ids))
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return
+    }
+
+    const trashedIds = result.data
+    setBookmarks(prev => prev.filter(b => !trashedIds.includes(b.id)))
+    setSelectedIds(prev => prev.filter(selectedId => !trashedIds.includes(selectedId)))
+    fetchCounts()
+    showToast(
+      trashedIds.length === 1 ? 'Bookmark moved to trash' : `${trashedIds.length} bookmarks moved to trash`,
+      'success',
+      { label: 'Undo', onClick: () => restoreBookmarks(trashedIds) }
+    )
+  }
+
+  const restoreBookmarks = async (ids: string[]) => {
+    const result = await trackMutation(ids, restoreBookmarksFromTrash(ids))
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return false
+    }
+
+    const restored = result.data
+    setBookmarks(prev => restored.reduce(
+      (list, row) => matchesView(row) ? upsertBookmark(list, row, sortBy, hasMore) : list,
+      prev
+    ))
+    fetchCounts()
+    showToast(restored.length === 1 ? 'Bookmark restored' : `${restored.length} bookmarks restored`, 'success')
+    return true
+  }
+
   const deleteBookmark = async (id: string) => {
     setDeletingId(id)
-    const { error } = await supabase.from('bookmarks').delete().eq('id', id)
-    
-    if (!error) {
-      setBookmarks(prev => prev.filter(bookmark => bookmark.id !== id))
-      setSelectedIds(prev => prev.filter(selectedId => selectedId !== id))
-      showToast('Bookmark deleted', 'success')
-    } else {
-      showToast('Failed to delete bookmark', 'error')
-    }
+    await trashBookmarks([id])
     setDeletingId(null)
     setShowConfirm(null)
   }
 
   const editBookmark = async (id: string) => {
     if (!editTitle.trim() || !editUrl.trim()) return
-    
-    const { error } = await supabase
-      .from('bookmarks')
-      .update({ title: editTitle.trim(), url: editUrl.trim() })
-      .eq('id', id)
-    
-    if (!error) {
-      setBookmarks(prev => prev.map(b => 
-        b.id === id ? { ...b, title: editTitle.trim(), url: editUrl.trim() } : b
-      ))
-      showToast('Bookmark updated!', 'success')
-    } else {
-      showToast('Failed to update bookmark', 'error')
+
+    const result = await trackMutation([id], updateBookmark(id, {
+      title: editTitle,
+      url: editUrl,
+      notes: editNotes,
+      tags: editTags,
+    }))
+
+    // Keep the form open so the edit isn't lost
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return
     }
-    
+    const updated = result.data
+    mergeTags(updated.tags)
+    setBookmarks(prev => prev.map(b => b.id === id ? updated : b))
+    showToast(result.warning ?? 'Bookmark updated!', result.warning ? 'error' : 'success')
+
     setEditingId(null)
     setEditTitle('')
     setEditUrl('')
+    setEditTags([])
+    setEditNotes('')
+  }
+
+  const restoreRevision = async (id: string, revision: BookmarkRevision) => {
+    const result = await trackMutation([id], updateBookmark(id, {
+      title: revision.title,
+      url: revision.url,
+      notes: revision.notes,
+    }))
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return false
+    }
+
+    const restored = result.data
+    setBookmarks(prev => prev.map(b => b.id === id ? restored : b))
+    setEditingId(null)
+    showToast('Earlier version restored', 'success')
+    return true
+  }
+
+  const mergeTags = (newTags: Tag[]) => {
+    setAllTags(prev => {
+      const known = new Set(prev.map(tag => tag.id))
+      const added = newTags.filter(tag => !known.has(tag.id))
+      return added.length > 0
+        ? [...prev, ...added].sort((a, b) => a.name.localeCompare(b.name))
+        : prev
+    })
+  }
+
+  const addCollection = async (name: string, parentId: string | null) => {
+    const result = await createCollection(workspaceId, name, parentId)
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return
+    }
+
+    const created = result.data
+    setCollections(prev => [...prev.filter(c => c.id !== created.id), created])
+    showToast(`Folder "${created.name}" created`, 'success')
+  }
+
+  const changeCollectionName = async (id: string, name: string) => {
+    const result = await renameCollection(id, name)
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return
+    }
+
+    const renamed = result.data
+    setCollections(prev => prev.map(c => c.id === id ? renamed : c))
+  }
+
+  const removeCollection = async (id: string) => {
+    const removedIds = getDescendantIds(collections, id)
+    const result = await deleteCollection(id)
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return
+    }
+
+    setCollections(prev => prev.filter(c => !removedIds.has(c.id)))
+    setBookmarks(prev => prev.map(b =>
+      b.collection_id && removedIds.has(b.collection_id) ? { ...b, collection_id: null } : b
+    ))
+    if (activeCollection && removedIds.has(activeCollection)) setActiveCollection(null)
+    fetchCounts()
+    showToast('Folder deleted', 'success')
+  }
+
+  const moveBookmarks = async (ids: string[], collectionId: string | null) => {
+    const previous = bookmarks
+    setBookmarks(prev => prev.map(b => ids.includes(b.id) ? { ...b, collection_id: collectionId } : b))
+    
+    const result = await trackMutation(ids, updateBookmarks(ids, { collection_id: collectionId }))
+    if ('error' in result) {
+      setBookmarks(previous)
+      showToast(result.error.message, 'error')
+      return
+    }
+
+    const moved = result.data.length
+    const target = collections.find(c => c.id === collectionId)?.name ?? 'Unsorted'
+    showToast(`Moved ${moved} bookmark${moved === 1 ? '' : 's'} to ${target}`, 'success')
+    setSelectedIds([])
+    fetchCounts()
+  }
+
+  // Writes read-later state for the given bookmarks and re-places them, since
+  // pinning changes the order and a new state may leave the open tab
+  const updateQueue = async (ids: string[], changes: { read_state: ReadState } | { pinned: boolean }) => {
+    const result = await trackMutation(ids, updateBookmarks(ids, changes))
+    if ('error' in result) {
+      showToast(result.error.message, 'error')
+      return 0
+    }
+
+    const updated = result.data
+    setBookmarks(prev => updated.reduce<Bookmark[]>((list, row) => {
+      if (!list.some(b => b.id === row.id)) return list
+      return matchesView(row) ? upsertBookmark(list, row, sortBy, hasMore) : list.filter(b => b.id !== row.id)
+    }, prev))
+    return updated.length
+  }
+
+  const setReadState = async (ids: string[], state: ReadState) => {
+    const updated = await updateQueue(ids, { read_state: state })
+    if (updated === 0) return
+    const noun = updated === 1 ? 'Bookmark' : `${updated} bookmarks`
+    showToast(state === 'archived' ? `${noun} archived` : `${noun} marked ${state}`, 'success')
+  }
+
+  const setPinned = async (ids: string[], pinned: boolean) => {
+    const updated = await updateQueue(ids, { pinned })
+    if (updated === 0) return
+    const noun = updated === 1 ? 'Bookmark' : `${updated} bookmarks`
+    showToast(`${noun} ${pinned ? 'pinned to the top' : 'unpinned'}`, 'success')
+  }
+
+  // Opening a link counts as reading it, if that's switched on
+  const openBookmark = (bookmark: Bookmark) => {
+    if (canEdit && markReadOnOpen && bookmark.read_state === 'unread') {
+      updateQueue([bookmark.id], { read_state: 'read' })
+    }
+  }
+
+  const toggleTagFilter = (name: string) => {
+    setActiveTags(prev =>
+      prev.includes(name) ? prev.filter(tag => tag !== name) : [...prev, name]
+    )
   }
 
   const bulkDelete = async () => {
     if (selectedIds.length === 0) return
-    
-    const { error } = await supabase
-      .from('bookmarks')
-      .delete()
-      .in('id', selectedIds)
-    
-    if (!error) {
-      setBookmarks(prev => prev.filter(b => !selectedIds.includes(b.id)))
-      showToast(`${selectedIds.length} bookmarks deleted`, 'success')
-      setSelectedIds([])
+    await trashBookmarks(selectedIds)
+  }
+
+  // Checks the selection, or the whole view, oldest results first, in
+  // batches the route accepts
+  const checkLinks = async () => {
+    const targets = (selectedIds.length > 0 ? filteredBookmarks.filter(b => selectedIds.includes(b.id)) : filteredBookmarks)
+      .slice()
+      .sort((a, b) => (a.link_checked_at ?? '').localeCompare(b.link_checked_at ?? ''))
+      .map(b => b.id)
+    if (targets.length === 0) return
+
+    setLinkCheckProgress({ done: 0, total: targets.length })
+    const results: LinkCheckResult[] = []
+    for (let i = 0; i < targets.length; i += LINK_CHECK_BATCH) {
+      try {
+        const response = await fetch('/api/link-check', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: targets.slice(i, i + LINK_CHECK_BATCH) }),
+        })
+        if (!response.ok) throw new Error()
+        const batch: LinkCheckResult[] = (await response.json()).results
+        results.push(...batch)
+        setBookmarks(prev => prev.map(b => {
+          const result = batch.find(r => r.id === b.id)
+          return result ? { ...b, ...result } : b
+        }))
+      } catch {
+        showToast('Link check failed', 'error')
+        setLinkCheckProgress(null)
+        return
+      }
+      setLinkCheckProgress({ done: Math.min(i + LINK_CHECK_BATCH, targets.length), total: targets.length })
+    }
+
+    setLinkCheckProgress(null)
+    const broken = results.filter(r => r.link_error || (r.link_status !== null && r.link_status >= 400)).length
+    showToast(
+      broken > 0 ? `Checked ${results.length} links, ${broken} broken` : `Checked ${results.length} links, all reachable`,
+      broken > 0 ? 'error' : 'success'
+    )
+  }
+
+  // Points redirected bookmarks at where they ended up; the edit history
+  // keeps the old URL in case the redirect was unwanted
+  const updateRedirectedLinks = async (targets: Bookmark[]) => {
+    const results = await Promise.all(targets.map(b => trackMutation([b.id], updateBookmark(b.id, { url: b.link_final_url }))))
+    const updated = results.flatMap(result => 'data' in result ? [result.data] : [])
+    const failed = results.flatMap(result => 'error' in result ? [result.error] : [])
+
+    setBookmarks(prev => prev.map(b => updated.find(u => u.id === b.id) ?? b))
+    if (failed.length === 0) {
+      showToast(`Updated ${updated.length} URL${updated.length === 1 ? '' : 's'}`, 'success')
+    } else if (failed.length === 1) {
+      showToast(updated.length === 0 ? failed[0].message : `Updated ${updated.length} of ${targets.length} URLs: ${failed[0].message}`, 'error')
     } else {
-      showToast('Failed to delete bookmarks', 'error')
+      const duplicates = failed.filter(error => error.code === 'duplicate').length
+      showToast(
+        `Updated ${updated.length} of ${targets.length} URLs${duplicates > 0 ? `; ${duplicates} already saved at the new address` : ''}`,
+        'error'
+      )
     }
   }
 
-  const exportBookmarks = () => {
-    const dataStr = JSON.stringify(bookmarks, null, 2)
-    const dataBlob = new Blob([dataStr], { type: 'application/json' })
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = 'bookmarks.json'
-    link.click()
-    URL.revokeObjectURL(url)
-    showToast('Bookmarks exported!', 'success')
+  // Captures a readable offline copy server-side; the card then links to
+  // the reader view
+  const saveSnapshot = async (id: string) => {
+    setSnapshottingId(id)
+    try {
+      const response = await fetch('/api/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookmarkId: id }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(body.error)
+      setBookmarks(prev => prev.map(b => b.id === id ? { ...b, snapshot_at: body.created_at } : b))
+      showToast(`Copy saved (${body.word_count} words)`, 'success')
+    } catch (error) {
+      showToast(error instanceof Error && error.message ? `Could not save a copy: ${error.message}` : 'Could not save a copy', 'error')
+    }
+    setSnapshottingId(null)
   }
 
   const copyToClipboard = async (url: string, id: string) => {
@@ -234,39 +637,219 @@ export default function BookmarkList({ userId }: { userId: string }) {
     window.location.reload()
   }
 
-  const filteredBookmarks = bookmarks
-    .filter(b => 
-      b.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      b.url.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      getDomain(b.url).toLowerCase().includes(searchQuery.toLowerCase())
-    )
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'title':
-          return a.title.localeCompare(b.title)
-        case 'domain':
-          return getDomain(a.url).localeCompare(getDomain(b.url))
-        case 'date':
-        default:
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  const collectionFilter = activeCollection && activeCollection !== UNSORTED && activeCollection !== TRASH
+    ? getDescendantIds(collections, activeCollection)
+    : null
+
+  const searchTerms = highlightTerms(parseSearchQuery(searchQuery))
+  const isSearchActive = searchResults !== null
+
+  // Pages arrive sorted and filtered by the query; the filters are repeated
+  // here for search results, local edits and realtime changes
+  const matchesView = (b: Bookmark) =>
+    !b.deleted_at &&
+    (activeCollection === UNSORTED
+      ? !b.collection_id
+      : !collectionFilter || (!!b.collection_id && collectionFilter.has(b.collection_id))) &&
+    activeTags.every(name => b.tags.some(tag => tag.name === name)) &&
+    matchesReadFilter(b, readFilter)
+
+  const filteredBookmarks = (searchResults ?? bookmarks).filter(matchesView)
+
+  // What the Share button publishes: the selection, else the open folder or
+  // a single tag filter
+  const activeFolder = collections.find(c => c.id === activeCollection)
+  const shareTarget: ShareTarget | null = selectedIds.length > 0
+    ? {
+        scope: 'selection',
+        bookmarkIds: selectedIds,
+        label: selectedIds.length === 1 ? '1 selected bookmark' : `${selectedIds.length} selected bookmarks`,
       }
-    })
+    : activeFolder && activeTags.length === 0
+      ? { scope: 'collection', collectionId: activeFolder.id, label: activeFolder.name }
+      : !activeCollection && activeTags.length === 1
+        ? { scope: 'tag', tagName: activeTags[0], label: `#${activeTags[0]}` }
+        : null
 
-  const getDomain = (url: string) => {
-    try {
-      return new URL(url).hostname.replace('www.', '')
-    } catch {
-      return url
+  const { status: syncStatus, trackMutation } = useBookmarkSync({
+    supabase,
+    workspaceId,
+    bookmarks,
+    setBookmarks,
+    setCollections,
+    sort: sortBy,
+    hasMore,
+    matchesView,
+    onTags: mergeTags,
+    onCountsChanged: fetchCounts,
+    onReconnect: fetchLibrary,
+  })
+
+  const focusedBookmark = filteredBookmarks.find(b => b.id === focusedId) ?? null
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id)
+    setEditTitle(bookmark.title)
+    setEditUrl(bookmark.url)
+    setEditTags(bookmark.tags.map(tag => tag.name))
+    setEditNotes(bookmark.notes ?? '')
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id])
+  }
+
+  const visitBookmark = (bookmark: Bookmark) => {
+    if (!isWebUrl(bookmark.url)) return
+    openBookmark(bookmark)
+    window.open(bookmark.url, '_blank', 'noopener,noreferrer')
+  }
+
+  // Steps the highlight through the visible cards, starting from either end
+  const moveFocus = (step: number) => {
+    if (filteredBookmarks.length === 0) return
+    const index = filteredBookmarks.findIndex(b => b.id === focusedId)
+    const next = index === -1
+      ? (step > 0 ? 0 : filteredBookmarks.length - 1)
+      : Math.min(Math.max(index + step, 0), filteredBookmarks.length - 1)
+    setFocusedId(filteredBookmarks[next].id)
+  }
+
+  // Changes stay applied even if saving fails, so they last until reload
+  const savePreferences = async (changes: Partial<Preferences>) => {
+    if (!(await updatePreferences(changes))) showToast('Could not save your preferences', 'error')
+  }
+  const setViewMode = (mode: ViewMode) => savePreferences({ view_mode: mode })
+  const setSortBy = (sort: BookmarkSort) => savePreferences({ sort_by: sort })
+  const setTheme = (theme: Theme) => savePreferences({ theme })
+  const themeIndex = THEMES.findIndex(({ id }) => id === preferences.theme)
+  const nextTheme = THEMES[(themeIndex + 1) % THEMES.length]
+
+  const runShortcut = (action: ShortcutAction) => {
+    // Bookmark shortcuts act on the selection, else the highlighted card
+    const selected = filteredBookmarks.filter(b => selectedIds.includes(b.id))
+    const targets = selected.length > 0 ? selected : focusedBookmark ? [focusedBookmark] : []
+    const ids = targets.map(b => b.id)
+    const inTrash = activeCollection === TRASH
+
+    switch (action) {
+      case 'palette':
+        setShowPalette(true)
+        break
+      case 'search':
+        searchInputRef.current?.focus()
+        break
+      case 'newBookmark':
+        if (canEdit) setShowForm(true)
+        break
+      case 'toggleTheme':
+        setTheme(darkMode ? 'light' : 'dark')
+        break
+      case 'help':
+        setShowShortcuts(true)
+        break
+      case 'next':
+      case 'previous':
+        if (!inTrash) moveFocus(action === 'next' ? 1 : -1)
+        break
+      case 'open':
+        if (focusedBookmark && !inTrash) visitBookmark(focusedBookmark)
+        break
+      case 'edit':
+        if (focusedBookmark && canEdit && !inTrash) startEditing(focusedBookmark)
+        break
+      case 'select':
+        if (focusedBookmark && !inTrash) toggleSelected(focusedBookmark.id)
+        break
+      case 'delete':
+        if (focusedBookmark && canEdit && !inTrash) setShowConfirm({ id: focusedBookmark.id, title: focusedBookmark.title })
+        break
+      case 'pin':
+        if (ids.length > 0 && canEdit && !inTrash) setPinned(ids, targets.some(b => !b.pinned))
+        break
+      case 'toggleRead':
+        if (ids.length > 0 && canEdit && !inTrash) {
+          setReadState(ids, targets.every(b => b.read_state === 'unread') ? 'read' : 'unread')
+        }
+        break
+      case 'toggleArchived':
+        if (ids.length > 0 && canEdit && !inTrash) {
+          setReadState(ids, targets.every(b => b.read_state === 'archived') ? 'read' : 'archived')
+        }
+        break
     }
   }
 
-  const getFavicon = (url: string) => {
-    try {
-      const domain = new URL(url).hostname
-      return `https://www.google.com/s2/favicons?domain=${domain}&sz=64`
-    } catch {
-      return null
+  // The keydown listener is bound once and reaches the current bindings,
+  // selection and highlighted card through this ref
+  useEffect(() => {
+    handleShortcut.current = (e) => {
+      if (e.key === 'Escape') {
+        setShowForm(false)
+        setShowConfirm(null)
+        setEditingId(null)
+        setHistoryFor(null)
+        return
+      }
+
+      const binding = eventToBinding(e)
+      if (!binding || !(e.target instanceof Element)) return
+      // Single keys are left alone while typing, and Enter on a button or link still clicks it
+      const typing = e.target.closest('input, textarea, select, [contenteditable]')
+        || (['Enter', 'Space'].includes(binding) && e.target.closest('button, a, summary'))
+      if (typing && !worksInFields(binding)) return
+      // Open dialogs handle their own keys
+      if (showPalette || showShortcuts || showConfirm || historyFor || showImport || showTokens || showShare || showDuplicates || showWorkspaces) {
+        return
+      }
+
+      const action = actionForBinding(bindings, binding)
+      if (!action) return
+      e.preventDefault()
+      runShortcut(action)
     }
+  })
+
+  const isMac = isMacPlatform()
+  const keysFor = (action: ShortcutAction) => bindings[action][0] ? bindingKeys(bindings[action][0], isMac) : undefined
+  const paletteCommands: PaletteCommand[] = [
+    ...(canEdit ? [{ id: 'add', label: 'Add a bookmark', keys: keysFor('newBookmark'), run: () => setShowForm(true) }] : []),
+    { id: 'search', label: 'Search bookmarks', keys: keysFor('search'), run: () => searchInputRef.current?.focus() },
+    {
+      id: 'theme',
+      label: darkMode ? 'Switch to light mode' : 'Switch to dark mode',
+      keys: keysFor('toggleTheme'),
+      run: () => setTheme(darkMode ? 'light' : 'dark'),
+    },
+    ...(preferences.theme !== 'system' ? [{ id: 'theme-system', label: 'Match the system theme', run: () => setTheme('system') }] : []),
+    ...(Object.keys(VIEW_MODE_LABELS) as ViewMode[]).map(mode => ({
+      id: `view-${mode}`,
+      label: `Show as ${VIEW_MODE_LABELS[mode]}`,
+      run: () => setViewMode(mode),
+    })),
+    ...READ_FILTERS.map(filter => ({
+      id: `filter-${filter.id}`,
+      label: filter.id === 'all' ? 'Show all bookmarks' : `Show ${filter.label.toLowerCase()} bookmarks`,
+      run: () => setReadFilter(filter.id),
+    })),
+    { id: 'trash', label: 'Open the trash', run: () => setActiveCollection(TRASH) },
+    ...(canEdit
+      ? [
+          { id: 'import', label: 'Import bookmarks', run: () => setShowImport(true) },
+          { id: 'duplicates', label: 'Find duplicates', run: () => setShowDuplicates(true) },
+        ]
+      : []),
+    { id: 'share', label: 'Share links', run: () => setShowShare(true) },
+    { id: 'workspaces', label: 'Manage workspaces', run: () => setShowWorkspaces(true) },
+    { id: 'tokens', label: 'Manage API access tokens', run: () => setShowTokens(true) },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', keys: keysFor('help'), run: () => setShowShortcuts(true) },
+    { id: 'settings', label: 'Account settings', run: () => router.push('/settings') },
+  ]
+
+  // Served and cached by our own route, which falls back to a letter avatar
+  const getFavicon = (bookmark: Bookmark) => {
+    const domain = bookmark.domain ?? getDomain(bookmark.url)
+    return domain ? `/api/favicons/${encodeURIComponent(domain)}` : null
   }
 
   return (
@@ -275,6 +858,25 @@ export default function BookmarkList({ userId }: { userId: string }) {
         ? 'bg-linear-to-br from-gray-900 via-gray-800 to-gray-900' 
         : 'bg-linear-to-br from-indigo-100 via-purple-50 to-teal-100'
     }`}>
+      {showPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          bookmarks={filteredBookmarks}
+          onOpenBookmark={visitBookmark}
+          onClose={() => setShowPalette(false)}
+          darkMode={darkMode}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsDialog
+          bindings={bindings}
+          onChange={(next) => savePreferences({ shortcuts: next })}
+          onClose={() => setShowShortcuts(false)}
+          darkMode={darkMode}
+        />
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <div className={`fixed top-4 right-4 z-50 px-6 py-3 rounded-xl shadow-lg transition-all duration-300 ${
@@ -293,6 +895,17 @@ export default function BookmarkList({ userId }: { userId: string }) {
               </svg>
             )}
             {toast.message}
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action?.onClick()
+                  setToast(null)
+                }}
+                className="ml-2 px-2 py-0.5 rounded-md bg-white/20 hover:bg-white/30 font-medium transition-all"
+              >
+                {toast.action.label}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -326,19 +939,47 @@ export default function BookmarkList({ userId }: { userId: string }) {
               height={240}
               className="h-16 sm:h-20 md:h-28 w-auto"
             />
-            <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{bookmarks.length} saved</span>
+            <div className="flex flex-col gap-1">
+              <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{totalCount} saved</span>
+              <SyncIndicator status={syncStatus} darkMode={darkMode} />
+            </div>
           </div>
           <div className="flex items-center gap-2">
+            <WorkspaceSwitcher
+              userId={userId}
+              workspaces={workspaces}
+              activeId={workspaceId}
+              onManage={() => setShowWorkspaces(true)}
+              darkMode={darkMode}
+            />
             <button
-              onClick={() => setDarkMode(!darkMode)}
-              title={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+              onClick={() => setShowTokens(true)}
+              title="Manage access tokens for the REST API"
               className={`px-4 py-2 text-sm rounded-xl transition-all border border-transparent hover:shadow-sm flex items-center gap-2 ${
                 darkMode 
                   ? 'text-gray-300 hover:text-white hover:bg-gray-800 hover:border-gray-700' 
                   : 'text-gray-600 hover:text-gray-900 hover:bg-white hover:border-gray-200'
               }`}
             >
-              {darkMode ? (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+              <span className="hidden sm:inline">API</span>
+            </button>
+            <button
+              onClick={() => setTheme(nextTheme.id)}
+              title={`Theme: ${THEMES[themeIndex].label}. Click for ${nextTheme.label.toLowerCase()}`}
+              className={`px-4 py-2 text-sm rounded-xl transition-all border border-transparent hover:shadow-sm flex items-center gap-2 ${
+                darkMode 
+                  ? 'text-gray-300 hover:text-white hover:bg-gray-800 hover:border-gray-700' 
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-white hover:border-gray-200'
+              }`}
+            >
+              {preferences.theme === 'system' ? (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+              ) : preferences.theme === 'light' ? (
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
                 </svg>
@@ -347,8 +988,23 @@ export default function BookmarkList({ userId }: { userId: string }) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
                 </svg>
               )}
-              <span className="hidden sm:inline">{darkMode ? 'Light' : 'Dark'}</span>
+              <span className="hidden sm:inline">{THEMES[themeIndex].label}</span>
             </button>
+            <Link
+              href="/settings"
+              title="Account settings"
+              className={`px-4 py-2 text-sm rounded-xl transition-all border border-transparent hover:shadow-sm flex items-center gap-2 ${
+                darkMode 
+                  ? 'text-gray-300 hover:text-white hover:bg-gray-800 hover:border-gray-700' 
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-white hover:border-gray-200'
+              }`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              <span className="hidden sm:inline">Settings</span>
+            </Link>
             <button
               onClick={handleLogout}
               title="Sign out from account"
@@ -366,479 +1022,920 @@ export default function BookmarkList({ userId }: { userId: string }) {
           </div>
         </div>
 
-        {/* Search & Add Button */}
-        <div className="mb-6 flex flex-col sm:flex-row gap-3">
-          <div className="flex-1 relative">
-            <svg className={`absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-            </svg>
-            <input
-              type="text"
-              placeholder="Search bookmarks..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className={`w-full pl-12 pr-4 py-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent shadow-sm hover:shadow-md transition-all ${
-                darkMode 
-                  ? 'bg-gray-800 border border-gray-700 text-white placeholder:text-gray-400' 
-                  : 'bg-white border border-gray-300 text-gray-900 placeholder:text-gray-400'
-              }`}
-            />
-          </div>
-          <button
-            onClick={() => setShowForm(!showForm)}
-            title="Add a new bookmark"
-            className="px-6 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg transition-all flex items-center justify-center gap-2 font-medium w-full sm:w-auto"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Add
-          </button>
-        </div>
-
-        {/* Add Form */}
-        {showForm && (
-          <div className={`mb-6 rounded-2xl shadow-lg border p-4 sm:p-6 animate-slideDown ${
-            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
-          }`}>
-            <form onSubmit={addBookmark} className="space-y-4">
-              <div>
-                <label className={`block text-sm font-medium mb-2 ${
-                  darkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>Title</label>
-                <input
-                  type="text"
-                  placeholder="My Awesome Website (leave empty to auto-fetch)"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent transition-all ${
-                    darkMode 
-                      ? 'bg-gray-700 border-gray-600 text-white placeholder:text-gray-400' 
-                      : 'border-gray-300 text-gray-900 placeholder:text-gray-400'
-                  }`}
-                  autoFocus
-                />
-              </div>
-              <div>
-                <label className={`block text-sm font-medium mb-2 ${
-                  darkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>URL</label>
-                <input
-                  type="url"
-                  placeholder="https://example.com"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent transition-all ${
-                    darkMode 
-                      ? 'bg-gray-700 border-gray-600 text-white placeholder:text-gray-400' 
-                      : 'border-gray-300 text-gray-900 placeholder:text-gray-400'
-                  }`}
-                  required
-                />
-              </div>
-              <div className="flex flex-col sm:flex-row gap-3">
-                <button
-                  type="submit"
-                  disabled={loading}
-                  title={loading ? 'Adding bookmark' : 'Add bookmark'}
-                  className="flex-1 px-4 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
-                >
-                  {loading ? 'Adding...' : 'Add Bookmark'}
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setShowForm(false)}
-                  title="Cancel adding bookmark"
-                  className={`px-6 py-3 rounded-xl transition-all font-medium ${
-                    darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Cancel
-                </button>
-              </div>
-            </form>
-          </div>
-        )}
+        <div className="flex flex-col lg:flex-row gap-6">
+          <CollectionSidebar
+            collections={collections}
+            counts={collectionCounts}
+            totalCount={totalCount}
+            unsortedCount={unsortedCount}
+            activeId={activeCollection}
+            onSelect={setActiveCollection}
+            onCreate={addCollection}
+            onRename={changeCollectionName}
+            onDelete={removeCollection}
+            onDropBookmarks={moveBookmarks}
+            onTrashBookmarks={trashBookmarks}
+            readOnly={!canEdit}
+            darkMode={darkMode}
+          />
+          <div className="flex-1 min-w-0">
+            {activeCollection === TRASH ? (
+              <TrashView
+                workspaceId={workspaceId}
+                canEdit={canEdit}
+                onRestore={restoreBookmarks}
+                onNotify={showToast}
+                darkMode={darkMode}
+              />
+            ) : (
+              <>
+                {/* Search & Add Button */}
+                <div className="mb-6 flex flex-col sm:flex-row gap-3">
+                  <div className="flex-1 relative">
+                    <svg className={`absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                    <input
+                      ref={searchInputRef}
+                      type="text"
+                      placeholder="Search bookmarks..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      title='Supports "exact phrases", -exclusions, site:example.com and tag:name'
+                      className={`w-full pl-12 pr-4 py-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent shadow-sm hover:shadow-md transition-all ${
+                        darkMode 
+                          ? 'bg-gray-800 border border-gray-700 text-white placeholder:text-gray-400' 
+                          : 'bg-white border border-gray-300 text-gray-900 placeholder:text-gray-400'
+                      }`}
+                    />
+                    {isSearching && (
+                      <span className={`absolute right-4 top-1/2 -translate-y-1/2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        Searching...
+                      </span>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <button
+                      onClick={() => setShowForm(!showForm)}
+                      title="Add a new bookmark"
+                      className="px-6 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg transition-all flex items-center justify-center gap-2 font-medium w-full sm:w-auto"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      Add
+                    </button>
+                  )}
+                </div>
 
-        {/* Controls Bar */}
-        <div className={`mb-6 flex flex-col sm:flex-row gap-3 p-4 rounded-xl ${
-          darkMode ? 'bg-gray-800/50 border border-gray-700' : 'bg-white/50 border border-gray-200'
-        }`}>
-          <div className="flex gap-2">
-            <button
-              onClick={() => setViewMode('grid')}
-              className={`px-3 py-2 rounded-lg transition-all ${
-                viewMode === 'grid'
-                  ? 'bg-blue-500 text-white'
-                  : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
-              </svg>
-            </button>
-            <button
-              onClick={() => setViewMode('list')}
-              className={`px-3 py-2 rounded-lg transition-all ${
-                viewMode === 'list'
-                  ? 'bg-blue-500 text-white'
-                  : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
-              </svg>
-            </button>
-          </div>
-          
-          <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as 'date' | 'title' | 'domain')}
-            aria-label="Sort bookmarks by"
-            className={`px-3 py-2 rounded-lg border transition-all ${
-              darkMode 
-                ? 'bg-gray-700 border-gray-600 text-white' 
-                : 'bg-white border-gray-300 text-gray-900'
-            }`}
-          >
-            <option value="date">Sort by Date</option>
-            <option value="title">Sort by Title</option>
-            <option value="domain">Sort by Domain</option>
-          </select>
-          
-          {selectedIds.length > 0 && (
-            <div className="flex gap-2">
-              <span className={`px-3 py-2 text-sm ${
-                darkMode ? 'text-gray-300' : 'text-gray-600'
-              }`}>
-                {selectedIds.length} selected
-              </span>
-              <button
-                onClick={bulkDelete}
-                title="Delete selected bookmarks"
-                className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all text-sm"
-              >
-                Delete Selected
-              </button>
-            </div>
-          )}
-          
-          <div className="flex gap-2 ml-auto">
-            <button
-              onClick={exportBookmarks}
-              title="Export bookmarks to JSON"
-              className={`px-3 py-2 rounded-lg transition-all text-sm ${
-                darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              Export
-            </button>
-            <button
-              onClick={fetchBookmarks}
-              disabled={isRefreshing}
-              title={isRefreshing ? 'Refreshing bookmarks' : 'Refresh bookmarks'}
-              className={`px-3 py-2 rounded-lg transition-all text-sm ${
-                darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
-              } ${isRefreshing ? 'opacity-50' : ''}`}
-            >
-              {isRefreshing ? 'Refreshing...' : 'Refresh'}
-            </button>
-          </div>
-        </div>
+                {/* Add Form */}
+                {canEdit && showForm && (
+                  <div className={`mb-6 rounded-2xl shadow-lg border p-4 sm:p-6 animate-slideDown ${
+                    darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                  }`}>
+                    <form onSubmit={addBookmark} className="space-y-4">
+                      <div>
+                        <label className={`block text-sm font-medium mb-2 ${
+                          darkMode ? 'text-gray-300' : 'text-gray-700'
+                        }`}>Title</label>
+                        <input
+                          type="text"
+                          placeholder="My Awesome Website (leave empty to auto-fetch)"
+                          value={title}
+                          onChange={(e) => setTitle(e.target.value)}
+                          className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent transition-all ${
+                            darkMode 
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder:text-gray-400' 
+                              : 'border-gray-300 text-gray-900 placeholder:text-gray-400'
+                          }`}
+                          autoFocus
+                        />
+                      </div>
+                      <div>
+                        <label className={`block text-sm font-medium mb-2 ${
+                          darkMode ? 'text-gray-300' : 'text-gray-700'
+                        }`}>URL</label>
+                        <input
+                          type="url"
+                          placeholder="https://example.com"
+                          value={url}
+                          onChange={(e) => setUrl(e.target.value)}
+                          className={`w-full px-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent transition-all ${
+                            darkMode 
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder:text-gray-400' 
+                              : 'border-gray-300 text-gray-900 placeholder:text-gray-400'
+                          }`}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className={`block text-sm font-medium mb-2 ${
+                          darkMode ? 'text-gray-300' : 'text-gray-700'
+                        }`}>Tags</label>
+                        <TagInput
+                          value={tags}
+                          onChange={setTags}
+                          suggestions={allTags.map(tag => tag.name)}
+                          darkMode={darkMode}
+                        />
+                      </div>
+                      <div className="flex flex-col sm:flex-row gap-3">
+                        <button
+                          type="submit"
+                          disabled={loading}
+                          title={loading ? 'Adding bookmark' : 'Add bookmark'}
+                          className="flex-1 px-4 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+                        >
+                          {loading ? 'Adding...' : 'Add Bookmark'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setShowForm(false)}
+                          title="Cancel adding bookmark"
+                          className={`px-6 py-3 rounded-xl transition-all font-medium ${
+                            darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  </div>
+                )}
 
-        {/* Confirmation Dialog */}
-        {showConfirm && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-            <div className={`rounded-2xl p-6 max-w-md w-full ${
-              darkMode ? 'bg-gray-800 border border-gray-700' : 'bg-white border border-gray-200'
-            }`}>
-              <h3 className={`text-lg font-semibold mb-2 ${
-                darkMode ? 'text-white' : 'text-gray-900'
-              }`}>Delete Bookmark</h3>
-              <p className={`mb-4 ${
-                darkMode ? 'text-gray-300' : 'text-gray-600'
-              }`}>Are you sure you want to delete &quot;{showConfirm.title}&quot;?</p>
-              <div className="flex gap-3">
-                <button
-                  onClick={() => deleteBookmark(showConfirm.id)}
-                  className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all"
-                >
-                  Delete
-                </button>
-                <button
-                  onClick={() => setShowConfirm(null)}
-                  className={`flex-1 px-4 py-2 rounded-lg transition-all ${
-                    darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
-          </div>
-        )}
-
-        {/* Loading Skeletons */}
-        {loading && filteredBookmarks.length === 0 && (
-          <div className={`grid gap-4 ${viewMode === 'grid' ? 'sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' : 'grid-cols-1'}`}>
-            {[...Array(6)].map((_, i) => (
-              <div key={i} className={`rounded-2xl p-5 animate-pulse ${
-                darkMode ? 'bg-gray-800' : 'bg-white'
-              }`}>
-                <div className="flex items-start gap-3 mb-3">
-                  <div className={`w-10 h-10 rounded-lg ${
-                    darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                  }`}></div>
-                  <div className="flex-1">
-                    <div className={`h-4 rounded mb-2 ${
-                      darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                    }`}></div>
-                    <div className={`h-3 rounded w-2/3 ${
-                      darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                    }`}></div>
+                {/* Read-later Tabs */}
+                <div className="mb-4 flex flex-wrap items-center gap-2">
+                  <div role="tablist" aria-label="Filter by reading state" className="flex flex-wrap gap-2">
+                    {READ_FILTERS.map(filter => (
+                      <button
+                        key={filter.id}
+                        role="tab"
+                        aria-selected={readFilter === filter.id}
+                        onClick={() => setReadFilter(filter.id)}
+                        className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
+                          readFilter === filter.id
+                            ? 'bg-blue-500 text-white'
+                            : darkMode
+                              ? 'text-gray-300 hover:bg-gray-700'
+                              : 'text-gray-600 hover:bg-white'
+                        }`}
+                      >
+                        {filter.label}
+                      </button>
+                    ))}
                   </div>
+                  {canEdit && (
+                    <label
+                      title="Move unread bookmarks to Read when you open their link"
+                      className={`ml-auto flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={markReadOnOpen}
+                        onChange={(e) => setMarkReadOnOpen(e.target.checked)}
+                        className="rounded"
+                      />
+                      Mark read when opened
+                    </label>
+                  )}
                 </div>
-                <div className={`h-3 rounded w-1/3 mb-3 ${
-                  darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                }`}></div>
-                <div className="flex gap-2">
-                  <div className={`flex-1 h-8 rounded-lg ${
-                    darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                  }`}></div>
-                  <div className={`w-16 h-8 rounded-lg ${
-                    darkMode ? 'bg-gray-700' : 'bg-gray-200'
-                  }`}></div>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Better Empty State */}
-        {!loading && filteredBookmarks.length === 0 && (
-          <div className={`col-span-full text-center py-16 rounded-2xl border shadow-sm ${
-            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
-          }`}>
-            <div className={`inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 ${
-              darkMode ? 'bg-linear-to-br from-blue-800 to-emerald-800' : 'bg-linear-to-br from-blue-100 to-emerald-100'
-            }`}>
-              <svg className={`w-8 h-8 ${
-                darkMode ? 'text-blue-400' : 'text-blue-600'
-              }`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
-              </svg>
-            </div>
-            <p className={`text-lg mb-4 ${
-              darkMode ? 'text-gray-300' : 'text-gray-500'
-            }`}>
-              {searchQuery ? 'No bookmarks found' : 'No bookmarks yet'}
-            </p>
-            {!searchQuery && (
-              <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                <button
-                  onClick={() => setShowForm(true)}
-                  title="Add your first bookmark"
-                  className="px-6 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg transition-all font-medium"
-                >
-                  Add Your First Bookmark
-                </button>
-                <button
-                  onClick={() => {
-                    const input = document.querySelector('input[placeholder*="Search"]') as HTMLInputElement
-                    input?.focus()
-                  }}
-                  title="Search for bookmarks"
-                  className={`px-6 py-3 rounded-xl transition-all font-medium ${
-                    darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  Try Searching
-                </button>
-              </div>
-            )}
-          </div>
-        )}
-
-        {/* Bookmarks Display */}
-        {!loading && filteredBookmarks.length > 0 && (
-          <div className={`${viewMode === 'grid' ? 'grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' : 'space-y-3'}`}>
-          {filteredBookmarks.map((bookmark, index) => (
-            <div
-              key={bookmark.id}
-              className={`group transition-all duration-300 animate-fadeIn ${
-                viewMode === 'grid'
-                  ? `rounded-2xl shadow-sm border p-5 hover:shadow-xl hover:-translate-y-1 ${
-                      darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
-                    }`
-                  : `rounded-xl border p-4 hover:shadow-md ${
-                      darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
-                    }`
-              }`}
-              style={{ animationDelay: `${index * 50}ms` } as React.CSSProperties}
-              aria-label={`Bookmark: ${bookmark.title}`}
-            >
-              {editingId === bookmark.id ? (
-                <div className="space-y-3">
-                  <input
-                    type="text"
-                    value={editTitle}
-                    onChange={(e) => setEditTitle(e.target.value)}
-                    className={`w-full px-3 py-2 border rounded-lg text-sm ${
-                      darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
-                    }`}
-                    placeholder="Title"
-                  />
-                  <input
-                    type="url"
-                    value={editUrl}
-                    onChange={(e) => setEditUrl(e.target.value)}
-                    className={`w-full px-3 py-2 border rounded-lg text-sm ${
-                      darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
-                    }`}
-                    placeholder="URL"
-                  />
+
+                {/* Controls Bar */}
+                <div className={`mb-6 flex flex-col sm:flex-row gap-3 p-4 rounded-xl ${
+                  darkMode ? 'bg-gray-800/50 border border-gray-700' : 'bg-white/50 border border-gray-200'
+                }`}>
                   <div className="flex gap-2">
                     <button
-                      onClick={() => editBookmark(bookmark.id)}
-                      className="flex-1 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-all text-xs"
+                      onClick={() => setViewMode('grid')}
+                      className={`px-3 py-2 rounded-lg transition-all ${
+                        viewMode === 'grid'
+                          ? 'bg-blue-500 text-white'
+                          : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
                     >
-                      Save
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                      </svg>
                     </button>
                     <button
-                      onClick={() => {
-                        setEditingId(null)
-                        setEditTitle('')
-                        setEditUrl('')
-                      }}
-                      className={`flex-1 px-3 py-2 rounded-lg transition-all text-xs ${
-                        darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      onClick={() => setViewMode('cards')}
+                      title="Cards with preview images"
+                      className={`px-3 py-2 rounded-lg transition-all ${
+                        viewMode === 'cards'
+                          ? 'bg-blue-500 text-white'
+                          : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
                       }`}
                     >
-                      Cancel
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => setViewMode('list')}
+                      className={`px-3 py-2 rounded-lg transition-all ${
+                        viewMode === 'list'
+                          ? 'bg-blue-500 text-white'
+                          : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                      </svg>
                     </button>
                   </div>
-                </div>
-              ) : (
-                <>
-                  <div className={`flex items-start gap-3 mb-3 ${
-                    viewMode === 'list' ? 'flex-row' : 'flex-col sm:flex-row'
-                  }`}>
-                    <input
-                      type="checkbox"
-                      checked={selectedIds.includes(bookmark.id)}
-                      onChange={(e) => {
-                        if (e.target.checked) {
-                          setSelectedIds(prev => [...prev, bookmark.id])
-                        } else {
-                          setSelectedIds(prev => prev.filter(id => id !== bookmark.id))
-                        }
-                      }}
-                      aria-label={`Select ${bookmark.title}`}
-                      className="mt-1 rounded"
-                    />
-                    {getFavicon(bookmark.url) && (
-                      <Image 
-                        src={getFavicon(bookmark.url)!} 
-                        alt={`${bookmark.title} favicon`}
-                        width={40}
-                        height={40}
-                        className="w-10 h-10 rounded-lg shadow-sm"
-                        onError={(e) => e.currentTarget.style.display = 'none'}
-                      />
+          
+                  <select
+                    value={isSearchActive ? 'relevance' : sortBy}
+                    onChange={(e) => setSortBy(e.target.value as BookmarkSort)}
+                    disabled={isSearchActive}
+                    title={isSearchActive ? 'Search results are ranked by relevance' : undefined}
+                    aria-label="Sort bookmarks by"
+                    className={`px-3 py-2 rounded-lg border transition-all disabled:opacity-60 ${
+                      darkMode 
+                        ? 'bg-gray-700 border-gray-600 text-white' 
+                        : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                  >
+                    <option value="date">Sort by Date</option>
+                    <option value="title">Sort by Title</option>
+                    <option value="domain">Sort by Domain</option>
+                    {isSearchActive && <option value="relevance">Sort by Relevance</option>}
+                  </select>
+          
+                  {canEdit && selectedIds.length > 0 && (
+                    <div className="flex gap-2">
+                      <span className={`px-3 py-2 text-sm ${
+                        darkMode ? 'text-gray-300' : 'text-gray-600'
+                      }`}>
+                        {selectedIds.length} selected
+                      </span>
+                      <button
+                        onClick={bulkDelete}
+                        title="Move selected bookmarks to the trash"
+                        className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all text-sm"
+                      >
+                        Delete Selected
+                      </button>
+                    </div>
+                  )}
+          
+                  <div className="flex gap-2 ml-auto">
+                    {canEdit && (
+                      <button
+                        onClick={() => setShowImport(true)}
+                        title="Import bookmarks from a browser, Pocket, Raindrop or SaveNest export"
+                        className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                          darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        Import
+                      </button>
                     )}
-                    <div className="flex-1 min-w-0">
-                      <h3 className={`font-semibold mb-1 truncate ${
-                        darkMode ? 'text-white' : 'text-gray-900'
-                      }`}>{bookmark.title}</h3>
-                      <a
-                        href={bookmark.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className={`text-sm truncate block hover:underline ${
-                          darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'
+                    {canEdit && (
+                      <button
+                        onClick={() => setShowDuplicates(true)}
+                        title="Find bookmarks that point at the same page and merge them"
+                        className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                          darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
                         }`}
                       >
-                        {getDomain(bookmark.url)}
-                      </a>
-                    </div>
-                  </div>
-                  <p className={`text-xs mb-3 ${
-                    darkMode ? 'text-gray-400' : 'text-gray-400'
-                  }`}>
-                    {new Date(bookmark.created_at).toLocaleDateString('en-US', { 
-                      month: 'short', 
-                      day: 'numeric', 
-                      year: 'numeric' 
-                    })}
-                  </p>
-                  <div className={`flex gap-2 transition-opacity ${
-                    viewMode === 'list' ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-                  }`}>
+                        Duplicates
+                      </button>
+                    )}
+                    <Link
+                      href="/save"
+                      title="Get the bookmarklet for saving pages from any site"
+                      className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      Bookmarklet
+                    </Link>
                     <button
-                      onClick={() => copyToClipboard(bookmark.url, bookmark.id)}
-                      title="Copy URL to clipboard"
-                      className={`flex-1 px-3 py-2 text-xs rounded-lg transition-all flex items-center justify-center gap-1 ${
-                        darkMode 
-                          ? 'text-gray-300 hover:text-blue-400 hover:bg-gray-700' 
-                          : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                      onClick={() => setShowShare(true)}
+                      title={shareTarget ? `Create a public read-only link to ${shareTarget.label}` : 'Manage shared links'}
+                      className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
                       }`}
                     >
-                      {copiedId === bookmark.id ? (
-                        <>
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                          </svg>
-                          Copied
-                        </>
-                      ) : (
-                        <>
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                          </svg>
-                          Copy
-                        </>
-                      )}
+                      Share
                     </button>
                     <button
-                      onClick={() => {
-                        setEditingId(bookmark.id)
-                        setEditTitle(bookmark.title)
-                        setEditUrl(bookmark.url)
-                      }}
-                      title="Edit this bookmark"
-                      className={`px-3 py-2 text-xs rounded-lg transition-all flex items-center gap-1 ${
-                        darkMode 
-                          ? 'text-gray-300 hover:text-yellow-400 hover:bg-gray-700' 
-                          : 'text-gray-600 hover:text-yellow-600 hover:bg-yellow-50'
+                      onClick={() => setShowShortcuts(true)}
+                      title="See and change keyboard shortcuts"
+                      className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
                       }`}
                     >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                      Edit
+                      Shortcuts
                     </button>
+                    <ExportMenu
+                      viewBookmarks={filteredBookmarks}
+                      selectedIds={selectedIds}
+                      collections={collections}
+                      onDone={showToast}
+                      darkMode={darkMode}
+                    />
+                    {canEdit && (
+                      <button
+                        onClick={checkLinks}
+                        disabled={linkCheckProgress !== null || filteredBookmarks.length === 0}
+                        title={selectedIds.length > 0 ? 'Check whether the selected links still work' : 'Check whether the links in this view still work'}
+                        className={`px-3 py-2 rounded-lg transition-all text-sm disabled:opacity-50 ${
+                          darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        {linkCheckProgress ? `Checking ${linkCheckProgress.done}/${linkCheckProgress.total}...` : 'Check Links'}
+                      </button>
+                    )}
                     <button
-                      onClick={() => setShowConfirm({id: bookmark.id, title: bookmark.title})}
-                      disabled={deletingId === bookmark.id}
-                      title="Delete this bookmark"
-                      className={`px-3 py-2 text-xs rounded-lg transition-all disabled:opacity-50 flex items-center gap-1 ${
-                        darkMode 
-                          ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' 
-                          : 'text-red-600 hover:bg-red-50'
-                      }`}
+                      onClick={fetchBookmarks}
+                      disabled={isRefreshing}
+                      title={isRefreshing ? 'Refreshing bookmarks' : 'Refresh bookmarks'}
+                      className={`px-3 py-2 rounded-lg transition-all text-sm ${
+                        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                      } ${isRefreshing ? 'opacity-50' : ''}`}
                     >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                      Delete
+                      {isRefreshing ? 'Refreshing...' : 'Refresh'}
                     </button>
                   </div>
-                </>
-              )}
-            </div>
-          ))}
+                </div>
+
+                {canEdit && (
+                  <LinkHealthBar
+                    bookmarks={filteredBookmarks}
+                    onUpdateRedirected={updateRedirectedLinks}
+                    onDeleteBroken={trashBookmarks}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {/* Tag Filter */}
+                {allTags.length > 0 && (
+                  <div className="mb-6 flex flex-wrap items-center gap-2">
+                    <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Tags:</span>
+                    {allTags.map(tag => (
+                      <button
+                        key={tag.id}
+                        onClick={() => toggleTagFilter(tag.name)}
+                        aria-pressed={activeTags.includes(tag.name)}
+                        className={`px-3 py-1 rounded-full text-xs transition-all ${
+                          activeTags.includes(tag.name)
+                            ? 'bg-blue-500 text-white'
+                            : darkMode
+                              ? 'bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700'
+                              : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-100'
+                        }`}
+                      >
+                        #{tag.name}
+                      </button>
+                    ))}
+                    {activeTags.length > 0 && (
+                      <button
+                        onClick={() => setActiveTags([])}
+                        className={`px-2 py-1 text-xs hover:underline ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Share Dialog */}
+                {showShare && (
+                  <ShareDialog
+                    scope={scope}
+                    target={shareTarget}
+                    onClose={() => setShowShare(false)}
+                    onNotify={showToast}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {showDuplicates && (
+                  <DuplicatesDialog
+                    workspaceId={workspaceId}
+                    onClose={() => setShowDuplicates(false)}
+                    onMerged={fetchBookmarks}
+                    onNotify={showToast}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {showTokens && (
+                  <AccessTokensDialog
+                    userId={userId}
+                    onClose={() => setShowTokens(false)}
+                    onNotify={showToast}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {showWorkspaces && (
+                  <WorkspaceDialog
+                    userId={userId}
+                    workspace={workspace}
+                    onClose={() => setShowWorkspaces(false)}
+                    onNotify={showToast}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {showImport && (
+                  <ImportDialog
+                    scope={scope}
+                    collections={collections}
+                    onClose={() => setShowImport(false)}
+                    onImported={fetchBookmarks}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {/* Confirmation Dialog */}
+                {showConfirm && (
+                  <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className={`rounded-2xl p-6 max-w-md w-full ${
+                      darkMode ? 'bg-gray-800 border border-gray-700' : 'bg-white border border-gray-200'
+                    }`}>
+                      <h3 className={`text-lg font-semibold mb-2 ${
+                        darkMode ? 'text-white' : 'text-gray-900'
+                      }`}>Delete Bookmark</h3>
+                      <p className={`mb-4 ${
+                        darkMode ? 'text-gray-300' : 'text-gray-600'
+                      }`}>Move &quot;{showConfirm.title}&quot; to the trash? You can restore it from there.</p>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => deleteBookmark(showConfirm.id)}
+                          className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setShowConfirm(null)}
+                          className={`flex-1 px-4 py-2 rounded-lg transition-all ${
+                            darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {historyFor && (
+                  <RevisionHistory
+                    bookmarkId={historyFor.id}
+                    bookmarkTitle={historyFor.title}
+                    onRestore={(revision) => restoreRevision(historyFor.id, revision)}
+                    onClose={() => setHistoryFor(null)}
+                    darkMode={darkMode}
+                  />
+                )}
+
+                {/* Loading Skeletons */}
+                {loading && filteredBookmarks.length === 0 && (
+                  <div className={`grid gap-4 ${viewMode === 'list' ? 'grid-cols-1' : 'sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4'}`}>
+                    {[...Array(6)].map((_, i) => (
+                      <div key={i} className={`rounded-2xl p-5 animate-pulse ${
+                        darkMode ? 'bg-gray-800' : 'bg-white'
+                      }`}>
+                        <div className="flex items-start gap-3 mb-3">
+                          <div className={`w-10 h-10 rounded-lg ${
+                            darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                          }`}></div>
+                          <div className="flex-1">
+                            <div className={`h-4 rounded mb-2 ${
+                              darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                            }`}></div>
+                            <div className={`h-3 rounded w-2/3 ${
+                              darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                            }`}></div>
+                          </div>
+                        </div>
+                        <div className={`h-3 rounded w-1/3 mb-3 ${
+                          darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                        }`}></div>
+                        <div className="flex gap-2">
+                          <div className={`flex-1 h-8 rounded-lg ${
+                            darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                          }`}></div>
+                          <div className={`w-16 h-8 rounded-lg ${
+                            darkMode ? 'bg-gray-700' : 'bg-gray-200'
+                          }`}></div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Better Empty State */}
+                {!loading && filteredBookmarks.length === 0 && (
+                  <div className={`col-span-full text-center py-16 rounded-2xl border shadow-sm ${
+                    darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                  }`}>
+                    <div className={`inline-flex items-center justify-center w-16 h-16 rounded-2xl mb-4 ${
+                      darkMode ? 'bg-linear-to-br from-blue-800 to-emerald-800' : 'bg-linear-to-br from-blue-100 to-emerald-100'
+                    }`}>
+                      <svg className={`w-8 h-8 ${
+                        darkMode ? 'text-blue-400' : 'text-blue-600'
+                      }`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                      </svg>
+                    </div>
+                    <p className={`text-lg mb-4 ${
+                      darkMode ? 'text-gray-300' : 'text-gray-500'
+                    }`}>
+                      {searchQuery || activeTags.length > 0 || readFilter !== 'all' ? 'No bookmarks found' : 'No bookmarks yet'}
+                    </p>
+                    {canEdit && !searchQuery && activeTags.length === 0 && readFilter === 'all' && (
+                      <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                        <button
+                          onClick={() => setShowForm(true)}
+                          title="Add your first bookmark"
+                          className="px-6 py-3 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-xl hover:shadow-lg transition-all font-medium"
+                        >
+                          Add Your First Bookmark
+                        </button>
+                        <button
+                          onClick={() => searchInputRef.current?.focus()}
+                          title="Search for bookmarks"
+                          className={`px-6 py-3 rounded-xl transition-all font-medium ${
+                            darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          Try Searching
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Bookmarks Display */}
+                {!loading && filteredBookmarks.length > 0 && (
+                  <VirtualBookmarkList
+                    items={filteredBookmarks}
+                    viewMode={viewMode}
+                    focusedIndex={focusedBookmark ? filteredBookmarks.indexOf(focusedBookmark) : null}
+                    hasMore={hasMore && !isSearchActive}
+                    loadingMore={loadingMore}
+                    onEndReached={loadMore}
+                    darkMode={darkMode}
+                    renderItem={(bookmark, index) => (
+                      <div
+                        key={bookmark.id}
+                        draggable={canEdit && editingId !== bookmark.id}
+                        onDragStart={(e) => {
+                          const ids = selectedIds.includes(bookmark.id) ? selectedIds : [bookmark.id]
+                          e.dataTransfer.setData(BOOKMARK_DRAG_TYPE, JSON.stringify(ids))
+                          e.dataTransfer.effectAllowed = 'move'
+                        }}
+                        className={`group transition-all duration-300 animate-fadeIn ${
+                          viewMode !== 'list'
+                            ? `rounded-2xl shadow-sm border p-5 hover:shadow-xl hover:-translate-y-1 ${
+                                darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                              }`
+                            : `rounded-xl border p-4 hover:shadow-md ${
+                                darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                              }`
+                        } ${focusedId === bookmark.id ? 'ring-2 ring-blue-500' : ''}`}
+                        onClick={() => setFocusedId(bookmark.id)}
+                        style={{ animationDelay: `${Math.min(index, 12) * 50}ms` } as React.CSSProperties}
+                        aria-label={`Bookmark: ${bookmark.title}`}
+                      >
+                        {editingId === bookmark.id ? (
+                          <div className="space-y-3">
+                            <input
+                              type="text"
+                              value={editTitle}
+                              onChange={(e) => setEditTitle(e.target.value)}
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                              }`}
+                              placeholder="Title"
+                            />
+                            <input
+                              type="url"
+                              value={editUrl}
+                              onChange={(e) => setEditUrl(e.target.value)}
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                              }`}
+                              placeholder="URL"
+                            />
+                            <TagInput
+                              value={editTags}
+                              onChange={setEditTags}
+                              suggestions={allTags.map(tag => tag.name)}
+                              darkMode={darkMode}
+                              compact
+                            />
+                            <textarea
+                              value={editNotes}
+                              onChange={(e) => setEditNotes(e.target.value)}
+                              maxLength={MAX_NOTES_LENGTH}
+                              rows={4}
+                              className={`w-full px-3 py-2 border rounded-lg text-sm resize-y ${
+                                darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                              }`}
+                              placeholder="Notes: why you saved it (Markdown supported)"
+                              aria-label="Notes"
+                            />
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => editBookmark(bookmark.id)}
+                                className="flex-1 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-all text-xs"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setEditingId(null)
+                                  setEditTitle('')
+                                  setEditUrl('')
+                                  setEditTags([])
+                                  setEditNotes('')
+                                }}
+                                className={`flex-1 px-3 py-2 rounded-lg transition-all text-xs ${
+                                  darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                }`}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => setHistoryFor({ id: bookmark.id, title: bookmark.title })}
+                                title="View and restore earlier versions"
+                                className={`px-3 py-2 rounded-lg transition-all text-xs ${
+                                  darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                                }`}
+                              >
+                                History
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <>
+                            {viewMode === 'cards' && (
+                              <div className={`-mx-5 -mt-5 mb-4 aspect-[1.91/1] overflow-hidden rounded-t-2xl ${
+                                darkMode ? 'bg-gray-700' : 'bg-gray-100'
+                              }`}>
+                                <Image
+                                  src={`/api/previews/${bookmark.id}?v=${encodeURIComponent(bookmark.image_url ?? '')}`}
+                                  alt=""
+                                  width={600}
+                                  height={314}
+                                  unoptimized
+                                  className="w-full h-full object-cover"
+                                />
+                              </div>
+                            )}
+                            <div className={`flex items-start gap-3 mb-3 ${
+                              viewMode === 'list' ? 'flex-row' : 'flex-col sm:flex-row'
+                            }`}>
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.includes(bookmark.id)}
+                                onChange={(e) => {
+                                  if (e.target.checked) {
+                                    setSelectedIds(prev => [...prev, bookmark.id])
+                                  } else {
+                                    setSelectedIds(prev => prev.filter(id => id !== bookmark.id))
+                                  }
+                                }}
+                                aria-label={`Select ${bookmark.title}`}
+                                className="mt-1 rounded"
+                              />
+                              {getFavicon(bookmark) && (
+                                <Image 
+                                  src={getFavicon(bookmark)!} 
+                                  alt={`${bookmark.title} favicon`}
+                                  width={40}
+                                  height={40}
+                                  unoptimized
+                                  className="w-10 h-10 rounded-lg shadow-sm"
+                                  onError={(e) => e.currentTarget.style.display = 'none'}
+                                />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <h3 className={`font-semibold mb-1 truncate ${
+                                  darkMode ? 'text-white' : 'text-gray-900'
+                                }`}>
+                                  <Highlight text={bookmark.title} terms={searchTerms} darkMode={darkMode} />
+                                </h3>
+                                <a
+                                  href={isWebUrl(bookmark.url) ? bookmark.url : undefined}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  onClick={() => openBookmark(bookmark)}
+                                  onAuxClick={(e) => e.button === 1 && openBookmark(bookmark)}
+                                  className={`text-sm truncate block hover:underline ${
+                                    darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'
+                                  }`}
+                                >
+                                  <Highlight text={getDomain(bookmark.url)} terms={searchTerms} darkMode={darkMode} />
+                                </a>
+                                <LinkHealthBadge bookmark={bookmark} />
+                              </div>
+                              {(canEdit || bookmark.pinned) && (
+                                <button
+                                  onClick={() => setPinned([bookmark.id], !bookmark.pinned)}
+                                  disabled={!canEdit}
+                                  aria-pressed={bookmark.pinned}
+                                  title={bookmark.pinned ? 'Unpin (P)' : 'Pin to the top (P)'}
+                                  className={`p-1 rounded-lg transition-all disabled:cursor-default ${
+                                    bookmark.pinned
+                                      ? 'text-amber-500'
+                                      : `opacity-0 group-hover:opacity-100 ${darkMode ? 'text-gray-500 hover:text-amber-400' : 'text-gray-400 hover:text-amber-500'}`
+                                  }`}
+                                >
+                                  <svg className="w-5 h-5" fill={bookmark.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                                  </svg>
+                                </button>
+                              )}
+                            </div>
+                            {bookmark.description && (
+                              <p className={`text-sm mb-3 line-clamp-2 ${
+                                darkMode ? 'text-gray-400' : 'text-gray-600'
+                              }`}>
+                                <Highlight text={bookmark.description} terms={searchTerms} darkMode={darkMode} />
+                              </p>
+                            )}
+                            {bookmark.notes && (
+                              <Markdown
+                                source={bookmark.notes}
+                                darkMode={darkMode}
+                                className={`text-sm mb-3 max-h-48 overflow-y-auto rounded-lg border-l-2 pl-3 ${
+                                  darkMode ? 'text-gray-300 border-amber-500/60' : 'text-gray-700 border-amber-300'
+                                }`}
+                              />
+                            )}
+                            {bookmark.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1.5 mb-3">
+                                {bookmark.tags.map(tag => (
+                                  <button
+                                    key={tag.id}
+                                    onClick={() => toggleTagFilter(tag.name)}
+                                    title={activeTags.includes(tag.name) ? `Stop filtering by ${tag.name}` : `Filter by ${tag.name}`}
+                                    className={`px-2 py-0.5 rounded-full text-xs transition-all ${
+                                      activeTags.includes(tag.name)
+                                        ? 'bg-blue-500 text-white'
+                                        : darkMode
+                                          ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                    }`}
+                                  >
+                                    #{tag.name}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            <p className={`text-xs mb-3 ${
+                              darkMode ? 'text-gray-400' : 'text-gray-400'
+                            }`}>
+                              {new Date(bookmark.created_at).toLocaleDateString('en-US', { 
+                                month: 'short', 
+                                day: 'numeric', 
+                                year: 'numeric' 
+                              })}
+                              {bookmark.read_state === 'unread' && (
+                                <span className={darkMode ? 'text-blue-400' : 'text-blue-600'}> · Unread</span>
+                              )}
+                              {bookmark.read_state === 'archived' && ' · Archived'}
+                            </p>
+                            <div className={`flex gap-2 transition-opacity ${
+                              viewMode === 'list' ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                            }`}>
+                              <button
+                                onClick={() => copyToClipboard(bookmark.url, bookmark.id)}
+                                title="Copy URL to clipboard"
+                                className={`flex-1 px-3 py-2 text-xs rounded-lg transition-all flex items-center justify-center gap-1 ${
+                                  darkMode 
+                                    ? 'text-gray-300 hover:text-blue-400 hover:bg-gray-700' 
+                                    : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                                }`}
+                              >
+                                {copiedId === bookmark.id ? (
+                                  <>
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                    </svg>
+                                    Copied
+                                  </>
+                                ) : (
+                                  <>
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                                    </svg>
+                                    Copy
+                                  </>
+                                )}
+                              </button>
+                              {bookmark.snapshot_at ? (
+                                <Link
+                                  href={`/read/${bookmark.id}`}
+                                  title="Read the saved copy"
+                                  className={`px-3 py-2 text-xs rounded-lg transition-all flex items-center gap-1 ${
+                                    darkMode 
+                                      ? 'text-gray-300 hover:text-emerald-400 hover:bg-gray-700' 
+                                      : 'text-gray-600 hover:text-emerald-600 hover:bg-emerald-50'
+                                  }`}
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                                  </svg>
+                                  Read
+                                </Link>
+                              ) : canEdit && (
+                                <button
+                                  onClick={() => saveSnapshot(bookmark.id)}
+                                  disabled={snapshottingId === bookmark.id}
+                                  title="Save a readable copy in case the page disappears"
+                                  className={`px-3 py-2 text-xs rounded-lg transition-all disabled:opacity-50 flex items-center gap-1 ${
+                                    darkMode 
+                                      ? 'text-gray-300 hover:text-emerald-400 hover:bg-gray-700' 
+                                      : 'text-gray-600 hover:text-emerald-600 hover:bg-emerald-50'
+                                  }`}
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                  </svg>
+                                  {snapshottingId === bookmark.id ? 'Saving...' : 'Save'}
+                                </button>
+                              )}
+                              {canEdit && (
+                                <>
+                                  <button
+                                    onClick={() => setReadState([bookmark.id], bookmark.read_state === 'unread' ? 'read' : 'unread')}
+                                    title={bookmark.read_state === 'unread' ? 'Mark as read (R)' : 'Mark as unread (R)'}
+                                    aria-label={bookmark.read_state === 'unread' ? 'Mark as read' : 'Mark as unread'}
+                                    className={`px-3 py-2 text-xs rounded-lg transition-all flex items-center ${
+                                      darkMode 
+                                        ? 'text-gray-300 hover:text-blue-400 hover:bg-gray-700' 
+                                        : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                                    }`}
+                                  >
+                                    <svg className="w-4 h-4" fill={bookmark.read_state === 'unread' ? 'none' : 'currentColor'} stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => setReadState([bookmark.id], bookmark.read_state === 'archived' ? 'read' : 'archived')}
+                                    title={bookmark.read_state === 'archived' ? 'Unarchive (A)' : 'Archive (A)'}
+                                    aria-label={bookmark.read_state === 'archived' ? 'Unarchive' : 'Archive'}
+                                    className={`px-3 py-2 text-xs rounded-lg transition-all flex items-center ${
+                                      darkMode 
+                                        ? 'text-gray-300 hover:text-purple-400 hover:bg-gray-700' 
+                                        : 'text-gray-600 hover:text-purple-600 hover:bg-purple-50'
+                                    }`}
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => startEditing(bookmark)}
+                                    title="Edit this bookmark"
+                                    className={`px-3 py-2 text-xs rounded-lg transition-all flex items-center gap-1 ${
+                                      darkMode 
+                                        ? 'text-gray-300 hover:text-yellow-400 hover:bg-gray-700' 
+                                        : 'text-gray-600 hover:text-yellow-600 hover:bg-yellow-50'
+                                    }`}
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                    </svg>
+                                    Edit
+                                  </button>
+                                  <button
+                                    onClick={() => setShowConfirm({id: bookmark.id, title: bookmark.title})}
+                                    disabled={deletingId === bookmark.id}
+                                    title="Delete this bookmark"
+                                    className={`px-3 py-2 text-xs rounded-lg transition-all disabled:opacity-50 flex items-center gap-1 ${
+                                      darkMode 
+                                        ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' 
+                                        : 'text-red-600 hover:bg-red-50'
+                                    }`}
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                    Delete
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  />
+                )}
+              </>
+            )}
+          </div>
         </div>
-        )}
       </div>
     </div>
   )
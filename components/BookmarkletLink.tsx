@@ -0,0 +1,29 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+// Opens /save for the current page in a small popup window
+function bookmarkletCode(origin: string) {
+  return `javascript:(function(){window.open('${origin}/save?url='+encodeURIComponent(location.href)+'&title='+encodeURIComponent(document.title),'savenest','width=440,height=560')})()`
+}
+
+// A link to drag to the bookmarks bar. React refuses to render javascript:
+// URLs, so the href is set on the element after mount.
+export default function BookmarkletLink() {
+  const ref = useRef<HTMLAnchorElement>(null)
+
+  useEffect(() => {
+    ref.current?.setAttribute('href', bookmarkletCode(window.location.origin))
+  }, [])
+
+  return (
+    <a
+      ref={ref}
+      onClick={(e) => e.preventDefault()}
+      title="Drag this to your bookmarks bar"
+      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium cursor-grab hover:bg-blue-700 transition-all"
+    >
+      + Save to SaveNest
+    </a>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  BOOKMARK_DRAG_TYPE,
+  TRASH,
+  UNSORTED,
+  buildCollectionTree,
+  type Collection,
+  type CollectionNode,
+} from '@/lib/collections'
+
+type CollectionSidebarProps = {
+  collections: Collection[]
+  counts: Record<string, number>
+  totalCount: number
+  unsortedCount: number
+  activeId: string | null
+  onSelect: (id: string | null) => void
+  onCreate: (name: string, parentId: string | null) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onDropBookmarks: (ids: string[], collectionId: string | null) => void
+  onTrashBookmarks: (ids: string[]) => void
+  // Hides folder editing for workspace viewers
+  readOnly?: boolean
+  darkMode: boolean
+}
+
+export default function CollectionSidebar({
+  collections,
+  counts,
+  totalCount,
+  unsortedCount,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onDropBookmarks,
+  onTrashBookmarks,
+  readOnly = false,
+  darkMode,
+}: CollectionSidebarProps) {
+  const [expanded, setExpanded] = useState<string[]>([])
+  const [creatingIn, setCreatingIn] = useState<string | null | undefined>(undefined)
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const tree = buildCollectionTree(collections)
+
+  const totalFor = (node: CollectionNode): number =>
+    (counts[node.id] ?? 0) + node.children.reduce((sum, child) => sum + totalFor(child), 0)
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id])
+  }
+
+  const submitCreate = () => {
+    if (newName.trim()) {
+      onCreate(newName.trim(), creatingIn ?? null)
+      if (creatingIn) setExpanded(prev => prev.includes(creatingIn) ? prev : [...prev, creatingIn])
+    }
+    setCreatingIn(undefined)
+    setNewName('')
+  }
+
+  const submitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim())
+    }
+    setRenamingId(null)
+    setRenameValue('')
+  }
+
+  const dropProps = (key: string, onDropIds: (ids: string[]) => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(BOOKMARK_DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget(prev => prev === key ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      try {
+        const ids = JSON.parse(e.dataTransfer.getData(BOOKMARK_DRAG_TYPE))
+        if (Array.isArray(ids) && ids.length > 0) onDropIds(ids)
+      } catch {}
+    },
+  })
+
+  const rowClass = (key: string | null) => `w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all ${
+    dropTarget === (key ?? 'all')
+      ? 'ring-2 ring-blue-500 bg-blue-500/10'
+      : activeId === key
+        ? 'bg-blue-500 text-white'
+        : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`
+
+  const inputClass = `w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-600 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`
+
+  const newCollectionInput = (
+    <input
+      type="text"
+      value={newName}
+      onChange={(e) => setNewName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submitCreate()
+        if (e.key === 'Escape') {
+          e.stopPropagation()
+          setCreatingIn(undefined)
+          setNewName('')
+        }
+      }}
+      onBlur={submitCreate}
+      placeholder="Folder name"
+      aria-label="New folder name"
+      className={inputClass}
+      autoFocus
+    />
+  )
+
+  const renderNode = (node: CollectionNode, depth: number) => {
+    const isExpanded = expanded.includes(node.id)
+    return (
+      <li key={node.id}>
+        <div className="group relative" style={{ paddingLeft: depth * 12 }}>
+          {renamingId === node.id ? (
+            <div className="px-3 py-1">
+              <input
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitRename()
+                  if (e.key === 'Escape') {
+                    e.stopPropagation()
+                    setRenamingId(null)
+                  }
+                }}
+                onBlur={submitRename}
+                aria-label="Folder name"
+                className={inputClass}
+                autoFocus
+              />
+            </div>
+          ) : (
+            <button
+              onClick={() => onSelect(node.id)}
+              className={rowClass(node.id)}
+              {...dropProps(node.id, ids => onDropBookmarks(ids, node.id))}
+            >
+              <span
+                role="button"
+                tabIndex={-1}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  toggleExpanded(node.id)
+                }}
+                aria-label={isExpanded ? `Collapse ${node.name}` : `Expand ${node.name}`}
+                className={`w-3 text-xs ${node.children.length === 0 ? 'invisible' : ''}`}
+              >
+                {isExpanded ? '▾' : '▸'}
+              </span>
+              <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+              </svg>
+              <span className="flex-1 text-left truncate">{node.name}</span>
+              <span className="text-xs opacity-70 group-hover:hidden">{totalFor(node)}</span>
+            </button>
+          )}
+          {!readOnly && renamingId !== node.id && (
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 hidden group-hover:flex gap-1">
+              {confirmDeleteId === node.id ? (
+                <>
+                  <button
+                    onClick={() => {
+                      onDelete(node.id)
+                      setConfirmDeleteId(null)
+                    }}
+                    title="Delete folder and its subfolders (bookmarks become unsorted)"
+                    className="px-1.5 text-xs rounded bg-red-500 text-white"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className={`px-1.5 text-xs rounded ${darkMode ? 'bg-gray-600 text-gray-200' : 'bg-gray-200 text-gray-700'}`}
+                  >
+                    No
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => {
+                      setCreatingIn(node.id)
+                      setExpanded(prev => prev.includes(node.id) ? prev : [...prev, node.id])
+                    }}
+                    title="New subfolder"
+                    aria-label={`New subfolder in ${node.name}`}
+                    className={`px-1 text-xs rounded ${darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    +
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(node.id)
+                      setRenameValue(node.name)
+                    }}
+                    title="Rename folder"
+                    aria-label={`Rename ${node.name}`}
+                    className={`px-1 text-xs rounded ${darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(node.id)}
+                    title="Delete folder"
+                    aria-label={`Delete ${node.name}`}
+                    className={`px-1 text-xs rounded ${darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-red-500 hover:bg-red-50'}`}
+                  >
+                    &times;
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        {(isExpanded || creatingIn === node.id) && (
+          <ul>
+            {isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+            {creatingIn === node.id && (
+              <li className="px-3 py-1" style={{ paddingLeft: (depth + 1) * 12 + 12 }}>
+                {newCollectionInput}
+              </li>
+            )}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <aside className={`lg:w-64 shrink-0 rounded-xl p-3 h-fit ${
+      darkMode ? 'bg-gray-800/50 border border-gray-700' : 'bg-white/50 border border-gray-200'
+    }`}>
+      <div className="flex items-center justify-between px-3 mb-2">
+        <h2 className={`text-xs font-semibold uppercase tracking-wide ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Folders
+        </h2>
+        {!readOnly && (
+          <button
+            onClick={() => setCreatingIn(null)}
+            title="New folder"
+            className={`text-xs px-2 py-1 rounded-md ${darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            + New
+          </button>
+        )}
+      </div>
+      <ul className="space-y-0.5">
+        <li>
+          <button onClick={() => onSelect(null)} className={rowClass(null)} {...dropProps('all', ids => onDropBookmarks(ids, null))}>
+            <span className="flex-1 text-left">All Bookmarks</span>
+            <span className="text-xs opacity-70">{totalCount}</span>
+          </button>
+        </li>
+        <li>
+          <button onClick={() => onSelect(UNSORTED)} className={rowClass(UNSORTED)} {...dropProps(UNSORTED, ids => onDropBookmarks(ids, null))}>
+            <span className="flex-1 text-left">Unsorted</span>
+            <span className="text-xs opacity-70">{unsortedCount}</span>
+          </button>
+        </li>
+        {tree.map(node => renderNode(node, 0))}
+        {creatingIn === null && <li className="px-3 py-1">{newCollectionInput}</li>}
+      </ul>
+      <div className={`mt-2 pt-2 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <button
+          onClick={() => onSelect(TRASH)}
+          title="Deleted bookmarks (drop bookmarks here to delete them)"
+          className={rowClass(TRASH)}
+          {...dropProps(TRASH, onTrashBookmarks)}
+        >
+          <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+          <span className="flex-1 text-left">Trash</span>
+        </button>
+      </div>
+    </aside>
+  )
+}
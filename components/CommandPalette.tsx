@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { getDomain, type Bookmark } from '@/lib/bookmarks'
+import { fuzzyScore } from '@/lib/shortcuts'
+
+export type PaletteCommand = {
+  id: string
+  label: string
+  // Printed keys of the shortcut that does the same, if there is one
+  keys?: string[]
+  run: () => void
+}
+
+type CommandPaletteProps = {
+  commands: PaletteCommand[]
+  bookmarks: Bookmark[]
+  onOpenBookmark: (bookmark: Bookmark) => void
+  onClose: () => void
+  darkMode: boolean
+}
+
+type PaletteResult =
+  | { type: 'command', id: string, score: number, command: PaletteCommand }
+  | { type: 'bookmark', id: string, score: number, bookmark: Bookmark }
+
+const MAX_RESULTS = 50
+// Bookmarks listed before anything is typed
+const RECENT_BOOKMARKS = 8
+
+function searchPalette(query: string, commands: PaletteCommand[], bookmarks: Bookmark[]): PaletteResult[] {
+  if (!query.trim()) {
+    return [
+      ...commands.map(command => ({ type: 'command' as const, id: `command-${command.id}`, score: 0, command })),
+      ...bookmarks.slice(0, RECENT_BOOKMARKS).map(bookmark => ({ type: 'bookmark' as const, id: `bookmark-${bookmark.id}`, score: 0, bookmark })),
+    ]
+  }
+
+  const results: PaletteResult[] = []
+  for (const command of commands) {
+    const score = fuzzyScore(query, command.label)
+    if (score !== null) results.push({ type: 'command', id: `command-${command.id}`, score, command })
+  }
+  for (const bookmark of bookmarks) {
+    const scores = [fuzzyScore(query, bookmark.title), fuzzyScore(query, bookmark.domain ?? getDomain(bookmark.url))]
+      .filter((score): score is number => score !== null)
+    if (scores.length > 0) {
+      results.push({ type: 'bookmark', id: `bookmark-${bookmark.id}`, score: Math.max(...scores), bookmark })
+    }
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS)
+}
+
+// Ctrl+K palette: fuzzy-finds actions and the loaded bookmarks, runs or
+// opens the chosen one with Enter
+export default function CommandPalette({ commands, bookmarks, onOpenBookmark, onClose, darkMode }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const results = searchPalette(query, commands, bookmarks)
+  const active = results[Math.min(activeIndex, results.length - 1)]
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const choose = (result: PaletteResult) => {
+    onClose()
+    if (result.type === 'command') {
+      result.command.run()
+    } else {
+      onOpenBookmark(result.bookmark)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(index => results.length === 0 ? 0 : (index + 1) % results.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(index => results.length === 0 ? 0 : (index - 1 + results.length) % results.length)
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (active) choose(active)
+        break
+      case 'Escape':
+        e.preventDefault()
+        onClose()
+        break
+    }
+    // Keep the page's own shortcuts out of it while the palette is open
+    e.stopPropagation()
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 pt-[15vh]"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className={`rounded-2xl max-w-xl w-full overflow-hidden shadow-2xl ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <input
+          autoFocus
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search bookmarks and actions..."
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={active?.id}
+          className={`w-full px-5 py-4 text-base bg-transparent outline-none border-b ${
+            darkMode ? 'border-gray-700 placeholder-gray-500' : 'border-gray-200 placeholder-gray-400'
+          }`}
+        />
+        <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto py-2">
+          {results.length === 0 && <li className={`px-5 py-3 text-sm ${mutedText}`}>Nothing matches.</li>}
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              id={result.id}
+              role="option"
+              aria-selected={result === active}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => choose(result)}
+              className={`mx-2 px-3 py-2 rounded-lg flex items-center gap-3 cursor-pointer ${
+                result === active ? (darkMode ? 'bg-gray-700' : 'bg-blue-50') : ''
+              }`}
+            >
+              {result.type === 'command' ? (
+                <>
+                  <span className="flex-1 text-sm truncate">{result.command.label}</span>
+                  {result.command.keys?.map(key => (
+                    <kbd
+                      key={key}
+                      className={`px-1.5 py-0.5 rounded text-xs border ${darkMode ? 'border-gray-600 bg-gray-900' : 'border-gray-300 bg-gray-50'}`}
+                    >
+                      {key}
+                    </kbd>
+                  ))}
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm truncate">{result.bookmark.title}</span>
+                    <span className={`block text-xs truncate ${mutedText}`}>
+                      {result.bookmark.domain ?? getDomain(result.bookmark.url)}
+                    </span>
+                  </span>
+                  <span className={`text-xs ${mutedText}`}>Open</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        <p className={`px-5 py-2 text-xs border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'} ${mutedText}`}>
+          ↑↓ to move · Enter to choose · Esc to close
+        </p>
+      </div>
+    </div>
+  )
+}
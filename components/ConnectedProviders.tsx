@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { UserIdentity } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { OAUTH_PROVIDERS, authCallbackUrl, authErrorMessage, type OAuthProvider } from '@/lib/auth'
+import { PROVIDER_LABELS } from '@/lib/account'
+
+// Sign-in methods on the account. Connecting goes through the provider and
+// back to /settings; the last remaining method can't be disconnected.
+export default function ConnectedProviders({ identities }: { identities: UserIdentity[] }) {
+  const router = useRouter()
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const connected = new Set(identities.map(identity => identity.provider))
+
+  const connect = async (provider: OAuthProvider) => {
+    setBusy(provider)
+    setError(null)
+    const supabase = createClient()
+    const { error } = await supabase.auth.linkIdentity({
+      provider,
+      options: { redirectTo: authCallbackUrl(window.location.origin, '/settings') },
+    })
+    if (error) {
+      setError(authErrorMessage(error.code))
+      setBusy(null)
+    }
+  }
+
+  const disconnect = async (identity: UserIdentity) => {
+    setBusy(identity.identity_id)
+    setError(null)
+    const supabase = createClient()
+    const { error } = await supabase.auth.unlinkIdentity(identity)
+    setBusy(null)
+    if (error) {
+      setError(authErrorMessage(error.code))
+      return
+    }
+    router.refresh()
+  }
+
+  return (
+    <div className="space-y-2">
+      {identities.map(identity => (
+        <div key={identity.identity_id} className="flex items-center justify-between gap-3 text-sm">
+          <div className="min-w-0">
+            <p className="text-gray-900">{PROVIDER_LABELS[identity.provider] ?? identity.provider}</p>
+            {identity.identity_data?.email && (
+              <p className="text-gray-500 truncate">{identity.identity_data.email}</p>
+            )}
+          </div>
+          {identities.length > 1 && (
+            <button
+              onClick={() => disconnect(identity)}
+              disabled={busy !== null}
+              className="px-3 py-1.5 rounded-lg text-xs text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+            >
+              {busy === identity.identity_id ? 'Disconnecting...' : 'Disconnect'}
+            </button>
+          )}
+        </div>
+      ))}
+      {OAUTH_PROVIDERS.filter(provider => !connected.has(provider.id)).map(provider => (
+        <div key={provider.id} className="flex items-center justify-between gap-3 text-sm">
+          <p className="text-gray-500">{provider.label}</p>
+          <button
+            onClick={() => connect(provider.id)}
+            disabled={busy !== null}
+            className="px-3 py-1.5 rounded-lg text-xs text-blue-600 hover:bg-blue-50 transition-all disabled:opacity-50"
+          >
+            {busy === provider.id ? 'Connecting...' : 'Connect'}
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
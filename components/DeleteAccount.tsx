@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { deleteAccount } from '@/app/settings/actions'
+import { DELETE_CONFIRMATION } from '@/lib/account'
+
+// Two-step account deletion: open the form, then retype the email and the
+// confirmation word. The server action checks both again.
+export default function DeleteAccount({ email }: { email: string }) {
+  const [open, setOpen] = useState(false)
+  const [typedEmail, setTypedEmail] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const matches = typedEmail.trim().toLowerCase() === email.toLowerCase() && confirmation === DELETE_CONFIRMATION
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!matches) return
+    setDeleting(true)
+    setError(null)
+    const result = await deleteAccount(typedEmail, confirmation)
+    if ('error' in result) {
+      setError(result.error)
+      setDeleting(false)
+      return
+    }
+    window.location.assign('/')
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="px-4 py-2 rounded-lg text-sm text-red-600 border border-red-200 hover:bg-red-50 transition-all"
+      >
+        Delete Account...
+      </button>
+    )
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <p className="text-sm text-gray-600">
+        This permanently deletes your account, your personal workspace, every shared workspace where you are the
+        only member, and the bookmarks you added to other workspaces. Folders and tags in shared workspaces stay for
+        the remaining members. This can&apos;t be undone.
+      </p>
+      <label className="block text-sm text-gray-500">
+        Type your email, {email}
+        <input
+          value={typedEmail}
+          onChange={(e) => setTypedEmail(e.target.value)}
+          autoComplete="off"
+          className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-gray-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </label>
+      <label className="block text-sm text-gray-500">
+        Type {DELETE_CONFIRMATION} to confirm
+        <input
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          autoComplete="off"
+          className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-gray-900 focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </label>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!matches || deleting}
+          className="px-4 py-2 rounded-lg text-sm bg-red-600 text-white hover:bg-red-700 transition-all disabled:opacity-50"
+        >
+          {deleting ? 'Deleting...' : 'Delete My Account'}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setOpen(false)
+            setTypedEmail('')
+            setConfirmation('')
+            setError(null)
+          }}
+          disabled={deleting}
+          className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
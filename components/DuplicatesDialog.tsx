@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { bookmarkColumns, getDomain, type Bookmark } from '@/lib/bookmarks'
+import { DUPLICATE_REASON_LABELS, groupDuplicates, type DuplicateGroup, type DuplicateMatch } from '@/lib/duplicates'
+
+type DuplicatesDialogProps = {
+  workspaceId: string
+  onClose: () => void
+  onMerged: () => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+const ID_CHUNK_SIZE = 200
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Lists bookmarks that look like the same page under different addresses
+// and merges a set into the one picked to keep; the rest go to the trash
+export default function DuplicatesDialog({ workspaceId, onClose, onMerged, onNotify, darkMode }: DuplicatesDialogProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null)
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({})
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const { data, error } = await supabase.rpc('find_duplicate_bookmarks', { target_workspace: workspaceId })
+      if (error) return []
+      const matches = data as DuplicateMatch[]
+
+      const ids = [...new Set(matches.map(match => match.bookmark_id))]
+      const bookmarks: Bookmark[] = []
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const { data } = await supabase
+          .from('bookmarks')
+          .select(bookmarkColumns())
+          .in('id', ids.slice(i, i + ID_CHUNK_SIZE))
+          .returns<Bookmark[]>()
+        bookmarks.push(...(data ?? []))
+      }
+      return groupDuplicates(matches, bookmarks)
+    }
+
+    load().then(found => {
+      if (!cancelled) setGroups(found)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId, supabase])
+
+  const merge = async (group: DuplicateGroup) => {
+    const keep = keepIds[group.key] ?? group.bookmarks[0].id
+    const others = group.bookmarks.map(b => b.id).filter(id => id !== keep)
+    setMergingKey(group.key)
+    const { error } = await supabase.rpc('merge_bookmarks', { keep, others })
+    setMergingKey(null)
+
+    if (error) {
+      onNotify('Failed to merge bookmarks', 'error')
+      return
+    }
+    // The merged ones are in the trash now, so drop them from other sets too
+    setGroups(prev => prev
+      ?.filter(g => g.key !== group.key)
+      .map(g => ({ ...g, bookmarks: g.bookmarks.filter(b => !others.includes(b.id)) }))
+      .filter(g => g.bookmarks.length > 1) ?? null)
+    onNotify(`Merged ${others.length + 1} bookmarks; the extra copies are in the trash`, 'success')
+    onMerged()
+  }
+
+  const skip = (key: string) => {
+    setGroups(prev => prev?.filter(g => g.key !== key) ?? null)
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicates-title"
+        className={`rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="duplicates-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Find Duplicates
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Exact copies are already blocked when saving. These look like the same page under different addresses.
+          Merging keeps the one you pick, adds the others&apos; tags and notes to it, and moves the others to the trash.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {!groups && <p className={`text-sm ${mutedText}`}>Looking for duplicates...</p>}
+          {groups?.length === 0 && <p className={`text-sm ${mutedText}`}>No duplicates found.</p>}
+          {groups?.map(group => {
+            const keep = keepIds[group.key] ?? group.bookmarks[0].id
+            return (
+              <div
+                key={group.key}
+                className={`rounded-xl border p-3 ${darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'}`}
+              >
+                <p className={`text-xs mb-2 ${mutedText}`}>{DUPLICATE_REASON_LABELS[group.reason]}</p>
+                <ul className="space-y-2 mb-3">
+                  {group.bookmarks.map(bookmark => (
+                    <li key={bookmark.id}>
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`keep-${group.key}`}
+                          checked={keep === bookmark.id}
+                          onChange={() => setKeepIds(prev => ({ ...prev, [group.key]: bookmark.id }))}
+                          className="mt-1"
+                        />
+                        <span className="flex-1 min-w-0">
+                          <span className={`block text-sm font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                            {bookmark.title}
+                          </span>
+                          <span className={`block text-xs truncate ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
+                            {bookmark.url}
+                          </span>
+                          <span className={`block text-xs ${mutedText}`}>
+                            {getDomain(bookmark.url)} · saved {formatDate(bookmark.created_at)}
+                            {bookmark.tags.length > 0 && ` · ${bookmark.tags.map(tag => `#${tag.name}`).join(' ')}`}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => merge(group)}
+                    disabled={mergingKey !== null}
+                    className="px-3 py-1.5 text-xs rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+                  >
+                    {mergingKey === group.key ? 'Merging...' : 'Merge Into Selected'}
+                  </button>
+                  <button
+                    onClick={() => skip(group.key)}
+                    title="Hide this set; it will show up again next time"
+                    className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}
+                  >
+                    Not Duplicates
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <button onClick={onClose} className={`px-4 py-2 rounded-lg transition-all ${subtleButton}`}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import type { Collection } from '@/lib/collections'
+import {
+  EXPORT_FORMATS,
+  exportFileName,
+  serializeBookmarks,
+  type ExportBookmark,
+  type ExportFormat,
+} from '@/lib/export'
+
+type ExportMenuProps = {
+  viewBookmarks: ExportBookmark[]
+  selectedIds: string[]
+  collections: Collection[]
+  onDone: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function ExportMenu({ viewBookmarks, selectedIds, collections, onDone, darkMode }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('json')
+  const [exporting, setExporting] = useState(false)
+
+  // Whole-library and selection exports are built by the server so they
+  // include bookmarks that haven't been loaded in this tab
+  const exportFromServer = async (init?: RequestInit) => {
+    setExporting(true)
+    try {
+      const response = await fetch(
+        init ? '/api/export' : `/api/export?format=${format}`,
+        init
+      )
+      if (!response.ok) throw new Error()
+      downloadBlob(await response.blob(), exportFileName(format))
+      onDone('Bookmarks exported!', 'success')
+    } catch {
+      onDone('Failed to export bookmarks', 'error')
+    }
+    setExporting(false)
+    setOpen(false)
+  }
+
+  const exportView = () => {
+    const content = serializeBookmarks(viewBookmarks, format, collections)
+    downloadBlob(new Blob([content], { type: EXPORT_FORMATS[format].mimeType }), exportFileName(format))
+    onDone(`${viewBookmarks.length} bookmarks exported!`, 'success')
+    setOpen(false)
+  }
+
+  const optionClass = `w-full text-left px-3 py-2 rounded-lg text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+    darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Export bookmarks"
+        aria-expanded={open}
+        className={`px-3 py-2 rounded-lg transition-all text-sm ${
+          darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+        }`}
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+      {open && (
+        <div className={`absolute right-0 mt-2 w-64 z-30 rounded-xl border shadow-lg p-3 ${
+          darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+          <label className={`block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Format
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className={`w-full mb-3 px-2 py-1.5 rounded-lg border text-sm ${
+              darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+              <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+            ))}
+          </select>
+          <button onClick={() => exportFromServer()} disabled={exporting} className={optionClass}>
+            All bookmarks
+          </button>
+          <button onClick={exportView} disabled={exporting || viewBookmarks.length === 0} className={optionClass}>
+            Current view ({viewBookmarks.length})
+          </button>
+          <button
+            onClick={() => exportFromServer({
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ format, ids: selectedIds }),
+            })}
+            disabled={exporting || selectedIds.length === 0}
+            className={optionClass}
+          >
+            Selected ({selectedIds.length})
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+type HighlightProps = {
+  text: string
+  terms: string[]
+  darkMode: boolean
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Marks words in `text` that start with any of the search terms
+export default function Highlight({ text, terms, darkMode }: HighlightProps) {
+  if (terms.length === 0) return <>{text}</>
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu')
+  const parts = text.split(pattern)
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark
+            key={i}
+            className={`rounded-sm px-0.5 ${darkMode ? 'bg-yellow-500/40 text-white' : 'bg-yellow-200 text-gray-900'}`}
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
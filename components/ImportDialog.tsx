@@ -0,0 +1,353 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { findSavedUrls, getDomain } from '@/lib/bookmarks'
+import { normalizeUrl } from '@/lib/normalize-url'
+import { normalizeTagName } from '@/lib/tags'
+import type { LibraryScope } from '@/lib/workspaces'
+import { parseImportFile, type ImportEntry, type ParsedImport } from '@/lib/import'
+import type { Collection } from '@/lib/collections'
+import { importBookmarks } from '@/app/actions'
+
+type FolderMode = 'collections' | 'tags' | 'ignore'
+
+type ImportSummary = {
+  imported: number
+  duplicates: ImportEntry[]
+  invalid: ParsedImport['invalid']
+  failed: { entry: ImportEntry, reason: string }[]
+}
+
+type ImportDialogProps = {
+  scope: LibraryScope
+  collections: Collection[]
+  onClose: () => void
+  onImported: () => void
+  darkMode: boolean
+}
+
+// Small enough that a batch of long notes stays under the server action body limit
+const BATCH_SIZE = 50
+const PREVIEW_LIMIT = 50
+
+const FORMAT_LABELS = {
+  html: 'Browser bookmarks (HTML)',
+  csv: 'Pocket / Raindrop (CSV)',
+  json: 'SaveNest export (JSON)',
+}
+
+export default function ImportDialog({
+  scope,
+  collections,
+  onClose,
+  onImported,
+  darkMode,
+}: ImportDialogProps) {
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedImport | null>(null)
+  const [savedUrls, setSavedUrls] = useState<string[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [folderMode, setFolderMode] = useState<FolderMode>('collections')
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null)
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const supabase = createClient()
+
+  // Split entries into new ones and duplicates, both of existing bookmarks
+  // and of earlier entries in the same file, by normalized URL
+  const partition = (entries: ImportEntry[]) => {
+    const seen = new Set(savedUrls.map(normalizeUrl))
+    const fresh: ImportEntry[] = []
+    const duplicates: ImportEntry[] = []
+    entries.forEach(entry => {
+      const key = normalizeUrl(entry.url)
+      if (seen.has(key)) {
+        duplicates.push(entry)
+      } else {
+        seen.add(key)
+        fresh.push(entry)
+      }
+    })
+    return { fresh, duplicates }
+  }
+
+  const preview = parsed ? partition(parsed.entries) : null
+  const hasFolders = parsed?.entries.some(entry => entry.folder.length > 0) ?? false
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name)
+    setParseError(null)
+    setParsed(null)
+    try {
+      const result = parseImportFile(file.name, await file.text())
+      if (result.entries.length === 0 && result.invalid.length === 0) {
+        setParseError('No bookmarks found in this file.')
+      } else {
+        setSavedUrls(await findSavedUrls(supabase, scope.workspaceId, result.entries.map(entry => entry.url)))
+        setParsed(result)
+      }
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Could not read this file.')
+    }
+  }
+
+  // Finds or creates the collection for every folder path, parents first
+  const resolveFolders = async (entries: ImportEntry[]) => {
+    const known = [...collections]
+    const idsByPath = new Map<string, string>()
+
+    const paths = [...new Set(entries.filter(e => e.folder.length > 0).map(e => JSON.stringify(e.folder)))]
+      .map(path => JSON.parse(path) as string[])
+      .sort((a, b) => a.length - b.length)
+
+    for (const path of paths) {
+      let parentId: string | null = null
+      for (let depth = 0; depth < path.length; depth++) {
+        const key = JSON.stringify(path.slice(0, depth + 1))
+        let id = idsByPath.get(key)
+        if (!id) {
+          const existing = known.find(c => c.name === path[depth] && c.parent_id === parentId)
+          if (existing) {
+            id = existing.id
+          } else {
+            const { data, error } = await supabase
+              .from('collections')
+              .insert([{ name: path[depth], parent_id: parentId, user_id: scope.userId, workspace_id: scope.workspaceId }])
+              .select('id, name, parent_id, created_at')
+            if (error || !data) throw new Error(`Could not create folder "${path[depth]}"`)
+            known.push(data[0])
+            id = data[0].id as string
+          }
+          idsByPath.set(key, id)
+        }
+        parentId = id
+      }
+    }
+
+    return { idsByPath, knownIds: new Set(known.map(c => c.id)) }
+  }
+
+  const runImport = async () => {
+    if (!parsed || !preview) return
+    const { fresh, duplicates } = preview
+    const result: ImportSummary = { imported: 0, duplicates, invalid: parsed.invalid, failed: [] }
+    setProgress({ done: 0, total: fresh.length })
+
+    let folders: Awaited<ReturnType<typeof resolveFolders>> = { idsByPath: new Map(), knownIds: new Set() }
+    try {
+      if (folderMode === 'collections') {
+        folders = await resolveFolders(fresh)
+      } else {
+        folders.knownIds = new Set(collections.map(c => c.id))
+      }
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : 'Could not create folders.')
+      setProgress(null)
+      return
+    }
+
+    const tagsFor = (entry: ImportEntry) =>
+      folderMode === 'tags' ? [...entry.tags, ...entry.folder.map(normalizeTagName)] : entry.tags
+
+    const toRow = (entry: ImportEntry) => ({
+      title: entry.title.trim() || getDomain(entry.url),
+      url: entry.url,
+      description: entry.description,
+      notes: entry.notes,
+      tags: tagsFor(entry),
+      collection_id: folderMode === 'collections' && entry.folder.length > 0
+        ? folders.idsByPath.get(JSON.stringify(entry.folder)) ?? null
+        : entry.collection_id && folders.knownIds.has(entry.collection_id)
+          ? entry.collection_id
+          : null,
+      created_at: entry.created_at,
+    })
+
+    for (let start = 0; start < fresh.length; start += BATCH_SIZE) {
+      const batch = fresh.slice(start, start + BATCH_SIZE)
+      const outcome = await importBookmarks(scope.workspaceId, batch.map(toRow))
+      if ('error' in outcome) {
+        batch.forEach(entry => result.failed.push({ entry, reason: outcome.error.message }))
+      } else {
+        outcome.data.forEach((saved, i) => {
+          const entry = batch[i]
+          if ('error' in saved) {
+            result.failed.push({ entry, reason: saved.error })
+            return
+          }
+          result.imported++
+          if (outcome.warning && tagsFor(entry).length > 0) result.failed.push({ entry, reason: outcome.warning })
+        })
+      }
+      setProgress({ done: Math.min(start + BATCH_SIZE, fresh.length), total: fresh.length })
+    }
+
+    setSummary(result)
+    setProgress(null)
+    onImported()
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+        className={`rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="import-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Import Bookmarks
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Supports Chrome, Firefox, Safari and Edge HTML exports, Pocket and Raindrop CSV, and SaveNest JSON exports.
+        </p>
+
+        {!summary && !progress && (
+          <label className={`block mb-4 rounded-xl border-2 border-dashed p-6 text-center cursor-pointer transition-all ${
+            darkMode ? 'border-gray-600 hover:border-blue-500' : 'border-gray-300 hover:border-blue-500'
+          }`}>
+            <input
+              type="file"
+              accept=".html,.htm,.csv,.json,text/html,text/csv,application/json"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+              }}
+            />
+            <span className="text-sm">{fileName || 'Choose a file to import'}</span>
+          </label>
+        )}
+
+        {parseError && (
+          <p className="mb-4 text-sm text-red-500">{parseError}</p>
+        )}
+
+        {parsed && preview && !summary && !progress && (
+          <div className="flex flex-col min-h-0">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm mb-3">
+              <span>{FORMAT_LABELS[parsed.format]}</span>
+              <span className="text-green-600">{preview.fresh.length} new</span>
+              <span className={mutedText}>{preview.duplicates.length} already saved</span>
+              {parsed.invalid.length > 0 && (
+                <span className="text-red-500">{parsed.invalid.length} unsupported</span>
+              )}
+            </div>
+
+            {hasFolders && (
+              <label className="flex items-center gap-2 text-sm mb-3">
+                Browser folders:
+                <select
+                  value={folderMode}
+                  onChange={(e) => setFolderMode(e.target.value as FolderMode)}
+                  className={`px-2 py-1 rounded-lg border ${
+                    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                >
+                  <option value="collections">Recreate as folders</option>
+                  <option value="tags">Convert to tags</option>
+                  <option value="ignore">Ignore</option>
+                </select>
+              </label>
+            )}
+
+            <ul className={`overflow-y-auto min-h-0 rounded-xl border divide-y text-sm ${
+              darkMode ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-100'
+            }`}>
+              {parsed.entries.slice(0, PREVIEW_LIMIT).map((entry, i) => (
+                <li key={i} className="px-3 py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-medium">{entry.title || getDomain(entry.url)}</p>
+                    <p className={`truncate text-xs ${mutedText}`}>
+                      {entry.folder.length > 0 && `${entry.folder.join(' / ')} · `}{entry.url}
+                    </p>
+                  </div>
+                  {preview.duplicates.includes(entry) && (
+                    <span className={`text-xs shrink-0 ${mutedText}`}>Duplicate</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {parsed.entries.length > PREVIEW_LIMIT && (
+              <p className={`text-xs mt-2 ${mutedText}`}>
+                and {parsed.entries.length - PREVIEW_LIMIT} more…
+              </p>
+            )}
+          </div>
+        )}
+
+        {progress && (
+          <div className="mb-4">
+            <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+              <div
+                className="h-full bg-linear-to-r from-blue-600 to-emerald-500 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+              />
+            </div>
+            <p className={`text-sm mt-2 ${mutedText}`}>
+              Imported {progress.done} of {progress.total}…
+            </p>
+          </div>
+        )}
+
+        {summary && (
+          <div className="flex flex-col min-h-0 text-sm space-y-3">
+            <p className="text-green-600 font-medium">
+              {summary.imported} bookmark{summary.imported === 1 ? '' : 's'} imported
+            </p>
+            {summary.duplicates.length > 0 && (
+              <p className={mutedText}>{summary.duplicates.length} skipped as duplicates</p>
+            )}
+            {summary.invalid.length > 0 && (
+              <details>
+                <summary className="cursor-pointer text-red-500">
+                  {summary.invalid.length} skipped with unsupported URLs
+                </summary>
+                <ul className={`mt-2 max-h-32 overflow-y-auto text-xs ${mutedText}`}>
+                  {summary.invalid.map((item, i) => (
+                    <li key={i} className="truncate">{item.title || '(untitled)'} — {item.url || '(no URL)'}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {summary.failed.length > 0 && (
+              <details open>
+                <summary className="cursor-pointer text-red-500">{summary.failed.length} failed</summary>
+                <ul className={`mt-2 max-h-32 overflow-y-auto text-xs ${mutedText}`}>
+                  {summary.failed.map(({ entry, reason }, i) => (
+                    <li key={i} className="truncate">{entry.url} — {reason}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          {!summary && (
+            <button
+              onClick={runImport}
+              disabled={!preview || preview.fresh.length === 0 || !!progress}
+              className="flex-1 px-4 py-2 bg-linear-to-r from-blue-600 to-emerald-500 text-white rounded-lg hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {progress ? 'Importing...' : preview ? `Import ${preview.fresh.length} Bookmarks` : 'Import'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className={`flex-1 px-4 py-2 rounded-lg transition-all disabled:opacity-50 ${
+              darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {summary ? 'Done' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
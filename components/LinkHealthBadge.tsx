@@ -0,0 +1,38 @@
+import { linkHealth, type Bookmark } from '@/lib/bookmarks'
+
+type LinkHealthBadgeProps = {
+  bookmark: Pick<Bookmark, 'url' | 'link_status' | 'link_final_url' | 'link_error' | 'link_checked_at'>
+}
+
+// Flags bookmarks whose last link check found a problem; healthy and
+// unchecked links show nothing
+export default function LinkHealthBadge({ bookmark }: LinkHealthBadgeProps) {
+  const health = linkHealth(bookmark)
+  const checked = bookmark.link_checked_at
+    ? `Checked ${new Date(bookmark.link_checked_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : ''
+
+  if (health === 'broken') {
+    return (
+      <span
+        title={`${bookmark.link_error ?? `The server answered ${bookmark.link_status}`}. ${checked}`}
+        className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs bg-red-500/15 text-red-500"
+      >
+        {bookmark.link_status ? `Broken · ${bookmark.link_status}` : 'Unreachable'}
+      </span>
+    )
+  }
+
+  if (health === 'redirected') {
+    return (
+      <span
+        title={`Now redirects to ${bookmark.link_final_url}. ${checked}`}
+        className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs bg-amber-500/15 text-amber-600"
+      >
+        Redirects
+      </span>
+    )
+  }
+
+  return null
+}
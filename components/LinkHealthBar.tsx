@@ -0,0 +1,52 @@
+import { linkHealth, type Bookmark } from '@/lib/bookmarks'
+
+type LinkHealthBarProps = {
+  bookmarks: Bookmark[]
+  onUpdateRedirected: (bookmarks: Bookmark[]) => void
+  onDeleteBroken: (ids: string[]) => void
+  darkMode: boolean
+}
+
+// Summary of problem links in the current view, with bulk fixes
+export default function LinkHealthBar({
+  bookmarks,
+  onUpdateRedirected,
+  onDeleteBroken,
+  darkMode,
+}: LinkHealthBarProps) {
+  const broken = bookmarks.filter(b => linkHealth(b) === 'broken')
+  const redirected = bookmarks.filter(b => linkHealth(b) === 'redirected')
+  if (broken.length === 0 && redirected.length === 0) return null
+
+  return (
+    <div className={`mb-6 p-3 rounded-xl border flex flex-wrap items-center gap-3 text-sm ${
+      darkMode ? 'bg-gray-800 border-gray-700 text-gray-300' : 'bg-white border-gray-200 text-gray-700'
+    }`}>
+      <span className="font-medium">Link health:</span>
+      {broken.length > 0 && (
+        <span className="flex items-center gap-2">
+          <span className="text-red-500">{broken.length} broken</span>
+          <button
+            onClick={() => onDeleteBroken(broken.map(b => b.id))}
+            title="Move every broken bookmark in this view to the trash"
+            className="px-2 py-1 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+          >
+            Delete broken
+          </button>
+        </span>
+      )}
+      {redirected.length > 0 && (
+        <span className="flex items-center gap-2">
+          <span className="text-amber-600">{redirected.length} redirected</span>
+          <button
+            onClick={() => onUpdateRedirected(redirected)}
+            title="Replace each redirected URL with the address it now points to"
+            className="px-2 py-1 text-xs rounded-lg bg-amber-500 text-white hover:bg-amber-600 transition-all"
+          >
+            Update URLs
+          </button>
+        </span>
+      )}
+    </div>
+  )
+}
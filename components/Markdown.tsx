@@ -0,0 +1,86 @@
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown'
+
+type MarkdownProps = {
+  source: string
+  darkMode: boolean
+  className?: string
+}
+
+const HEADING_CLASSES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium']
+
+function renderInline(nodes: MarkdownInline[], darkMode: boolean): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'code':
+        return (
+          <code key={i} className={`px-1 rounded text-[0.85em] ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+            {node.text}
+          </code>
+        )
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children, darkMode)}</strong>
+      case 'em':
+        return <em key={i}>{renderInline(node.children, darkMode)}</em>
+      case 'del':
+        return <del key={i}>{renderInline(node.children, darkMode)}</del>
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={`underline ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+          >
+            {renderInline(node.children, darkMode)}
+          </a>
+        )
+    }
+  })
+}
+
+function renderBlocks(blocks: MarkdownBlock[], darkMode: boolean): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i} className="whitespace-pre-line">{renderInline(block.children, darkMode)}</p>
+      case 'heading':
+        return (
+          <p key={i} className={HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]}>
+            {renderInline(block.children, darkMode)}
+          </p>
+        )
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul'
+        return (
+          <List key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, j) => (
+              <li key={j} className="whitespace-pre-line">{renderInline(item, darkMode)}</li>
+            ))}
+          </List>
+        )
+      }
+      case 'quote':
+        return (
+          <blockquote key={i} className={`pl-3 border-l-2 space-y-2 ${darkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+            {renderBlocks(block.blocks, darkMode)}
+          </blockquote>
+        )
+      case 'code':
+        return (
+          <pre key={i} className={`p-2 rounded-lg overflow-x-auto text-xs ${darkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+            <code>{block.text}</code>
+          </pre>
+        )
+      case 'rule':
+        return <hr key={i} className={darkMode ? 'border-gray-700' : 'border-gray-200'} />
+    }
+  })
+}
+
+// Renders a note. Everything goes through React as text, never as HTML.
+export default function Markdown({ source, darkMode, className = '' }: MarkdownProps) {
+  return <div className={`space-y-2 break-words ${className}`}>{renderBlocks(parseMarkdown(source), darkMode)}</div>
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+
+type ProfileSettingsProps = {
+  email: string | null
+  name: string
+  createdAt: string
+}
+
+const MAX_NAME_LENGTH = 100
+
+// Display name lives in the auth user's metadata, next to what OAuth providers fill in
+export default function ProfileSettings({ email, name: initialName, createdAt }: ProfileSettingsProps) {
+  const router = useRouter()
+  const [name, setName] = useState(initialName)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string, type: 'success' | 'error' } | null>(null)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+    const supabase = createClient()
+    const { error } = await supabase.auth.updateUser({ data: { full_name: name.trim() } })
+    setSaving(false)
+    if (error) {
+      setMessage({ text: error.message, type: 'error' })
+      return
+    }
+    setMessage({ text: 'Profile saved', type: 'success' })
+    router.refresh()
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-3">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-gray-500">Email</dt>
+        <dd className="text-gray-900 break-all">{email ?? 'None'}</dd>
+        <dt className="text-gray-500">Member since</dt>
+        <dd className="text-gray-900">
+          {new Date(createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+        </dd>
+      </dl>
+      <label className="block text-sm text-gray-500">
+        Display name
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={saving || name.trim() === initialName}
+          className="px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {message && (
+          <p className={`text-sm ${message.type === 'error' ? 'text-red-500' : 'text-green-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </form>
+  )
+}
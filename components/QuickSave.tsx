@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { saveBookmark } from '@/app/actions'
+import { getDomain } from '@/lib/bookmarks'
+import { buildCollectionTree, flattenCollectionTree, type Collection } from '@/lib/collections'
+import type { LibraryScope } from '@/lib/workspaces'
+import TagInput from '@/components/TagInput'
+
+type QuickSaveProps = {
+  scope: LibraryScope
+  // Shown for shared workspaces so it's clear where the link goes
+  workspaceName: string | null
+  url: string
+  initialTitle: string
+  collections: Collection[]
+  tagSuggestions: string[]
+  existing: { title: string, created_at: string } | null
+}
+
+type Status = 'idle' | 'saving' | 'saved' | 'duplicate'
+
+// How long the "Saved" message stays up before a bookmarklet popup closes
+const CLOSE_DELAY_MS = 1500
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Compact confirmation form behind /save, used by the bookmarklet popup and
+// the share target. Nothing is saved until the user confirms, so other sites
+// can't add bookmarks just by linking here.
+export default function QuickSave({ scope, workspaceName, url, initialTitle, collections, tagSuggestions, existing }: QuickSaveProps) {
+  const [title, setTitle] = useState(initialTitle)
+  const [tags, setTags] = useState<string[]>([])
+  const [collectionId, setCollectionId] = useState('')
+  const [status, setStatus] = useState<Status>(existing ? 'duplicate' : 'idle')
+  const [error, setError] = useState<string | null>(null)
+  const [duplicate, setDuplicate] = useState(existing)
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setStatus('saving')
+    setError(null)
+
+    // The page may have been open a while, so the server checks again for a
+    // copy saved in the meantime
+    const result = await saveBookmark(scope.workspaceId, {
+      url,
+      title: title.trim() || undefined,
+      collection_id: collectionId || null,
+      tags,
+    })
+    if ('error' in result) {
+      if (result.error.code === 'duplicate') {
+        setDuplicate({ title: title.trim() || getDomain(url), created_at: new Date().toISOString() })
+        setStatus('duplicate')
+      } else {
+        setError(result.error.message)
+        setStatus('idle')
+      }
+      return
+    }
+
+    if (result.warning) setError(result.warning)
+    setStatus('saved')
+    if (window.opener) {
+      setTimeout(() => window.close(), CLOSE_DELAY_MS)
+    }
+  }
+
+  const folderOptions = flattenCollectionTree(buildCollectionTree(collections))
+  const inputClass = 'w-full px-3 py-2 rounded-lg border text-sm bg-white border-gray-300 text-gray-900'
+  const secondaryButton = 'flex-1 px-4 py-2 rounded-lg text-sm text-center transition-all bg-gray-100 text-gray-700 hover:bg-gray-200'
+
+  if (status === 'saved' || status === 'duplicate') {
+    return (
+      <div className="text-center">
+        <p className="text-lg font-semibold mb-1">
+          {status === 'saved' ? 'Saved to SaveNest' : 'Already in SaveNest'}
+        </p>
+        <p className="text-sm text-gray-500 mb-1 truncate">
+          {status === 'saved' ? title.trim() || getDomain(url) : duplicate?.title}
+        </p>
+        {status === 'duplicate' && duplicate && (
+          <p className="text-xs text-gray-500 mb-1">Saved {formatDate(duplicate.created_at)}</p>
+        )}
+        {error && <p className="text-sm text-red-500 mb-1">{error}</p>}
+        <div className="flex gap-2 mt-5">
+          <Link href="/" className={secondaryButton}>Open SaveNest</Link>
+          <button onClick={() => window.close()} className="flex-1 px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all">
+            Close
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={save} className="flex flex-col gap-3">
+      <p className="text-sm text-blue-600 truncate" title={url}>{getDomain(url)}</p>
+      {workspaceName && <p className="text-xs text-gray-500 -mt-2">Saving to {workspaceName}</p>}
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Title (fetched from the page if empty)"
+        aria-label="Title"
+        className={inputClass}
+      />
+      {folderOptions.length > 0 && (
+        <select
+          value={collectionId}
+          onChange={(e) => setCollectionId(e.target.value)}
+          aria-label="Folder"
+          className={inputClass}
+        >
+          <option value="">No folder</option>
+          {folderOptions.map(({ collection, depth }) => (
+            <option key={collection.id} value={collection.id}>
+              {'\u00a0\u00a0'.repeat(depth)}{collection.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} darkMode={false} compact />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex gap-2 mt-2">
+        <button type="button" onClick={() => window.close()} className={secondaryButton}>
+          Cancel
+        </button>
+        <button
+          type="submit"
+          autoFocus
+          disabled={status === 'saving'}
+          className="flex-1 px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+        >
+          {status === 'saving' ? 'Saving...' : 'Save Bookmark'}
+        </button>
+      </div>
+    </form>
+  )
+}
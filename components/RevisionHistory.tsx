@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { BookmarkRevision } from '@/lib/bookmarks'
+
+type RevisionHistoryProps = {
+  bookmarkId: string
+  bookmarkTitle: string
+  onRestore: (revision: BookmarkRevision) => Promise<boolean>
+  onClose: () => void
+  darkMode: boolean
+}
+
+export default function RevisionHistory({
+  bookmarkId,
+  bookmarkTitle,
+  onRestore,
+  onClose,
+  darkMode,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<BookmarkRevision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .from('bookmark_revisions')
+      .select('id, bookmark_id, title, url, notes, created_at')
+      .eq('bookmark_id', bookmarkId)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          setError('Could not load the edit history.')
+        } else {
+          setRevisions(data)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [bookmarkId, supabase])
+
+  const restore = async (revision: BookmarkRevision) => {
+    setRestoringId(revision.id)
+    if (await onRestore(revision)) {
+      onClose()
+    } else {
+      setRestoringId(null)
+    }
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-title"
+        className={`rounded-2xl p-6 max-w-lg w-full max-h-[80vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="history-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Edit History
+        </h3>
+        <p className={`text-sm mb-4 truncate ${mutedText}`}>Earlier versions of &quot;{bookmarkTitle}&quot;</p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {!error && !revisions && <p className={`text-sm ${mutedText}`}>Loading...</p>}
+          {revisions?.length === 0 && (
+            <p className={`text-sm ${mutedText}`}>This bookmark hasn&apos;t been edited yet.</p>
+          )}
+          {revisions?.map(revision => (
+            <div
+              key={revision.id}
+              className={`rounded-xl border p-3 flex items-start gap-3 ${
+                darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{revision.title}</p>
+                <p className={`text-xs truncate ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>{revision.url}</p>
+                {revision.notes && (
+                  <p className={`text-xs mt-1 line-clamp-2 whitespace-pre-line ${mutedText}`}>{revision.notes}</p>
+                )}
+                <p className={`text-xs mt-1 ${mutedText}`}>
+                  Replaced {new Date(revision.created_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </p>
+              </div>
+              <button
+                onClick={() => restore(revision)}
+                disabled={restoringId !== null}
+                title="Restore this title, URL and notes"
+                className="px-3 py-1.5 text-xs rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+              >
+                {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className={`px-4 py-2 rounded-lg transition-all ${
+            darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { describeUserAgent, type AccountSession } from '@/lib/account'
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// Devices signed in to the account, with per-session and global sign-out
+export default function SessionList({ sessions: initialSessions }: { sessions: AccountSession[] }) {
+  const [sessions, setSessions] = useState(initialSessions)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [confirmEverywhere, setConfirmEverywhere] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const supabase = createClient()
+  const others = sessions.filter(session => !session.current)
+
+  const revoke = async (id: string) => {
+    setBusy(id)
+    setError(null)
+    const { error } = await supabase.rpc('revoke_account_session', { target: id })
+    setBusy(null)
+    if (error) {
+      setError('Could not sign out that session')
+      return
+    }
+    setSessions(prev => prev.filter(session => session.id !== id))
+  }
+
+  const signOutOthers = async () => {
+    setBusy('others')
+    setError(null)
+    const { error } = await supabase.auth.signOut({ scope: 'others' })
+    setBusy(null)
+    if (error) {
+      setError('Could not sign out the other sessions')
+      return
+    }
+    setSessions(prev => prev.filter(session => session.current))
+  }
+
+  const signOutEverywhere = async () => {
+    setBusy('global')
+    await supabase.auth.signOut({ scope: 'global' })
+    window.location.assign('/login')
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-gray-100">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-900">
+                {describeUserAgent(session.user_agent)}
+                {session.current && <span className="ml-2 text-xs text-green-600">This device</span>}
+              </p>
+              <p className="text-gray-500 truncate">
+                {session.ip ? `${session.ip} · ` : ''}active {formatDateTime(session.last_active_at)}
+              </p>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => revoke(session.id)}
+                disabled={busy !== null}
+                className="px-3 py-1.5 rounded-lg text-xs text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+              >
+                {busy === session.id ? 'Signing out...' : 'Sign Out'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex flex-wrap items-center gap-2">
+        {others.length > 0 && (
+          <button
+            onClick={signOutOthers}
+            disabled={busy !== null}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 transition-all disabled:opacity-50"
+          >
+            {busy === 'others' ? 'Signing out...' : 'Sign Out Other Sessions'}
+          </button>
+        )}
+        {confirmEverywhere ? (
+          <>
+            <span className="text-sm text-gray-600">Sign out on every device, including this one?</span>
+            <button
+              onClick={signOutEverywhere}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-lg text-sm bg-red-600 text-white hover:bg-red-700 transition-all disabled:opacity-50"
+            >
+              {busy === 'global' ? 'Signing out...' : 'Sign Out'}
+            </button>
+            <button
+              onClick={() => setConfirmEverywhere(false)}
+              className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-all"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirmEverywhere(true)}
+            className="px-4 py-2 rounded-lg text-sm text-red-600 hover:bg-red-50 transition-all"
+          >
+            Sign Out Everywhere
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  SHARED_LINK_COLUMNS,
+  generateShareToken,
+  isShareActive,
+  shareUrl,
+  type SharedLink,
+  type ShareTarget,
+} from '@/lib/shares'
+import type { LibraryScope } from '@/lib/workspaces'
+
+type ShareDialogProps = {
+  scope: LibraryScope
+  target: ShareTarget | null
+  onClose: () => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+  { label: 'Expires in 90 days', days: 90 },
+]
+
+const SCOPE_LABELS = {
+  tag: 'Tag',
+  collection: 'Folder',
+  selection: 'Selection',
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Publishes the current tag, folder or selection at a read-only public URL
+// and lists existing links with their view counts
+export default function ShareDialog({ scope, target, onClose, onNotify, darkMode }: ShareDialogProps) {
+  const [links, setLinks] = useState<SharedLink[] | null>(null)
+  const [title, setTitle] = useState(target?.label ?? '')
+  const [description, setDescription] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null)
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .from('shared_links')
+      .select(SHARED_LINK_COLUMNS)
+      .eq('user_id', scope.userId)
+      .eq('workspace_id', scope.workspaceId)
+      .order('created_at', { ascending: false })
+      .returns<SharedLink[]>()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        setLinks(error ? [] : data)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [scope.userId, scope.workspaceId, supabase])
+
+  const createLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!target || !title.trim()) return
+    setCreating(true)
+
+    const { data, error } = await supabase
+      .from('shared_links')
+      .insert([{
+        user_id: scope.userId,
+        workspace_id: scope.workspaceId,
+        token: generateShareToken(),
+        title: title.trim(),
+        description: description.trim() || null,
+        scope: target.scope,
+        tag_name: target.scope === 'tag' ? target.tagName : null,
+        collection_id: target.scope === 'collection' ? target.collectionId : null,
+        bookmark_ids: target.scope === 'selection' ? target.bookmarkIds : [],
+        expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000).toISOString() : null,
+      }])
+      .select(SHARED_LINK_COLUMNS)
+      .returns<SharedLink[]>()
+
+    if (error || data.length === 0) {
+      onNotify('Failed to create share link', 'error')
+    } else {
+      setLinks(prev => [data[0], ...(prev ?? [])])
+      setCreatedToken(data[0].token)
+    }
+    setCreating(false)
+  }
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(shareUrl(window.location.origin, token))
+    onNotify('Link copied to clipboard', 'success')
+  }
+
+  const revokeLink = async (id: string) => {
+    setConfirmRevokeId(null)
+    const { data, error } = await supabase
+      .from('shared_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(SHARED_LINK_COLUMNS)
+      .returns<SharedLink[]>()
+    if (error || data.length === 0) {
+      onNotify('Failed to revoke link', 'error')
+      return
+    }
+    setLinks(prev => prev?.map(link => link.id === id ? data[0] : link) ?? null)
+    onNotify('Link revoked', 'success')
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-title"
+        className={`rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="share-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Share Bookmarks
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Anyone with a link can view its bookmarks, and nothing else, until you revoke it.
+        </p>
+
+        {createdToken ? (
+          <div className={`rounded-xl border p-4 mb-4 ${darkMode ? 'border-emerald-700 bg-emerald-900/20' : 'border-emerald-200 bg-emerald-50'}`}>
+            <p className="text-sm font-medium mb-2">Your link is ready</p>
+            <div className="flex gap-2">
+              <code className={`flex-1 min-w-0 truncate px-3 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-900' : 'bg-white'}`}>
+                {shareUrl(window.location.origin, createdToken)}
+              </code>
+              <button
+                onClick={() => copyLink(createdToken)}
+                className="px-3 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        ) : target ? (
+          <form onSubmit={createLink} className="flex flex-col gap-2 mb-4">
+            <p className={`text-sm ${mutedText}`}>
+              Sharing: <span className={darkMode ? 'text-white' : 'text-gray-900'}>{target.label}</span>
+              {target.scope === 'selection' && ` (${target.bookmarkIds.length} bookmarks)`}
+            </p>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title shown to visitors"
+              aria-label="Title"
+              maxLength={200}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              aria-label="Description"
+              maxLength={1000}
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <select
+                value={expiresInDays ?? ''}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                aria-label="Link expiry"
+                className={`flex-1 ${inputClass}`}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={creating || !title.trim()}
+                className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create Link'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className={`text-sm mb-4 ${mutedText}`}>
+            Select bookmarks, or open a folder or a single tag, to create a new link.
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {!links && <p className={`text-sm ${mutedText}`}>Loading...</p>}
+          {links?.length === 0 && <p className={`text-sm ${mutedText}`}>No shared links yet.</p>}
+          {links?.map(link => {
+            const active = isShareActive(link)
+            return (
+              <div
+                key={link.id}
+                className={`rounded-xl border p-3 flex items-start gap-3 ${
+                  darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'
+                } ${active ? '' : 'opacity-60'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{link.title}</p>
+                  <p className={`text-xs ${mutedText}`}>
+                    {SCOPE_LABELS[link.scope]}
+                    {link.scope === 'tag' && ` #${link.tag_name}`}
+                    {link.scope === 'selection' && ` of ${link.bookmark_ids.length}`}
+                    {' · '}
+                    {link.view_count === 1 ? '1 view' : `${link.view_count} views`}
+                  </p>
+                  <p className={`text-xs mt-1 ${mutedText}`}>
+                    Created {formatDate(link.created_at)}
+                    {' · '}
+                    {link.revoked_at
+                      ? `revoked ${formatDate(link.revoked_at)}`
+                      : link.expires_at
+                        ? `${active ? 'expires' : 'expired'} ${formatDate(link.expires_at)}`
+                        : 'no expiry'}
+                  </p>
+                </div>
+                {active && (confirmRevokeId === link.id ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => revokeLink(link.id)}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+                    >
+                      Revoke
+                    </button>
+                    <button onClick={() => setConfirmRevokeId(null)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <button onClick={() => copyLink(link.token)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Copy Link
+                    </button>
+                    <button
+                      onClick={() => setConfirmRevokeId(link.id)}
+                      title="Stop this link from working"
+                      className={`px-3 py-1.5 text-xs rounded-lg transition-all ${
+                        darkMode ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-red-50'
+                      }`}
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+
+        <button onClick={onClose} className={`px-4 py-2 rounded-lg transition-all ${subtleButton}`}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_BINDINGS,
+  SHORTCUTS,
+  actionForBinding,
+  bindingKeys,
+  eventToBinding,
+  isMacPlatform,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/lib/shortcuts'
+
+type ShortcutsDialogProps = {
+  bindings: ShortcutBindings
+  onChange: (bindings: ShortcutBindings) => void
+  onClose: () => void
+  darkMode: boolean
+}
+
+const GROUPS = ['General', 'Navigation', 'Bookmarks'] as const
+
+// Lists every shortcut and lets each one be rebound by pressing the new
+// key. Changes are saved to the account through `onChange`.
+export default function ShortcutsDialog({ bindings, onChange, onClose, darkMode }: ShortcutsDialogProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isMac] = useState(isMacPlatform)
+
+  // Captured before the page's own listener so a key being recorded, or
+  // Escape, never also triggers a shortcut
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        if (recording) {
+          setRecording(null)
+        } else {
+          onClose()
+        }
+        return
+      }
+      if (!recording) return
+
+      e.preventDefault()
+      e.stopPropagation()
+      const binding = eventToBinding(e)
+      if (!binding) return
+
+      const owner = actionForBinding(bindings, binding)
+      if (owner && owner !== recording) {
+        const label = SHORTCUTS.find(shortcut => shortcut.action === owner)!.label
+        setMessage(`${bindingKeys(binding, isMac).join('+')} is already used for "${label}"`)
+        return
+      }
+      onChange({ ...bindings, [recording]: [binding] })
+      setRecording(null)
+      setMessage(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [recording, bindings, onChange, onClose, isMac])
+
+  const isDefault = (action: ShortcutAction) => bindings[action].join(' ') === DEFAULT_BINDINGS[action].join(' ')
+  const customized = SHORTCUTS.some(({ action }) => !isDefault(action))
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  const kbdClass = `px-1.5 py-0.5 rounded text-xs border ${darkMode ? 'border-gray-600 bg-gray-900' : 'border-gray-300 bg-gray-50'}`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className={`rounded-2xl p-6 max-w-lg w-full max-h-[85vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="shortcuts-title" className={`text-lg font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          Keyboard Shortcuts
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          Bookmark shortcuts act on the selected bookmarks, or on the highlighted one when nothing is selected.
+          Single keys don&apos;t fire while you&apos;re typing in a field. Click a shortcut to change it.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-4 mb-4">
+          {GROUPS.map(group => (
+            <section key={group}>
+              <h4 className={`text-xs font-semibold uppercase tracking-wide mb-1 ${mutedText}`}>{group}</h4>
+              <ul>
+                {SHORTCUTS.filter(shortcut => shortcut.group === group).map(({ action, label }) => (
+                  <li key={action} className="flex items-center gap-3 py-1.5">
+                    <span className="flex-1 text-sm">{label}</span>
+                    <button
+                      onClick={() => {
+                        setRecording(recording === action ? null : action)
+                        setMessage(null)
+                      }}
+                      title="Change this shortcut"
+                      className={`flex items-center gap-1 px-2 py-1 rounded-lg transition-all ${
+                        recording === action ? 'ring-2 ring-blue-500' : darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                      }`}
+                    >
+                      {recording === action ? (
+                        <span className="text-xs">Press a key...</span>
+                      ) : bindings[action].length === 0 ? (
+                        <span className={`text-xs ${mutedText}`}>None</span>
+                      ) : (
+                        bindings[action].map(binding => (
+                          <span key={binding} className="flex items-center gap-0.5">
+                            {bindingKeys(binding, isMac).map((key, i) => <kbd key={i} className={kbdClass}>{key}</kbd>)}
+                          </span>
+                        ))
+                      )}
+                    </button>
+                    <button
+                      onClick={() => onChange({ ...bindings, [action]: DEFAULT_BINDINGS[action] })}
+                      disabled={isDefault(action)}
+                      title="Go back to the default"
+                      className={`text-xs transition-all disabled:invisible ${mutedText} hover:underline`}
+                    >
+                      Reset
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        {message && <p className="text-sm text-red-500 mb-3">{message}</p>}
+        <div className="flex gap-3">
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            disabled={!customized}
+            className={`px-4 py-2 rounded-lg transition-all disabled:opacity-50 ${subtleButton}`}
+          >
+            Reset All
+          </button>
+          <button onClick={onClose} className={`flex-1 px-4 py-2 rounded-lg transition-all ${subtleButton}`}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { AuthError } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { OAUTH_PROVIDERS, authCallbackUrl, authErrorMessage, type OAuthProvider } from '@/lib/auth'
+
+type EmailMode = 'magic-link' | 'password' | 'sign-up'
+
+const PROVIDER_ICONS: Record<OAuthProvider, React.ReactNode> = {
+  google: (
+    <svg className="w-5 h-5" viewBox="0 0 24 24">
+      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+      <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+    </svg>
+  ),
+  github: (
+    <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M12 .5C5.65.5.5 5.65.5 12c0 5.08 3.29 9.39 7.86 10.91.58.1.79-.25.79-.56v-2c-3.2.7-3.87-1.37-3.87-1.37-.52-1.33-1.28-1.68-1.28-1.68-1.04-.71.08-.7.08-.7 1.15.08 1.76 1.18 1.76 1.18 1.03 1.76 2.69 1.25 3.35.96.1-.74.4-1.25.73-1.54-2.55-.29-5.24-1.28-5.24-5.69 0-1.26.45-2.28 1.18-3.09-.12-.29-.51-1.46.11-3.05 0 0 .97-.31 3.17 1.18a11 11 0 015.77 0c2.2-1.49 3.17-1.18 3.17-1.18.63 1.59.23 2.76.11 3.05.74.81 1.18 1.83 1.18 3.09 0 4.42-2.69 5.39-5.25 5.68.41.36.78 1.06.78 2.14v3.17c0 .31.21.67.8.56A11.5 11.5 0 0023.5 12C23.5 5.65 18.35.5 12 .5z"/>
+    </svg>
+  ),
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-gray-200 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Provider picker for the sign-in page. OAuth and email links come back
+// through /auth/callback; password sign-in sets the session right here.
+// Supabase links identities that share a verified email, so whichever
+// method someone picks they land in the same account.
+export default function SignInForm({ next }: { next: string }) {
+  const router = useRouter()
+  const [mode, setMode] = useState<EmailMode>('magic-link')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const fail = (authError: AuthError) => {
+    setError(authErrorMessage(authError.code))
+    setBusy(false)
+  }
+
+  const signInWith = async (provider: OAuthProvider) => {
+    setBusy(true)
+    setError(null)
+    const supabase = createClient()
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: authCallbackUrl(window.location.origin, next) },
+    })
+    // On success the browser is already on its way to the provider
+    if (error) fail(error)
+  }
+
+  const handleEmail = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const address = email.trim()
+    if (!address) return
+    setBusy(true)
+    setError(null)
+    const supabase = createClient()
+    const emailRedirectTo = authCallbackUrl(window.location.origin, next)
+
+    if (mode === 'magic-link') {
+      const { error } = await supabase.auth.signInWithOtp({ email: address, options: { emailRedirectTo } })
+      if (error) return fail(error)
+      setSentTo(address)
+    } else if (mode === 'sign-up') {
+      const { data, error } = await supabase.auth.signUp({ email: address, password, options: { emailRedirectTo } })
+      if (error) return fail(error)
+      // With email confirmation on there's no session until the link is clicked
+      if (!data.session) {
+        setSentTo(address)
+      } else {
+        router.push(next)
+        router.refresh()
+        return
+      }
+    } else {
+      const { error } = await supabase.auth.signInWithPassword({ email: address, password })
+      if (error) return fail(error)
+      router.push(next)
+      router.refresh()
+      return
+    }
+    setBusy(false)
+  }
+
+  const switchMode = (nextMode: EmailMode) => {
+    setMode(nextMode)
+    setError(null)
+  }
+
+  if (sentTo) {
+    return (
+      <div className="text-center">
+        <p className="text-gray-900 font-medium mb-2">Check your email</p>
+        <p className="text-gray-600 mb-6">
+          We sent a {mode === 'sign-up' ? 'confirmation' : 'sign-in'} link to {sentTo}. Open it in this browser to
+          continue.
+        </p>
+        <button
+          onClick={() => {
+            setSentTo(null)
+            setBusy(false)
+          }}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Use a different email
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {OAUTH_PROVIDERS.map(provider => (
+          <button
+            key={provider.id}
+            onClick={() => signInWith(provider.id)}
+            disabled={busy}
+            className="w-full px-6 py-3 bg-white text-gray-800 rounded-xl hover:shadow-lg transition-all duration-300 border-2 border-gray-200 hover:border-blue-600 flex items-center justify-center gap-3 font-medium shadow-sm disabled:opacity-50"
+          >
+            {PROVIDER_ICONS[provider.id]}
+            <span>Continue with {provider.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-sm text-gray-400">
+        <div className="flex-1 h-px bg-gray-200" />
+        or use your email
+        <div className="flex-1 h-px bg-gray-200" />
+      </div>
+
+      <form onSubmit={handleEmail} className="space-y-3 text-left">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          autoComplete="email"
+          aria-label="Email"
+          required
+          className={inputClass}
+        />
+        {mode !== 'magic-link' && (
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+            aria-label="Password"
+            minLength={mode === 'sign-up' ? 8 : undefined}
+            required
+            className={inputClass}
+          />
+        )}
+        {error && <p className="text-sm text-red-500" role="alert">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full px-6 py-3 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 transition-all disabled:opacity-50"
+        >
+          {busy
+            ? 'Please wait...'
+            : mode === 'magic-link'
+              ? 'Email Me a Sign-in Link'
+              : mode === 'sign-up'
+                ? 'Create Account'
+                : 'Sign In'}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm">
+        {mode !== 'magic-link' && (
+          <button onClick={() => switchMode('magic-link')} className="text-blue-600 hover:underline">
+            Use a sign-in link instead
+          </button>
+        )}
+        {mode !== 'password' && (
+          <button onClick={() => switchMode('password')} className="text-blue-600 hover:underline">
+            Sign in with a password
+          </button>
+        )}
+        {mode !== 'sign-up' && (
+          <button onClick={() => switchMode('sign-up')} className="text-blue-600 hover:underline">
+            Create an account
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
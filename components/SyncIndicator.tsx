@@ -0,0 +1,41 @@
+import type { SyncStatus } from '@/lib/bookmark-sync'
+
+type SyncIndicatorProps = {
+  status: SyncStatus
+  darkMode: boolean
+}
+
+const LABELS: Record<SyncStatus, string> = {
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...',
+  offline: 'Offline',
+}
+
+const DESCRIPTIONS: Record<SyncStatus, string> = {
+  connecting: 'Connecting to live updates',
+  live: 'Changes from other tabs and devices appear instantly',
+  reconnecting: 'Connection lost; changes will be caught up once it is back',
+  offline: 'You are offline; changes will be caught up when you reconnect',
+}
+
+const DOT_COLORS: Record<SyncStatus, string> = {
+  connecting: 'bg-gray-400',
+  live: 'bg-emerald-500',
+  reconnecting: 'bg-amber-500 animate-pulse',
+  offline: 'bg-red-500',
+}
+
+// Realtime connection state shown next to the bookmark count
+export default function SyncIndicator({ status, darkMode }: SyncIndicatorProps) {
+  return (
+    <span
+      role="status"
+      title={DESCRIPTIONS[status]}
+      className={`flex items-center gap-1.5 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+    >
+      <span className={`w-2 h-2 rounded-full ${DOT_COLORS[status]}`} aria-hidden="true" />
+      {LABELS[status]}
+    </span>
+  )
+}
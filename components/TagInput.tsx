@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { normalizeTagName } from '@/lib/tags'
+
+type TagInputProps = {
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions: string[]
+  darkMode: boolean
+  compact?: boolean
+}
+
+export default function TagInput({ value, onChange, suggestions, darkMode, compact = false }: TagInputProps) {
+  const [input, setInput] = useState('')
+  const [focused, setFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+
+  const query = normalizeTagName(input)
+  const matches = suggestions
+    .filter(name => !value.includes(name) && (!query || name.includes(query)))
+    .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)) || a.localeCompare(b))
+    .slice(0, 6)
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name)
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag])
+    }
+    setInput('')
+    setHighlighted(-1)
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'Enter':
+      case ',':
+      case 'Tab':
+        if (!input.trim() && highlighted < 0) return
+        e.preventDefault()
+        addTag(highlighted >= 0 && e.key !== ',' ? matches[highlighted] : input)
+        break
+      case 'Backspace':
+        if (!input && value.length > 0) {
+          removeTag(value[value.length - 1])
+        }
+        break
+      case 'ArrowDown':
+        e.preventDefault()
+        setHighlighted(prev => Math.min(prev + 1, matches.length - 1))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted(prev => Math.max(prev - 1, -1))
+        break
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className={`w-full flex flex-wrap items-center gap-1.5 border transition-all focus-within:ring-2 focus-within:ring-blue-600 focus-within:border-transparent ${
+        compact ? 'px-3 py-1.5 rounded-lg text-sm' : 'px-4 py-2.5 rounded-xl'
+      } ${
+        darkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'
+      }`}>
+        {value.map(tag => (
+          <span
+            key={tag}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+              darkMode ? 'bg-blue-900/60 text-blue-200' : 'bg-blue-50 text-blue-700'
+            }`}
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+              className="hover:text-red-500"
+            >
+              &times;
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setHighlighted(-1)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false)
+            if (input.trim()) addTag(input)
+          }}
+          placeholder={value.length === 0 ? 'Add tags (press Enter or comma)' : ''}
+          aria-label="Add tag"
+          className={`flex-1 min-w-24 bg-transparent focus:outline-none py-0.5 ${
+            darkMode ? 'text-white placeholder:text-gray-400' : 'text-gray-900 placeholder:text-gray-400'
+          }`}
+        />
+      </div>
+      {focused && matches.length > 0 && (
+        <ul className={`absolute z-20 mt-1 w-full rounded-xl border shadow-lg overflow-hidden ${
+          darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+          {matches.map((name, i) => (
+            <li key={name}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  addTag(name)
+                }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full text-left px-4 py-2 text-sm ${
+                  i === highlighted
+                    ? darkMode ? 'bg-gray-700 text-white' : 'bg-blue-50 text-gray-900'
+                    : darkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}
+              >
+                #{name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { bookmarkColumns, getDomain, type Bookmark } from '@/lib/bookmarks'
+import { deleteBookmarksForever, emptyWorkspaceTrash } from '@/app/actions'
+
+type TrashViewProps = {
+  workspaceId: string
+  // Viewers can look through the trash but not restore or delete
+  canEdit: boolean
+  onRestore: (ids: string[]) => Promise<boolean>
+  onNotify: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+const TRASH_LIMIT = 500
+
+export default function TrashView({ workspaceId, canEdit, onRestore, onNotify, darkMode }: TrashViewProps) {
+  const [items, setItems] = useState<Bookmark[] | null>(null)
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [confirmId, setConfirmId] = useState<string | null>(null)
+  const [confirmEmpty, setConfirmEmpty] = useState(false)
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      supabase
+        .from('bookmarks')
+        .select(bookmarkColumns())
+        .eq('workspace_id', workspaceId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+        .limit(TRASH_LIMIT)
+        .returns<Bookmark[]>(),
+      supabase.rpc('trash_retention_days'),
+    ]).then(([{ data, error }, { data: days }]) => {
+      if (cancelled) return
+      setItems(error ? [] : data)
+      if (typeof days === 'number') setRetentionDays(days)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId, supabase])
+
+  const restore = async (id: string) => {
+    setBusyId(id)
+    if (await onRestore([id])) {
+      setItems(prev => prev?.filter(item => item.id !== id) ?? null)
+    }
+    setBusyId(null)
+  }
+
+  const deleteForever = async (id: string) => {
+    setBusyId(id)
+    const result = await deleteBookmarksForever([id])
+    if ('error' in result) {
+      onNotify(result.error.message, 'error')
+    } else {
+      setItems(prev => prev?.filter(item => item.id !== id) ?? null)
+      onNotify('Bookmark permanently deleted', 'success')
+    }
+    setBusyId(null)
+    setConfirmId(null)
+  }
+
+  const emptyTrash = async () => {
+    setConfirmEmpty(false)
+    const result = await emptyWorkspaceTrash(workspaceId)
+    if ('error' in result) {
+      onNotify(result.error.message, 'error')
+    } else {
+      setItems([])
+      onNotify('Trash emptied', 'success')
+    }
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <div className="flex-1">
+          <h2 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>Trash</h2>
+          <p className={`text-sm ${mutedText}`}>
+            {retentionDays
+              ? `Bookmarks in the trash are permanently deleted after ${retentionDays} days.`
+              : 'Bookmarks in the trash are permanently deleted after a while.'}
+          </p>
+        </div>
+        {canEdit && items && items.length > 0 && (confirmEmpty ? (
+          <div className="flex gap-2">
+            <button
+              onClick={emptyTrash}
+              className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all text-sm"
+            >
+              Delete {items.length} forever
+            </button>
+            <button onClick={() => setConfirmEmpty(false)} className={`px-3 py-2 rounded-lg transition-all text-sm ${subtleButton}`}>
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmEmpty(true)}
+            title="Permanently delete everything in the trash"
+            className="px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all text-sm"
+          >
+            Empty Trash
+          </button>
+        ))}
+      </div>
+
+      {!items && <p className={`text-sm ${mutedText}`}>Loading...</p>}
+      {items?.length === 0 && (
+        <div className={`text-center py-16 rounded-2xl ${darkMode ? 'bg-gray-800/50' : 'bg-white/50'}`}>
+          <p className={mutedText}>The trash is empty.</p>
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {items?.map(item => (
+          <li
+            key={item.id}
+            className={`rounded-xl border p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${
+              darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className={`font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{item.title}</p>
+              <p className={`text-sm truncate ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>{getDomain(item.url)}</p>
+              {item.deleted_at && (
+                <p className={`text-xs mt-1 ${mutedText}`}>
+                  Deleted {new Date(item.deleted_at).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </p>
+              )}
+            </div>
+            {canEdit && (
+              <div className="flex gap-2">
+                {confirmId === item.id ? (
+                  <>
+                    <button
+                      onClick={() => deleteForever(item.id)}
+                      disabled={busyId === item.id}
+                      className="px-3 py-2 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all disabled:opacity-50"
+                    >
+                      Delete forever
+                    </button>
+                    <button onClick={() => setConfirmId(null)} className={`px-3 py-2 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => restore(item.id)}
+                      disabled={busyId === item.id}
+                      title="Move this bookmark back out of the trash"
+                      className="px-3 py-2 text-xs rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => setConfirmId(item.id)}
+                      disabled={busyId === item.id}
+                      title="Permanently delete this bookmark"
+                      className={`px-3 py-2 text-xs rounded-lg transition-all disabled:opacity-50 ${
+                        darkMode ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-red-50'
+                      }`}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useWindowVirtualizer } from '@tanstack/react-virtual'
+import type { ViewMode } from '@/lib/bookmarks'
+
+type VirtualBookmarkListProps<T extends { id: string }> = {
+  items: T[]
+  viewMode: ViewMode
+  // Scrolled into view whenever it changes
+  focusedIndex?: number | null
+  hasMore: boolean
+  loadingMore: boolean
+  onEndReached: () => void
+  renderItem: (item: T, index: number) => React.ReactNode
+  darkMode: boolean
+}
+
+const MIN_CARD_WIDTH = 260
+const ESTIMATED_HEIGHTS: Record<ViewMode, number> = { grid: 220, cards: 360, list: 150 }
+const MAX_COLUMNS = 4
+
+// Renders only the rows near the viewport. Grid and card modes pack as many
+// columns as fit the container, so each virtual row holds several cards.
+export default function VirtualBookmarkList<T extends { id: string }>({
+  items,
+  viewMode,
+  focusedIndex = null,
+  hasMore,
+  loadingMore,
+  onEndReached,
+  renderItem,
+  darkMode,
+}: VirtualBookmarkListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [columns, setColumns] = useState(1)
+  const [scrollMargin, setScrollMargin] = useState(0)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const measure = () => {
+      const width = container.getBoundingClientRect().width
+      setColumns(viewMode !== 'list'
+        ? Math.max(1, Math.min(MAX_COLUMNS, Math.floor(width / MIN_CARD_WIDTH)))
+        : 1)
+      setScrollMargin(container.getBoundingClientRect().top + window.scrollY)
+    }
+
+    const observer = new ResizeObserver(measure)
+    observer.observe(container)
+    observer.observe(document.body)
+    return () => observer.disconnect()
+  }, [viewMode])
+
+  const rowCount = Math.ceil(items.length / columns)
+  const gap = viewMode === 'list' ? 12 : 16
+
+  const virtualizer = useWindowVirtualizer({
+    count: rowCount,
+    estimateSize: () => ESTIMATED_HEIGHTS[viewMode],
+    overscan: 4,
+    gap,
+    scrollMargin,
+  })
+
+  useEffect(() => {
+    if (focusedIndex !== null) virtualizer.scrollToIndex(Math.floor(focusedIndex / columns), { align: 'auto' })
+  }, [focusedIndex, columns, virtualizer])
+
+  const virtualRows = virtualizer.getVirtualItems()
+  const lastVisibleRow = virtualRows[virtualRows.length - 1]?.index ?? -1
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastVisibleRow >= rowCount - 3) {
+      onEndReached()
+    }
+  }, [hasMore, loadingMore, lastVisibleRow, rowCount, onEndReached])
+
+  return (
+    <div ref={containerRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualRows.map(row => (
+          <div
+            key={row.key}
+            data-index={row.index}
+            ref={virtualizer.measureElement}
+            className={`absolute top-0 left-0 w-full ${viewMode === 'list' ? '' : 'grid gap-4'}`}
+            style={{
+              transform: `translateY(${row.start - virtualizer.options.scrollMargin}px)`,
+              gridTemplateColumns: viewMode === 'list' ? undefined : `repeat(${columns}, minmax(0, 1fr))`,
+            }}
+          >
+            {items
+              .slice(row.index * columns, (row.index + 1) * columns)
+              .map((item, i) => renderItem(item, row.index * columns + i))}
+          </div>
+        ))}
+      </div>
+      {(hasMore || loadingMore) && (
+        <p className={`text-center text-sm py-6 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {loadingMore ? 'Loading more bookmarks...' : ''}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,480 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import {
+  ROLE_LABELS,
+  WORKSPACE_INVITE_COLUMNS,
+  generateInviteToken,
+  inviteUrl,
+  isInvitePending,
+  rememberWorkspace,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from '@/lib/workspaces'
+
+type WorkspaceDialogProps = {
+  userId: string
+  workspace: WorkspaceMembership
+  onClose: () => void
+  onNotify: (message: string, type: 'success' | 'error') => void
+  darkMode: boolean
+}
+
+type InviteRole = WorkspaceInvite['role']
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+function inviteMailto(email: string, workspaceName: string, link: string) {
+  const subject = `Join ${workspaceName} on SaveNest`
+  const body = `You've been invited to the "${workspaceName}" bookmarks on SaveNest.\n\nAccept the invitation here:\n${link}`
+  return `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+}
+
+// Members, invitations and settings for the active workspace, plus creating
+// new ones. Only owners see the controls that change membership.
+export default function WorkspaceDialog({ userId, workspace, onClose, onNotify, darkMode }: WorkspaceDialogProps) {
+  const router = useRouter()
+  const [members, setMembers] = useState<WorkspaceMember[] | null>(null)
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([])
+  const [newName, setNewName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState(workspace.name)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<InviteRole>('editor')
+  const [inviting, setInviting] = useState(false)
+  const [createdInvite, setCreatedInvite] = useState<WorkspaceInvite | null>(null)
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null)
+  const [confirmLeave, setConfirmLeave] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const supabase = createClient()
+  const isOwner = workspace.role === 'owner'
+  const canInvite = isOwner && !workspace.personal
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      supabase
+        .from('workspace_members')
+        .select('user_id, email, role, created_at')
+        .eq('workspace_id', workspace.id)
+        .order('created_at')
+        .returns<WorkspaceMember[]>(),
+      canInvite
+        ? supabase
+            .from('workspace_invites')
+            .select(WORKSPACE_INVITE_COLUMNS)
+            .eq('workspace_id', workspace.id)
+            .order('created_at', { ascending: false })
+            .returns<WorkspaceInvite[]>()
+        : Promise.resolve({ data: [] as WorkspaceInvite[] }),
+    ]).then(([{ data: memberData, error }, { data: inviteData }]) => {
+      if (cancelled) return
+      setMembers(error ? [] : memberData)
+      setInvites(inviteData ?? [])
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspace.id, canInvite, supabase])
+
+  const switchAway = (workspaceId: string | null) => {
+    rememberWorkspace(workspaceId)
+    onClose()
+    router.refresh()
+  }
+
+  const createWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    setCreating(true)
+    const { data, error } = await supabase.rpc('create_workspace', { workspace_name: newName.trim() })
+    setCreating(false)
+    if (error || !data) {
+      onNotify('Failed to create workspace', 'error')
+      return
+    }
+    onNotify(`Workspace "${newName.trim()}" created`, 'success')
+    switchAway(data as string)
+  }
+
+  const renameWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || name.trim() === workspace.name) return
+    const { data, error } = await supabase
+      .from('workspaces')
+      .update({ name: name.trim() })
+      .eq('id', workspace.id)
+      .select('id')
+    if (error || data.length === 0) {
+      onNotify('Failed to rename workspace', 'error')
+      return
+    }
+    onNotify('Workspace renamed', 'success')
+    router.refresh()
+  }
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const email = inviteEmail.trim().toLowerCase()
+    if (!email) return
+    setInviting(true)
+    const { data, error } = await supabase
+      .from('workspace_invites')
+      .insert([{
+        workspace_id: workspace.id,
+        email,
+        role: inviteRole,
+        token: generateInviteToken(),
+        invited_by: userId,
+      }])
+      .select(WORKSPACE_INVITE_COLUMNS)
+      .returns<WorkspaceInvite[]>()
+    setInviting(false)
+    if (error || data.length === 0) {
+      onNotify('Failed to create invitation', 'error')
+      return
+    }
+    setInvites(prev => [data[0], ...prev])
+    setCreatedInvite(data[0])
+    setInviteEmail('')
+  }
+
+  const copyInvite = async (token: string) => {
+    await navigator.clipboard.writeText(inviteUrl(window.location.origin, token))
+    onNotify('Invitation link copied', 'success')
+  }
+
+  const cancelInvite = async (id: string) => {
+    const { error } = await supabase.from('workspace_invites').delete().eq('id', id)
+    if (error) {
+      onNotify('Failed to cancel invitation', 'error')
+      return
+    }
+    setInvites(prev => prev.filter(item => item.id !== id))
+    if (createdInvite?.id === id) setCreatedInvite(null)
+  }
+
+  const changeRole = async (memberId: string, role: WorkspaceRole) => {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspace.id)
+      .eq('user_id', memberId)
+      .select('user_id')
+    if (error || data.length === 0) {
+      onNotify('Failed to change role', 'error')
+      return
+    }
+    setMembers(prev => prev?.map(member => member.user_id === memberId ? { ...member, role } : member) ?? null)
+  }
+
+  const removeMember = async (memberId: string) => {
+    setConfirmRemoveId(null)
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspace.id)
+      .eq('user_id', memberId)
+    if (error) {
+      onNotify('Failed to remove member', 'error')
+      return
+    }
+    setMembers(prev => prev?.filter(member => member.user_id !== memberId) ?? null)
+    onNotify('Member removed', 'success')
+  }
+
+  const leaveWorkspace = async () => {
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspace.id)
+      .eq('user_id', userId)
+    if (error) {
+      onNotify('Failed to leave workspace', 'error')
+      return
+    }
+    onNotify(`You left ${workspace.name}`, 'success')
+    switchAway(null)
+  }
+
+  const deleteWorkspace = async () => {
+    const { error } = await supabase.from('workspaces').delete().eq('id', workspace.id)
+    if (error) {
+      onNotify('Failed to delete workspace', 'error')
+      return
+    }
+    onNotify(`Deleted ${workspace.name}`, 'success')
+    switchAway(null)
+  }
+
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500'
+  const headingText = darkMode ? 'text-white' : 'text-gray-900'
+  const inputClass = `px-3 py-2 rounded-lg border text-sm ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`
+  const subtleButton = darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  const dangerLink = darkMode ? 'text-gray-300 hover:text-red-400 hover:bg-gray-700' : 'text-red-600 hover:bg-red-50'
+  const rowClass = `rounded-xl border p-3 flex items-center gap-3 ${
+    darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'
+  }`
+  const pendingInvites = invites.filter(isInvitePending)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="workspace-title"
+        className={`rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col ${
+          darkMode ? 'bg-gray-800 border border-gray-700 text-gray-200' : 'bg-white border border-gray-200 text-gray-800'
+        }`}
+      >
+        <h3 id="workspace-title" className={`text-lg font-semibold mb-1 ${headingText}`}>
+          {workspace.name}
+        </h3>
+        <p className={`text-sm mb-4 ${mutedText}`}>
+          {workspace.personal
+            ? 'Your personal workspace is private. Create a shared workspace to collect links with others.'
+            : `You are ${workspace.role === 'viewer' ? 'a' : 'an'} ${ROLE_LABELS[workspace.role].toLowerCase()}. Editors can change bookmarks; viewers can only read them.`}
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-6 mb-4">
+          {isOwner && !workspace.personal && (
+            <form onSubmit={renameWorkspace} className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                aria-label="Workspace name"
+                maxLength={100}
+                className={`flex-1 ${inputClass}`}
+              />
+              <button
+                type="submit"
+                disabled={!name.trim() || name.trim() === workspace.name}
+                className={`px-4 py-2 text-sm rounded-lg transition-all disabled:opacity-50 ${subtleButton}`}
+              >
+                Rename
+              </button>
+            </form>
+          )}
+
+          <section>
+            <h4 className={`text-sm font-medium mb-2 ${headingText}`}>Members</h4>
+            {!members && <p className={`text-sm ${mutedText}`}>Loading...</p>}
+            <div className="space-y-2">
+              {members?.map(member => (
+                <div key={member.user_id} className={rowClass}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">
+                      {member.email ?? 'Unknown member'}
+                      {member.user_id === userId && <span className={mutedText}> (you)</span>}
+                    </p>
+                    <p className={`text-xs ${mutedText}`}>Joined {formatDate(member.created_at)}</p>
+                  </div>
+                  {isOwner && member.user_id !== userId ? (
+                    confirmRemoveId === member.user_id ? (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => removeMember(member.user_id)}
+                          className="px-3 py-1.5 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+                        >
+                          Remove
+                        </button>
+                        <button onClick={() => setConfirmRemoveId(null)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <select
+                          value={member.role}
+                          onChange={(e) => changeRole(member.user_id, e.target.value as WorkspaceRole)}
+                          aria-label={`Role for ${member.email ?? 'member'}`}
+                          className={`${inputClass} py-1.5 text-xs`}
+                        >
+                          {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setConfirmRemoveId(member.user_id)}
+                          title="Remove from this workspace"
+                          className={`px-3 py-1.5 text-xs rounded-lg transition-all ${dangerLink}`}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    )
+                  ) : (
+                    <span className={`text-xs ${mutedText}`}>{ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {canInvite && (
+            <section>
+              <h4 className={`text-sm font-medium mb-2 ${headingText}`}>Invite people</h4>
+              <form onSubmit={invite} className="flex gap-2 mb-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  aria-label="Email to invite"
+                  required
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                  aria-label="Role for the invitation"
+                  className={inputClass}
+                >
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+                <button
+                  type="submit"
+                  disabled={inviting || !inviteEmail.trim()}
+                  className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+                >
+                  {inviting ? 'Inviting...' : 'Invite'}
+                </button>
+              </form>
+              <p className={`text-xs mb-3 ${mutedText}`}>
+                Invitations work for 7 days and only for the invited email address.
+              </p>
+
+              {createdInvite && (
+                <div className={`rounded-xl border p-4 mb-3 ${darkMode ? 'border-emerald-700 bg-emerald-900/20' : 'border-emerald-200 bg-emerald-50'}`}>
+                  <p className="text-sm font-medium mb-2">Send this link to {createdInvite.email}</p>
+                  <div className="flex gap-2">
+                    <code className={`flex-1 min-w-0 truncate px-3 py-2 rounded-lg text-sm ${darkMode ? 'bg-gray-900' : 'bg-white'}`}>
+                      {inviteUrl(window.location.origin, createdInvite.token)}
+                    </code>
+                    <button
+                      onClick={() => copyInvite(createdInvite.token)}
+                      className="px-3 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all"
+                    >
+                      Copy
+                    </button>
+                    <a
+                      href={inviteMailto(createdInvite.email, workspace.name, inviteUrl(window.location.origin, createdInvite.token))}
+                      className={`px-3 py-2 text-sm rounded-lg transition-all ${subtleButton}`}
+                    >
+                      Email
+                    </a>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {pendingInvites.map(item => (
+                  <div key={item.id} className={rowClass}>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{item.email}</p>
+                      <p className={`text-xs ${mutedText}`}>
+                        {ROLE_LABELS[item.role]} · expires {formatDate(item.expires_at)}
+                      </p>
+                    </div>
+                    <button onClick={() => copyInvite(item.token)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Copy Link
+                    </button>
+                    <button
+                      onClick={() => cancelInvite(item.id)}
+                      title="Stop this invitation from working"
+                      className={`px-3 py-1.5 text-xs rounded-lg transition-all ${dangerLink}`}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section>
+            <h4 className={`text-sm font-medium mb-2 ${headingText}`}>New workspace</h4>
+            <form onSubmit={createWorkspace} className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Team or project name"
+                aria-label="New workspace name"
+                maxLength={100}
+                className={`flex-1 ${inputClass}`}
+              />
+              <button
+                type="submit"
+                disabled={creating || !newName.trim()}
+                className="px-4 py-2 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create'}
+              </button>
+            </form>
+          </section>
+
+          {!workspace.personal && (
+            <section className="flex flex-wrap items-center gap-2">
+              {isOwner ? (
+                confirmDelete ? (
+                  <>
+                    <span className={`text-sm ${mutedText}`}>Delete the workspace and all of its bookmarks?</span>
+                    <button
+                      onClick={deleteWorkspace}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+                    >
+                      Delete workspace
+                    </button>
+                    <button onClick={() => setConfirmDelete(false)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => setConfirmDelete(true)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${dangerLink}`}>
+                    Delete workspace...
+                  </button>
+                )
+              ) : confirmLeave ? (
+                <>
+                  <span className={`text-sm ${mutedText}`}>You will need a new invitation to come back.</span>
+                  <button
+                    onClick={leaveWorkspace}
+                    className="px-3 py-1.5 text-xs rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all"
+                  >
+                    Leave
+                  </button>
+                  <button onClick={() => setConfirmLeave(false)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${subtleButton}`}>
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button onClick={() => setConfirmLeave(true)} className={`px-3 py-1.5 text-xs rounded-lg transition-all ${dangerLink}`}>
+                  Leave workspace...
+                </button>
+              )}
+            </section>
+          )}
+        </div>
+
+        <button onClick={onClose} className={`px-4 py-2 rounded-lg transition-all ${subtleButton}`}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
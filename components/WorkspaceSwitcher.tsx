@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { ROLE_LABELS, rememberWorkspace, type WorkspaceMembership } from '@/lib/workspaces'
+
+type WorkspaceSwitcherProps = {
+  userId: string
+  workspaces: WorkspaceMembership[]
+  activeId: string
+  onManage: () => void
+  darkMode: boolean
+}
+
+// Header control for moving between workspaces. The choice is kept in a
+// cookie so the server renders the same workspace on the next visit.
+export default function WorkspaceSwitcher({ userId, workspaces, activeId, onManage, darkMode }: WorkspaceSwitcherProps) {
+  const router = useRouter()
+
+  // Joining, leaving or a role change elsewhere shows up without a reload
+  useEffect(() => {
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`workspace-members-${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'workspace_members', filter: `user_id=eq.${userId}` }, () => {
+        router.refresh()
+      })
+      .subscribe()
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, router])
+
+  const switchTo = (id: string) => {
+    rememberWorkspace(id)
+    router.refresh()
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={activeId}
+        onChange={(e) => switchTo(e.target.value)}
+        aria-label="Workspace"
+        className={`max-w-44 px-3 py-2 text-sm rounded-xl border transition-all ${
+          darkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-700'
+        }`}
+      >
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}{workspace.role === 'viewer' ? ` (${ROLE_LABELS.viewer})` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onManage}
+        title="Manage workspaces, members and invitations"
+        aria-label="Manage workspaces"
+        className={`p-2 rounded-xl transition-all border border-transparent hover:shadow-sm ${
+          darkMode
+            ? 'text-gray-300 hover:text-white hover:bg-gray-800 hover:border-gray-700'
+            : 'text-gray-600 hover:text-gray-900 hover:bg-white hover:border-gray-200'
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+export const ACCESS_TOKEN_SCOPES = {
+  'bookmarks:read': 'List and read bookmarks',
+  'bookmarks:write': 'Create, update and delete bookmarks',
+} as const
+
+export type AccessTokenScope = keyof typeof ACCESS_TOKEN_SCOPES
+
+// A personal access token as listed in the UI; the hash never leaves the server
+export type AccessToken = {
+  id: string
+  name: string
+  token_prefix: string
+  scopes: AccessTokenScope[]
+  expires_at: string | null
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export const ACCESS_TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at'
+
+export function isAccessTokenScope(value: unknown): value is AccessTokenScope {
+  return typeof value === 'string' && Object.hasOwn(ACCESS_TOKEN_SCOPES, value)
+}
+
+export function isTokenActive(token: Pick<AccessToken, 'expires_at' | 'revoked_at'>) {
+  return !token.revoked_at && (!token.expires_at || new Date(token.expires_at) > new Date())
+}
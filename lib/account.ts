@@ -0,0 +1,44 @@
+// One row of get_account_sessions()
+export type AccountSession = {
+  id: string
+  user_agent: string | null
+  ip: string | null
+  created_at: string
+  last_active_at: string
+  current: boolean
+}
+
+// What the delete form has to be given back before anything is removed
+export const DELETE_CONFIRMATION = 'DELETE'
+
+export const PROVIDER_LABELS: Record<string, string> = {
+  email: 'Email',
+  google: 'Google',
+  github: 'GitHub',
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+]
+
+// "Firefox on Linux" from a user agent string; good enough to recognise a device
+export function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device'
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  if (browser && system) return `${browser} on ${system}`
+  return browser ?? system ?? userAgent.slice(0, 60)
+}
@@ -0,0 +1,65 @@
+export type OAuthProvider = 'google' | 'github'
+
+export const OAUTH_PROVIDERS: { id: OAuthProvider; label: string }[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'github', label: 'GitHub' },
+]
+
+// Stand-in origin for resolving `next`; only the path part is ever used
+const NEXT_PATH_BASE = 'http://savenest.invalid'
+
+// Only same-origin paths, so `next` can't be used as an open redirect.
+// Resolved the way a browser would, which drops tabs and newlines and reads
+// backslashes as slashes, so tricks like "/\t/evil.com" end up off-origin.
+export function safeNextPath(requested: string | null | undefined) {
+  if (!requested?.startsWith('/')) return '/'
+  try {
+    const url = new URL(requested, NEXT_PATH_BASE)
+    return url.origin === NEXT_PATH_BASE ? `${url.pathname}${url.search}${url.hash}` : '/'
+  } catch {
+    return '/'
+  }
+}
+
+// Where OAuth providers and email links send the user back to
+export function authCallbackUrl(origin: string, next: string) {
+  return `${origin}/auth/callback${next !== '/' ? `?next=${encodeURIComponent(next)}` : ''}`
+}
+
+export function signInUrl(next?: string) {
+  return next && next !== '/' ? `/login?next=${encodeURIComponent(next)}` : '/login'
+}
+
+// Supabase error codes people actually run into, in words they can act on.
+// Codes come from AuthError.code on the client and from the `error_code`
+// the provider redirect or the code exchange reports to /auth/callback.
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'Sign-in was cancelled. Pick a sign-in method to try again.',
+  otp_expired: 'That sign-in link has expired or was already used. Request a new one.',
+  flow_state_expired: 'The sign-in took too long to finish. Please start again.',
+  flow_state_not_found: 'The sign-in was started in another browser or tab. Open the link in the browser you requested it from.',
+  bad_code_verifier: 'The sign-in was started in another browser or tab. Open the link in the browser you requested it from.',
+  bad_oauth_state: 'The sign-in request could not be verified. Please start again.',
+  bad_oauth_callback: 'The sign-in provider sent back an incomplete response. Please try again.',
+  invalid_credentials: 'That email and password don\'t match. If you signed up with Google or GitHub, use that button or email yourself a sign-in link.',
+  email_not_confirmed: 'Confirm your email address first. Check your inbox for the confirmation link.',
+  user_already_exists: 'An account with this email already exists. Sign in instead.',
+  email_exists: 'An account with this email already exists. Sign in instead.',
+  identity_already_exists: 'That account is already connected to a different SaveNest user.',
+  manual_linking_disabled: 'Connecting sign-in methods is not enabled for this site.',
+  single_identity_not_deletable: 'You need at least one way to sign in. Connect another method first.',
+  provider_email_needs_verification: 'Check your inbox: confirm this email address to connect the accounts.',
+  weak_password: 'That password is too weak. Use a longer one with a mix of letters, numbers and symbols.',
+  email_address_invalid: 'Enter a valid email address.',
+  provider_disabled: 'That sign-in method is not enabled for this site.',
+  email_provider_disabled: 'Email sign-in is not enabled for this site.',
+  signup_disabled: 'New sign-ups are closed.',
+  user_banned: 'This account has been suspended.',
+  over_email_send_rate_limit: 'Too many emails were sent. Wait a minute before asking for another.',
+  over_request_rate_limit: 'Too many attempts. Wait a minute and try again.',
+  missing_code: 'The sign-in link is incomplete. Request a new one.',
+}
+
+export function authErrorMessage(code: string | null | undefined) {
+  return (code && Object.hasOwn(AUTH_ERROR_MESSAGES, code) && AUTH_ERROR_MESSAGES[code]) || 'There was a problem signing you in. Please try again.'
+}
@@ -0,0 +1,124 @@
+import { MAX_NOTES_LENGTH, READ_STATES, type ReadState } from '@/lib/bookmarks'
+
+// Validation for bookmark fields, shared by the app's server actions and the
+// REST API. The limits and the http(s)-only rule match the check constraints
+// on the bookmarks table, so a write that passes here won't be refused there.
+
+export const MAX_URL_LENGTH = 2048
+export const MAX_TITLE_LENGTH = 500
+export const MAX_DESCRIPTION_LENGTH = 1000
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export class BookmarkInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BookmarkInputError'
+  }
+}
+
+export type BookmarkInput = {
+  url?: string
+  title?: string
+  description?: string | null
+  notes?: string | null
+  collection_id?: string | null
+  read_state?: ReadState
+  pinned?: boolean
+  tags?: string[]
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+// Whether a stored URL is safe to use as a link; anything else is shown as text
+export function isWebUrl(url: string) {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function optionalString(body: Record<string, unknown>, key: string, max: number) {
+  const value = body[key]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') throw new BookmarkInputError(`${key} must be a string`)
+  const trimmed = value.trim()
+  if (trimmed.length > max) throw new BookmarkInputError(`${key} must be at most ${max} characters`)
+  return trimmed
+}
+
+// Validates a create (all fields optional but url) or update (every field
+// optional) body, dropping anything that isn't a known field
+export function parseBookmarkInput(body: unknown, { requireUrl }: { requireUrl: boolean }): BookmarkInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new BookmarkInputError('Expected a JSON object')
+  }
+  const fields = body as Record<string, unknown>
+  const input: BookmarkInput = {}
+
+  const url = optionalString(fields, 'url', MAX_URL_LENGTH)
+  if (url !== undefined) {
+    if (!URL.canParse(url)) {
+      throw new BookmarkInputError('url must be an absolute URL')
+    }
+    // Also rules out forms like https:example.com that URL() accepts
+    if (!/^https?:\/\//i.test(url)) {
+      throw new BookmarkInputError('url must use http or https')
+    }
+    input.url = url
+  } else if (requireUrl) {
+    throw new BookmarkInputError('url is required')
+  }
+
+  const title = optionalString(fields, 'title', MAX_TITLE_LENGTH)
+  if (title !== undefined) {
+    if (!title) throw new BookmarkInputError('title cannot be empty')
+    input.title = title
+  }
+
+  if (fields.description === null) {
+    input.description = null
+  } else {
+    const description = optionalString(fields, 'description', MAX_DESCRIPTION_LENGTH)
+    if (description !== undefined) input.description = description || null
+  }
+
+  if (fields.notes === null) {
+    input.notes = null
+  } else {
+    const notes = optionalString(fields, 'notes', MAX_NOTES_LENGTH)
+    if (notes !== undefined) input.notes = notes || null
+  }
+
+  if ('collection_id' in fields) {
+    if (fields.collection_id !== null && !isUuid(fields.collection_id)) {
+      throw new BookmarkInputError('collection_id must be a folder id or null')
+    }
+    input.collection_id = fields.collection_id as string | null
+  }
+
+  if ('read_state' in fields) {
+    if (!READ_STATES.includes(fields.read_state as ReadState)) {
+      throw new BookmarkInputError(`read_state must be one of ${READ_STATES.join(', ')}`)
+    }
+    input.read_state = fields.read_state as ReadState
+  }
+
+  if ('pinned' in fields) {
+    if (typeof fields.pinned !== 'boolean') throw new BookmarkInputError('pinned must be true or false')
+    input.pinned = fields.pinned
+  }
+
+  if ('tags' in fields) {
+    if (!Array.isArray(fields.tags) || !fields.tags.every(tag => typeof tag === 'string')) {
+      throw new BookmarkInputError('tags must be an array of strings')
+    }
+    input.tags = fields.tags
+  }
+
+  return input
+}
@@ -0,0 +1,266 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js'
+import { bookmarkColumns, compareBookmarks, type Bookmark, type BookmarkSort } from '@/lib/bookmarks'
+import type { Collection } from '@/lib/collections'
+import type { Tag } from '@/lib/tags'
+
+export type SyncStatus = 'connecting' | 'live' | 'reconnecting' | 'offline'
+
+type BookmarkRow = Omit<Bookmark, 'tags'>
+type BookmarkTagRow = { bookmark_id: string, tag_id: string }
+
+type BookmarkSyncOptions = {
+  supabase: SupabaseClient
+  workspaceId: string
+  bookmarks: Bookmark[]
+  setBookmarks: Dispatch<SetStateAction<Bookmark[]>>
+  setCollections: Dispatch<SetStateAction<Collection[]>>
+  sort: BookmarkSort
+  hasMore: boolean
+  // Whether a bookmark belongs in the list under the current filters
+  matchesView: (bookmark: Bookmark) => boolean
+  onTags: (tags: Tag[]) => void
+  onCountsChanged: () => void
+  onReconnect: () => void
+}
+
+const REFRESH_DELAY = 300
+const COUNTS_DELAY = 500
+const ID_CHUNK_SIZE = 200
+const CATCH_UP_LIMIT = 500
+// Catch-up compares server timestamps with the last one seen, so reach a
+// little further back in case the two clocks disagree; merging is idempotent
+const CATCH_UP_SLACK_MS = 60_000
+
+// Inserts or replaces `row`, keeping the list in sort order. A row that
+// sorts past the last loaded one is left for a later page to bring in.
+export function upsertBookmark(list: Bookmark[], row: Bookmark, sort: BookmarkSort, hasMore: boolean) {
+  const rest = list.filter(b => b.id !== row.id)
+  const last = rest[rest.length - 1]
+  if (hasMore && last && compareBookmarks(row, last, sort) > 0) return rest
+  const index = rest.findIndex(b => compareBookmarks(row, b, sort) < 0)
+  return index === -1 ? [...rest, row] : [...rest.slice(0, index), row, ...rest.slice(index)]
+}
+
+// Keeps the loaded bookmarks and collections in step with the database.
+// Realtime payloads are merged into local state rather than triggering a
+// refetch. Events for rows with a local mutation in flight (see
+// trackMutation) are held back and the rows re-read once it settles, so an
+// echo of an older write can't overwrite an optimistic update. After a
+// dropped connection, rows updated since the last event are fetched and the
+// loaded ones re-read, which also drops any deleted in the meantime.
+export function useBookmarkSync(options: BookmarkSyncOptions) {
+  const { supabase, workspaceId } = options
+  const [status, setStatus] = useState<SyncStatus>('connecting')
+  const latest = useRef(options)
+  const pending = useRef(new Map<string, number>())
+  const deferred = useRef(new Set<string>())
+  const queued = useRef(new Set<string>())
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const countsTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const lastSeen = useRef<string | null>(null)
+
+  useEffect(() => {
+    latest.current = options
+  })
+
+  // Merges freshly fetched rows; ids in `checkedIds` that didn't come back
+  // no longer exist and are dropped
+  const applyRows = useCallback((rows: Bookmark[], checkedIds: string[]) => {
+    const { setBookmarks, sort, hasMore, matchesView, onTags } = latest.current
+    const found = new Set(rows.map(row => row.id))
+    onTags(rows.flatMap(row => row.tags))
+    setBookmarks(prev => rows.reduce(
+      (list, row) => matchesView(row)
+        ? upsertBookmark(list, row, sort, hasMore)
+        : list.filter(b => b.id !== row.id),
+      prev.filter(b => !checkedIds.includes(b.id) || found.has(b.id))
+    ))
+  }, [])
+
+  const refreshBookmarks = useCallback(async (ids: string[]) => {
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE)
+      const { data, error } = await latest.current.supabase
+        .from('bookmarks')
+        .select(bookmarkColumns())
+        .in('id', chunk)
+        .returns<Bookmark[]>()
+      if (!error) applyRows(data, chunk)
+    }
+  }, [applyRows])
+
+  // Batches re-reads so a burst of events (an import, a bulk move) costs
+  // one query
+  const scheduleRefresh = useCallback((ids: string[]) => {
+    ids.forEach(id => queued.current.add(id))
+    if (refreshTimer.current) return
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null
+      const ready = [...queued.current].filter(id => {
+        if (!pending.current.has(id)) return true
+        deferred.current.add(id)
+        return false
+      })
+      queued.current.clear()
+      if (ready.length > 0) refreshBookmarks(ready)
+    }, REFRESH_DELAY)
+  }, [refreshBookmarks])
+
+  // Runs a write against the given bookmarks, holding back realtime events
+  // for them until it finishes
+  const trackMutation = useCallback(async <T,>(ids: string[], mutation: PromiseLike<T>): Promise<T> => {
+    ids.forEach(id => pending.current.set(id, (pending.current.get(id) ?? 0) + 1))
+    try {
+      return await mutation
+    } finally {
+      const settled = ids.filter(id => {
+        const count = (pending.current.get(id) ?? 1) - 1
+        if (count > 0) {
+          pending.current.set(id, count)
+          return false
+        }
+        pending.current.delete(id)
+        return deferred.current.delete(id)
+      })
+      if (settled.length > 0) scheduleRefresh(settled)
+    }
+  }, [scheduleRefresh])
+
+  useEffect(() => {
+    let cancelled = false
+    let connected = false
+
+    const noteSeen = (timestamp: string) => {
+      if (!lastSeen.current || timestamp > lastSeen.current) lastSeen.current = timestamp
+    }
+
+    const scheduleCounts = () => {
+      if (countsTimer.current) clearTimeout(countsTimer.current)
+      countsTimer.current = setTimeout(() => {
+        countsTimer.current = null
+        latest.current.onCountsChanged()
+      }, COUNTS_DELAY)
+    }
+
+    const handleBookmark = (payload: RealtimePostgresChangesPayload<BookmarkRow>) => {
+      noteSeen(payload.commit_timestamp)
+      const { setBookmarks, bookmarks, sort, hasMore, matchesView } = latest.current
+      const id = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id
+      if (!id) return
+      if (payload.eventType !== 'DELETE' || bookmarks.some(b => b.id === id)) scheduleCounts()
+
+      if (pending.current.has(id)) {
+        deferred.current.add(id)
+        return
+      }
+
+      if (payload.eventType === 'DELETE') {
+        setBookmarks(prev => prev.filter(b => b.id !== id))
+        return
+      }
+
+      const existing = bookmarks.find(b => b.id === id)
+      if (payload.eventType === 'UPDATE' && !existing) {
+        // Moved into view from elsewhere; its tags aren't in the payload
+        scheduleRefresh([id])
+        return
+      }
+
+      const row: Bookmark = { ...payload.new, tags: existing?.tags ?? [] }
+      setBookmarks(prev => matchesView(row)
+        ? upsertBookmark(prev, row, sort, hasMore)
+        : prev.filter(b => b.id !== id))
+    }
+
+    const handleBookmarkTag = (payload: RealtimePostgresChangesPayload<BookmarkTagRow>) => {
+      noteSeen(payload.commit_timestamp)
+      const bookmarkId = payload.eventType === 'DELETE' ? payload.old.bookmark_id : payload.new.bookmark_id
+      if (!bookmarkId) return
+      // Deletes arrive unfiltered, so only act on bookmarks we actually have
+      if (payload.eventType === 'DELETE' && !latest.current.bookmarks.some(b => b.id === bookmarkId)) return
+      scheduleRefresh([bookmarkId])
+    }
+
+    const handleCollection = (payload: RealtimePostgresChangesPayload<Collection>) => {
+      noteSeen(payload.commit_timestamp)
+      const { setCollections } = latest.current
+      if (payload.eventType === 'DELETE') {
+        setCollections(prev => prev.filter(c => c.id !== payload.old.id))
+      } else {
+        const { id, name, parent_id, created_at } = payload.new
+        setCollections(prev => [...prev.filter(c => c.id !== id), { id, name, parent_id, created_at }])
+      }
+    }
+
+    const catchUp = async () => {
+      const since = lastSeen.current
+      const { bookmarks, onReconnect } = latest.current
+      lastSeen.current = new Date().toISOString()
+      onReconnect()
+
+      if (since) {
+        const { data, error } = await supabase
+          .from('bookmarks')
+          .select(bookmarkColumns())
+          .eq('workspace_id', workspaceId)
+          .gt('updated_at', new Date(Date.parse(since) - CATCH_UP_SLACK_MS).toISOString())
+          .order('updated_at', { ascending: false })
+          .limit(CATCH_UP_LIMIT)
+          .returns<Bookmark[]>()
+        if (cancelled) return
+        if (!error) applyRows(data, [])
+      }
+      await refreshBookmarks(bookmarks.map(b => b.id))
+    }
+
+    // One channel per workspace, so every member sees each other's changes
+    const filter = `workspace_id=eq.${workspaceId}`
+    // Postgres can't filter delete events (the old row only carries the
+    // primary key), so those are subscribed to unfiltered and matched by id
+    const channel = supabase
+      .channel(`workspace-${workspaceId}`)
+      .on<BookmarkRow>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'bookmarks', filter }, handleBookmark)
+      .on<BookmarkRow>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'bookmarks', filter }, handleBookmark)
+      .on<BookmarkRow>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'bookmarks' }, handleBookmark)
+      .on<BookmarkTagRow>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'bookmark_tags', filter }, handleBookmarkTag)
+      .on<BookmarkTagRow>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'bookmark_tags' }, handleBookmarkTag)
+      .on<Collection>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'collections', filter }, handleCollection)
+      .on<Collection>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'collections', filter }, handleCollection)
+      .on<Collection>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'collections' }, handleCollection)
+      .subscribe((state) => {
+        if (cancelled) return
+        if (state === 'SUBSCRIBED') {
+          setStatus('live')
+          if (connected) {
+            catchUp()
+          } else {
+            lastSeen.current = new Date().toISOString()
+          }
+          connected = true
+        } else {
+          setStatus(navigator.onLine ? 'reconnecting' : 'offline')
+        }
+      })
+
+    const handleOffline = () => setStatus('offline')
+    const handleOnline = () => setStatus(channel.state === 'joined' ? 'live' : 'reconnecting')
+    window.addEventListener('offline', handleOffline)
+    window.addEventListener('online', handleOnline)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener('offline', handleOffline)
+      window.removeEventListener('online', handleOnline)
+      if (refreshTimer.current) clearTimeout(refreshTimer.current)
+      if (countsTimer.current) clearTimeout(countsTimer.current)
+      refreshTimer.current = null
+      countsTimer.current = null
+      supabase.removeChannel(channel)
+    }
+  }, [supabase, workspaceId, applyRows, refreshBookmarks, scheduleRefresh])
+
+  return { status, trackMutation }
+}
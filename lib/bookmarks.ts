@@ -0,0 +1,202 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Tag } from '@/lib/tags'
+import { normalizeUrl } from '@/lib/normalize-url'
+
+export type Bookmark = {
+  id: string
+  title: string
+  url: string
+  normalized_url: string
+  description: string | null
+  notes: string | null
+  image_url: string | null
+  canonical_url: string | null
+  favicon_url: string | null
+  domain: string | null
+  created_at: string
+  updated_at: string
+  deleted_at: string | null
+  link_status: number | null
+  link_final_url: string | null
+  link_error: string | null
+  link_checked_at: string | null
+  snapshot_at: string | null
+  read_state: ReadState
+  read_at: string | null
+  pinned: boolean
+  collection_id: string | null
+  tags: Tag[]
+}
+
+export type ReadState = 'unread' | 'read' | 'archived'
+
+export const READ_STATES: ReadState[] = ['unread', 'read', 'archived']
+
+// The queue tabs above the list: a read state, pinned bookmarks, or all
+export type ReadFilter = 'all' | ReadState | 'pinned'
+
+export const READ_FILTERS: { id: ReadFilter, label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'unread', label: 'Unread' },
+  { id: 'read', label: 'Read' },
+  { id: 'archived', label: 'Archived' },
+  { id: 'pinned', label: 'Pinned' },
+]
+
+export function matchesReadFilter(bookmark: Pick<Bookmark, 'read_state' | 'pinned'>, filter: ReadFilter) {
+  if (filter === 'all') return true
+  if (filter === 'pinned') return bookmark.pinned
+  return bookmark.read_state === filter
+}
+
+// The columns to write when moving a bookmark to another read state
+export function readStateUpdate(state: ReadState) {
+  return { read_state: state, read_at: state === 'unread' ? null : new Date().toISOString() }
+}
+
+// Clears the link checker's result, for when a bookmark's URL changes and
+// the last check was for the old address
+export const UNCHECKED_LINK = { link_status: null, link_final_url: null, link_error: null, link_checked_at: null }
+
+export type LinkHealth = 'unchecked' | 'ok' | 'redirected' | 'broken'
+
+// Summarizes the link checker's last result for a bookmark. A check with
+// neither a status nor an error is one the checker refused to make.
+export function linkHealth(bookmark: Pick<Bookmark, 'url' | 'link_status' | 'link_final_url' | 'link_error' | 'link_checked_at'>): LinkHealth {
+  if (!bookmark.link_checked_at || (bookmark.link_status === null && !bookmark.link_error)) return 'unchecked'
+  if (bookmark.link_error || (bookmark.link_status !== null && bookmark.link_status >= 400)) return 'broken'
+  if (bookmark.link_final_url && bookmark.link_final_url !== bookmark.url) return 'redirected'
+  return 'ok'
+}
+
+// A previous title/URL/notes, recorded by a trigger whenever one changes
+export type BookmarkRevision = {
+  id: string
+  bookmark_id: string
+  title: string
+  url: string
+  notes: string | null
+  created_at: string
+}
+
+export type BookmarkSort = 'date' | 'title' | 'domain'
+
+// Cards are the grid with each bookmark's preview image on top
+export type ViewMode = 'grid' | 'cards' | 'list'
+
+export const PAGE_SIZE = 60
+
+// Matches the check constraint on bookmarks.notes
+export const MAX_NOTES_LENGTH = 10000
+
+// Keyset pagination: every sort is made total by falling back to id
+export const SORT_ORDER: Record<BookmarkSort, { column: 'created_at' | 'title' | 'domain', ascending: boolean }> = {
+  date: { column: 'created_at', ascending: false },
+  title: { column: 'title', ascending: true },
+  domain: { column: 'domain', ascending: true },
+}
+
+type CursorRow = Pick<Bookmark, 'id' | 'created_at' | 'title' | 'domain'>
+
+type PinnedCursorRow = CursorRow & Pick<Bookmark, 'pinned'>
+
+// Client-side equivalent of SORT_ORDER, for placing rows that arrive
+// outside of a page fetch. Pinned bookmarks come first whatever the sort.
+export function compareBookmarks(a: PinnedCursorRow, b: PinnedCursorRow, sort: BookmarkSort) {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1
+  const { column, ascending } = SORT_ORDER[sort]
+  const [x, y] = [a[column], b[column]]
+  // Postgres puts nulls last in ascending order and first in descending
+  const byValue = x === y ? 0 : x === null ? 1 : y === null ? -1 : x.localeCompare(y)
+  const order = byValue || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  return ascending ? order : -order
+}
+
+// Quotes a value for use inside a PostgREST or() filter
+function quoteFilterValue(value: string) {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+// Filter selecting the rows that come after `last` in the given sort. A
+// null domain matches neither gt nor eq, so nulls, which come last in
+// ascending order and first in descending, are picked up explicitly.
+export function cursorFilter(sort: BookmarkSort, last: CursorRow) {
+  const { column, ascending } = SORT_ORDER[sort]
+  const op = ascending ? 'gt' : 'lt'
+  const id = quoteFilterValue(last.id)
+  const lastValue = last[column]
+  if (lastValue === null) {
+    const nullsAfter = `and(${column}.is.null,id.${op}.${id})`
+    return ascending ? nullsAfter : `${nullsAfter},${column}.not.is.null`
+  }
+  const value = quoteFilterValue(lastValue)
+  const after = `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`
+  return ascending ? `${after},${column}.is.null` : after
+}
+
+// cursorFilter for lists ordered by pinned first: after a pinned row come
+// the rest of the pinned ones and then every unpinned one
+export function pinnedCursorFilter(sort: BookmarkSort, last: PinnedCursorRow) {
+  const rest = cursorFilter(sort, last)
+  return last.pinned
+    ? `pinned.eq.false,and(pinned.eq.true,or(${rest}))`
+    : `and(pinned.eq.false,or(${rest}))`
+}
+
+// Select list embedding tags; each required tag gets its own inner-joined
+// alias so filtering on all of them doesn't trim the embedded tag list
+export function bookmarkColumns(requiredTags: string[] = [], columns = '*, tags(id, name)') {
+  return [columns, ...requiredTags.map((_, i) => `tag_filter_${i}:tags!inner(name)`)].join(', ')
+}
+
+export function tagFilterColumn(index: number) {
+  return `tag_filter_${index}.name`
+}
+
+export function stripTagFilters<T extends object>(rows: T[]): T[] {
+  return rows.map(row =>
+    Object.fromEntries(Object.entries(row).filter(([key]) => !key.startsWith('tag_filter_'))) as T
+  )
+}
+
+const URL_CHUNK_SIZE = 100
+
+// Returns which of `urls` are already saved in the workspace, comparing
+// normalized URLs in the database rather than whatever happens to be loaded
+// in the browser. `exceptId` leaves out the bookmark being edited.
+export async function findSavedUrls(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  urls: string[],
+  { exceptId }: { exceptId?: string } = {}
+) {
+  const candidates = [...new Set(urls.map(normalizeUrl))]
+  const saved = new Set<string>()
+  for (let i = 0; i < candidates.length; i += URL_CHUNK_SIZE) {
+    let query = supabase
+      .from('bookmarks')
+      .select('normalized_url')
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
+      .in('normalized_url', candidates.slice(i, i + URL_CHUNK_SIZE))
+    if (exceptId) query = query.neq('id', exceptId)
+    const { data, error } = await query
+    if (error) throw error
+    data.forEach(row => saved.add(row.normalized_url as string))
+  }
+  return urls.filter(url => saved.has(normalizeUrl(url)))
+}
+
+// Postgres unique_violation: the write would leave two live bookmarks with
+// the same normalized URL in a workspace
+export function isDuplicateUrlError(error: { code?: string } | null) {
+  return error?.code === '23505'
+}
+
+export function getDomain(url: string) {
+  try {
+    return new URL(url).hostname.replace('www.', '')
+  } catch {
+    return url
+  }
+}
@@ -0,0 +1,65 @@
+export type Collection = {
+  id: string
+  name: string
+  parent_id: string | null
+  created_at: string
+}
+
+export type CollectionNode = Collection & {
+  children: CollectionNode[]
+}
+
+export const UNSORTED = 'unsorted'
+
+export const MAX_COLLECTION_NAME_LENGTH = 100
+
+// Sidebar entry for soft-deleted bookmarks; not a real collection
+export const TRASH = 'trash'
+
+export const BOOKMARK_DRAG_TYPE = 'application/x-savenest-bookmarks'
+
+export function buildCollectionTree(collections: Collection[]): CollectionNode[] {
+  const nodes = new Map<string, CollectionNode>()
+  collections.forEach(collection => nodes.set(collection.id, { ...collection, children: [] }))
+
+  const roots: CollectionNode[] = []
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  const sortNodes = (list: CollectionNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name))
+    list.forEach(node => sortNodes(node.children))
+  }
+  sortNodes(roots)
+  return roots
+}
+
+// Returns the id of the collection along with every collection nested under it.
+export function getDescendantIds(collections: Collection[], id: string): Set<string> {
+  const ids = new Set([id])
+  let added = true
+  while (added) {
+    added = false
+    collections.forEach(collection => {
+      if (collection.parent_id && ids.has(collection.parent_id) && !ids.has(collection.id)) {
+        ids.add(collection.id)
+        added = true
+      }
+    })
+  }
+  return ids
+}
+
+// Depth-first list of the tree, for rendering folders in a <select>.
+export function flattenCollectionTree(nodes: CollectionNode[], depth = 0): { collection: Collection, depth: number }[] {
+  return nodes.flatMap(({ children, ...collection }) => [
+    { collection, depth },
+    ...flattenCollectionTree(children, depth + 1),
+  ])
+}
@@ -0,0 +1,52 @@
+import type { Bookmark } from '@/lib/bookmarks'
+
+// Why find_duplicate_bookmarks() thinks bookmarks are the same page
+export type DuplicateReason = 'canonical' | 'page' | 'title'
+
+// One row of find_duplicate_bookmarks()
+export type DuplicateMatch = {
+  match_key: string
+  reason: DuplicateReason
+  bookmark_id: string
+}
+
+export type DuplicateGroup = {
+  key: string
+  reason: DuplicateReason
+  bookmarks: Bookmark[]
+}
+
+export const DUPLICATE_REASONS: DuplicateReason[] = ['canonical', 'page', 'title']
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  canonical: 'The site says these are the same page',
+  page: 'Same address with different query parameters',
+  title: 'Same title on the same site',
+}
+
+// Groups matches into sets of bookmarks, oldest first. A set that matches
+// for more than one reason is listed once, under the strongest.
+export function groupDuplicates(matches: DuplicateMatch[], bookmarks: Bookmark[]): DuplicateGroup[] {
+  const byId = new Map(bookmarks.map(b => [b.id, b]))
+  const groups = new Map<string, DuplicateGroup>()
+  matches.forEach(match => {
+    const bookmark = byId.get(match.bookmark_id)
+    if (!bookmark) return
+    const key = `${match.reason}:${match.match_key}`
+    const group = groups.get(key) ?? { key, reason: match.reason, bookmarks: [] }
+    group.bookmarks.push(bookmark)
+    groups.set(key, group)
+  })
+
+  const seen = new Set<string>()
+  return [...groups.values()]
+    .filter(group => group.bookmarks.length > 1)
+    .sort((a, b) => DUPLICATE_REASONS.indexOf(a.reason) - DUPLICATE_REASONS.indexOf(b.reason))
+    .filter(group => {
+      const members = group.bookmarks.map(b => b.id).sort().join(',')
+      if (seen.has(members)) return false
+      seen.add(members)
+      return true
+    })
+    .map(group => ({ ...group, bookmarks: group.bookmarks.sort((a, b) => a.created_at.localeCompare(b.created_at)) }))
+}
@@ -0,0 +1,183 @@
+import type { Collection } from '@/lib/collections'
+
+export type ExportFormat = 'json' | 'html' | 'csv' | 'markdown'
+
+export type ExportBookmark = {
+  title: string
+  url: string
+  description?: string | null
+  notes?: string | null
+  created_at: string
+  collection_id?: string | null
+  tags?: { name: string }[]
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'Browser HTML', extension: 'html', mimeType: 'text/html' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+}
+
+// Database-only columns that have no place in an export
+const INTERNAL_COLUMNS = ['search_vector', 'deleted_at']
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.hasOwn(EXPORT_FORMATS, value)
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Spreadsheets treat a cell starting with =, +, -, @, tab or CR as a formula;
+// a leading ' keeps it text
+function escapeCsv(value: string) {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\[\]])/g, '\\$1')
+}
+
+function folderPath(collections: Collection[], id: string | null | undefined) {
+  const path: string[] = []
+  const seen = new Set<string>()
+  let current = collections.find(c => c.id === id)
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current.name)
+    current = collections.find(c => c.id === current!.parent_id)
+  }
+  return path
+}
+
+function isWithin(collections: Collection[], id: string, ancestorId: string) {
+  const seen = new Set<string>()
+  let current = collections.find(c => c.id === id)
+  while (current && !seen.has(current.id)) {
+    if (current.id === ancestorId) return true
+    seen.add(current.id)
+    current = collections.find(c => c.id === current!.parent_id)
+  }
+  return false
+}
+
+function toUnixSeconds(date: string) {
+  return Math.floor(new Date(date).getTime() / 1000)
+}
+
+function tagNames(bookmark: ExportBookmark) {
+  return (bookmark.tags ?? []).map(tag => tag.name)
+}
+
+// Netscape bookmark file, importable by every major browser and by SaveNest
+function toNetscapeHtml(bookmarks: ExportBookmark[], collections: Collection[]) {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+  ]
+
+  const writeLevel = (parentId: string | null, indent: string) => {
+    lines.push(`${indent}<DL><p>`)
+    collections
+      .filter(c => c.parent_id === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(collection => {
+        // Skip folders with nothing exported beneath them
+        if (!bookmarks.some(b => b.collection_id && isWithin(collections, b.collection_id, collection.id))) return
+        lines.push(`${indent}    <DT><H3 ADD_DATE="${toUnixSeconds(collection.created_at)}">${escapeHtml(collection.name)}</H3>`)
+        writeLevel(collection.id, `${indent}    `)
+      })
+    bookmarks
+      .filter(b => (b.collection_id && collections.some(c => c.id === b.collection_id) ? b.collection_id : null) === parentId)
+      .forEach(bookmark => {
+        const tags = tagNames(bookmark)
+        const attributes = [
+          `HREF="${escapeHtml(bookmark.url)}"`,
+          `ADD_DATE="${toUnixSeconds(bookmark.created_at)}"`,
+          ...(tags.length > 0 ? [`TAGS="${escapeHtml(tags.join(','))}"`] : []),
+        ]
+        lines.push(`${indent}    <DT><A ${attributes.join(' ')}>${escapeHtml(bookmark.title)}</A>`)
+        if (bookmark.description) {
+          lines.push(`${indent}    <DD>${escapeHtml(bookmark.description)}`)
+        }
+      })
+    lines.push(`${indent}</DL><p>`)
+  }
+
+  writeLevel(null, '')
+  return lines.join('\n') + '\n'
+}
+
+// Same column names the CSV importer understands
+function toCsv(bookmarks: ExportBookmark[], collections: Collection[]) {
+  const rows = [['title', 'url', 'description', 'notes', 'tags', 'folder', 'created']]
+  bookmarks.forEach(bookmark => {
+    rows.push([
+      bookmark.title,
+      bookmark.url,
+      bookmark.description ?? '',
+      bookmark.notes ?? '',
+      tagNames(bookmark).join(','),
+      folderPath(collections, bookmark.collection_id).join('/'),
+      bookmark.created_at,
+    ])
+  })
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n'
+}
+
+function toMarkdown(bookmarks: ExportBookmark[], collections: Collection[]) {
+  const groups = new Map<string, ExportBookmark[]>()
+  bookmarks.forEach(bookmark => {
+    const heading = folderPath(collections, bookmark.collection_id).join(' / ')
+    groups.set(heading, [...(groups.get(heading) ?? []), bookmark])
+  })
+
+  const sections = [...groups.entries()]
+    .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)))
+    .map(([heading, items]) => {
+      const lines = items.map(bookmark => {
+        const tags = tagNames(bookmark).map(name => `#${name}`).join(' ')
+        const description = bookmark.description ? ` — ${bookmark.description}` : ''
+        // Notes are quoted under the item, indented so they stay part of it
+        const notes = bookmark.notes
+          ? '\n' + bookmark.notes.trim().split(/\r?\n/).map(line => `  > ${line}`.trimEnd()).join('\n')
+          : ''
+        return `- [${escapeMarkdown(bookmark.title)}](<${bookmark.url}>)${description}${tags ? ` ${tags}` : ''}${notes}`
+      })
+      return heading ? `## ${heading}\n\n${lines.join('\n')}` : lines.join('\n')
+    })
+
+  return `# Bookmarks\n\n${sections.join('\n\n')}\n`
+}
+
+export function serializeBookmarks(
+  bookmarks: ExportBookmark[],
+  format: ExportFormat,
+  collections: Collection[] = []
+) {
+  switch (format) {
+    case 'html':
+      return toNetscapeHtml(bookmarks, collections)
+    case 'csv':
+      return toCsv(bookmarks, collections)
+    case 'markdown':
+      return toMarkdown(bookmarks, collections)
+    case 'json':
+    default:
+      return JSON.stringify(bookmarks, (key, value) => INTERNAL_COLUMNS.includes(key) ? undefined : value, 2)
+  }
+}
+
+export function exportFileName(format: ExportFormat) {
+  return `bookmarks.${EXPORT_FORMATS[format].extension}`
+}
@@ -0,0 +1,66 @@
+// Small, dependency-free helpers for pulling data out of fetched HTML.
+// They only need to cope with <head>-style markup, not arbitrary documents.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+}
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    const name = entity.toLowerCase()
+    return Object.hasOwn(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : match
+  })
+}
+
+export function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {}
+  const body = tag.replace(/^<\s*[\w-]+/, '').replace(/\/?>$/, '')
+  const pattern = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(body))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+export function findTags(html: string, name: string) {
+  const pattern = new RegExp(`<${name}\\b[^>]*>`, 'gi')
+  return (html.match(pattern) ?? []).map(parseAttributes)
+}
+
+export function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// Resolves a possibly relative URL, keeping only http(s) results.
+export function resolveHttpUrl(value: string | undefined, base: string) {
+  if (!value) return null
+  try {
+    const resolved = new URL(value.trim(), base)
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto'
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { readLimitedBytes, safeFetch } from '@/lib/safe-fetch'
+
+// Favicons and preview images are fetched once on the server and kept in the
+// private "image-cache" bucket, so cards never hotlink other sites or a
+// favicon service that would see every domain in the library. Anything that
+// can't be fetched is replaced by a generated letter avatar.
+
+export const IMAGE_CACHE_BUCKET = 'image-cache'
+
+export type CachedImage = { body: Buffer, contentType: string }
+
+const MAX_FAVICON_BYTES = 100 * 1024
+const MAX_PREVIEW_BYTES = 2 * 1024 * 1024
+const FETCH_TIMEOUT_MS = 5000
+
+// Raster formats only; an SVG served from our origin could carry script
+const IMAGE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/x-icon',
+  'image/vnd.microsoft.icon',
+]
+
+const IMAGE_CACHE_CONTROL = 'private, max-age=86400, stale-while-revalidate=604800'
+// Shorter, so a site that was down gets another try soon
+const AVATAR_CACHE_CONTROL = 'private, max-age=3600'
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)[a-z0-9-]+(\.[a-z0-9-]+)+$/
+
+export function isCacheableDomain(domain: string) {
+  return DOMAIN_PATTERN.test(domain)
+}
+
+function hashKey(value: string) {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function cacheBucket() {
+  try {
+    return createAdminClient().storage.from(IMAGE_CACHE_BUCKET)
+  } catch {
+    // Without a service-role key images are still proxied, just not stored
+    return null
+  }
+}
+
+async function fetchImage(url: string, maxBytes: number): Promise<CachedImage | null> {
+  try {
+    const { response } = await safeFetch(url, { headers: { Accept: 'image/*' }, timeoutMs: FETCH_TIMEOUT_MS })
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase()
+    if (!response.ok || !IMAGE_TYPES.includes(contentType)) {
+      await response.body?.cancel()
+      return null
+    }
+    const body = await readLimitedBytes(response, maxBytes)
+    return body.length > 0 ? { body, contentType } : null
+  } catch {
+    return null
+  }
+}
+
+// The stored copy at `path`, or else the first source that answers with an
+// image, which is stored there for next time
+async function cachedImage(path: string, sources: string[], maxBytes: number) {
+  const bucket = cacheBucket()
+  if (bucket) {
+    const { data } = await bucket.download(path)
+    if (data && IMAGE_TYPES.includes(data.type)) {
+      return { body: Buffer.from(await data.arrayBuffer()), contentType: data.type }
+    }
+  }
+
+  for (const source of sources) {
+    const image = await fetchImage(source, maxBytes)
+    if (!image) continue
+    await bucket?.upload(path, image.body, { contentType: image.contentType, upsert: true })
+    return image
+  }
+  return null
+}
+
+// The icon a page declared, falling back to /favicon.ico. Cached per domain
+// and icon address, so an icon URL stored in one library can't change what
+// another library sees for the same site.
+export function getFavicon(domain: string, iconUrl: string | null) {
+  const sources = [iconUrl, `https://${domain}/favicon.ico`].filter((source): source is string => !!source)
+  return cachedImage(`favicons/${domain}/${hashKey(sources.join(' '))}`, sources, MAX_FAVICON_BYTES)
+}
+
+export function getPreviewImage(imageUrl: string) {
+  return cachedImage(`previews/${hashKey(imageUrl)}`, [imageUrl], MAX_PREVIEW_BYTES)
+}
+
+// A colored square with the label's first letter; the hue comes from the
+// label, so a site keeps the same color everywhere
+export function letterAvatar(label: string) {
+  const letter = label.match(/[a-z0-9]/i)?.[0].toUpperCase() ?? '?'
+  let hash = 0
+  for (const char of label) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">',
+    `<rect width="64" height="64" rx="14" fill="hsl(${hash % 360} 55% 45%)"/>`,
+    '<text x="32" y="32" dy=".35em" text-anchor="middle" font-family="system-ui, sans-serif" font-size="30" font-weight="600" fill="#fff">',
+    letter,
+    '</text></svg>',
+  ].join('')
+}
+
+export function imageResponse(image: CachedImage | null, fallbackLabel: string) {
+  if (!image) {
+    return new NextResponse(letterAvatar(fallbackLabel), {
+      headers: {
+        'Content-Type': 'image/svg+xml',
+        'Content-Security-Policy': "default-src 'none'",
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': AVATAR_CACHE_CONTROL,
+      },
+    })
+  }
+
+  return new NextResponse(new Uint8Array(image.body), {
+    headers: {
+      'Content-Type': image.contentType,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': IMAGE_CACHE_CONTROL,
+    },
+  })
+}
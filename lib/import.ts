@@ -0,0 +1,261 @@
+import { collapseWhitespace, decodeEntities, parseAttributes } from '@/lib/html'
+import { normalizeTagName } from '@/lib/tags'
+import { MAX_NOTES_LENGTH } from '@/lib/bookmarks'
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH, MAX_URL_LENGTH } from '@/lib/bookmark-input'
+
+export type ImportFormat = 'html' | 'csv' | 'json'
+
+export type ImportEntry = {
+  title: string
+  url: string
+  description: string | null
+  notes: string | null
+  created_at: string | null
+  folder: string[]
+  tags: string[]
+  collection_id?: string | null
+}
+
+export type ParsedImport = {
+  format: ImportFormat
+  entries: ImportEntry[]
+  invalid: { title: string, url: string }[]
+}
+
+// Top-level folders every browser adds to its export; they carry no meaning
+// of their own, so their contents are treated as unfiled.
+const BROWSER_ROOT_FOLDERS = [
+  'bookmarks',
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'favorites',
+  'favorites bar',
+  'favourites bar',
+  'other bookmarks',
+  'mobile bookmarks',
+  'unsorted bookmarks',
+  'unsorted',
+]
+
+export function detectFormat(fileName: string, text: string): ImportFormat | null {
+  const name = fileName.toLowerCase()
+  const start = text.trimStart().slice(0, 200).toLowerCase()
+  if (name.endsWith('.json') || start.startsWith('[') || start.startsWith('{')) return 'json'
+  if (name.endsWith('.html') || name.endsWith('.htm') || start.includes('netscape-bookmark-file')) return 'html'
+  if (name.endsWith('.csv')) return 'csv'
+  return null
+}
+
+function parseDate(value: string | undefined) {
+  if (!value?.trim()) return null
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    const number = Number(trimmed)
+    // Browser exports use seconds, some tools use milliseconds or microseconds
+    const ms = number > 1e14 ? number / 1000 : number > 1e11 ? number : number * 1000
+    return new Date(ms).toISOString()
+  }
+  const parsed = Date.parse(trimmed)
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString()
+}
+
+// Same rules as the url check constraint on the bookmarks table
+function isHttpUrl(url: string) {
+  return url.length <= MAX_URL_LENGTH && /^https?:\/\//i.test(url) && URL.canParse(url)
+}
+
+function splitTags(value: string | undefined, separator: RegExp) {
+  if (!value) return []
+  return value.split(separator).map(normalizeTagName).filter(Boolean)
+}
+
+function cleanFolder(path: string[]) {
+  const folder = path.map(collapseWhitespace).filter(Boolean)
+  if (folder.length > 0 && BROWSER_ROOT_FOLDERS.includes(folder[0].toLowerCase())) {
+    return folder.slice(1)
+  }
+  return folder
+}
+
+// Netscape bookmark file format, as exported by Chrome, Firefox, Safari and Edge
+export function parseNetscapeHtml(html: string): ImportEntry[] {
+  const entries: ImportEntry[] = []
+  const folderStack: string[] = []
+  let pendingFolder: string | null = null
+
+  const pattern = /<h3\b[^>]*>([\s\S]*?)<\/h3>|<a\b[^>]*>[\s\S]*?<\/a>|<dd>([^<]*)|<dl\b[^>]*>|<\/dl>/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html))) {
+    const token = match[0].toLowerCase()
+    if (token.startsWith('<h3')) {
+      pendingFolder = decodeEntities(match[1].replace(/<[^>]+>/g, ''))
+    } else if (token.startsWith('<dl')) {
+      folderStack.push(pendingFolder ?? '')
+      pendingFolder = null
+    } else if (token.startsWith('</dl')) {
+      folderStack.pop()
+    } else if (token.startsWith('<dd')) {
+      // Description line belonging to the previous link
+      const last = entries[entries.length - 1]
+      if (last && !last.description && match[2].trim()) {
+        last.description = collapseWhitespace(decodeEntities(match[2]))
+      }
+    } else {
+      const openTag = match[0].match(/^<a\b[^>]*>/i)![0]
+      const attributes = parseAttributes(openTag)
+      const text = match[0].slice(openTag.length).replace(/<\/a>$/i, '').replace(/<[^>]+>/g, '')
+      entries.push({
+        title: collapseWhitespace(decodeEntities(text)),
+        url: (attributes.href ?? '').trim(),
+        description: null,
+        notes: null,
+        created_at: parseDate(attributes.add_date),
+        folder: cleanFolder(folderStack),
+        tags: splitTags(attributes.tags, /,/),
+      })
+    }
+  }
+
+  return entries
+}
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()))
+}
+
+// Pocket (title,url,time_added,tags,status) and Raindrop
+// (id,title,note,excerpt,url,folder,tags,created,...) CSV exports
+export function parseCsv(text: string): ImportEntry[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return []
+
+  const columns = header.map(name => name.trim().toLowerCase())
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name))
+  const urlIndex = column('url', 'href', 'link')
+  const titleIndex = column('title', 'name')
+  const dateIndex = column('created', 'time_added', 'add_date', 'date', 'created_at')
+  const tagsIndex = column('tags')
+  const folderIndex = column('folder', 'collection')
+  const descriptionIndex = column('excerpt', 'description')
+  const notesIndex = column('notes', 'note')
+  if (urlIndex === -1) return []
+
+  // Pocket separates tags with "|", Raindrop with ","
+  const tagSeparator = columns.includes('time_added') ? /\|/ : /,/
+
+  return rows.map(cells => {
+    const cell = (index: number) => (index === -1 ? undefined : cells[index])
+    return {
+      title: collapseWhitespace(cell(titleIndex) ?? ''),
+      url: (cell(urlIndex) ?? '').trim(),
+      description: collapseWhitespace(cell(descriptionIndex) ?? '') || null,
+      notes: (cell(notesIndex) ?? '').trim() || null,
+      created_at: parseDate(cell(dateIndex)),
+      folder: cleanFolder((cell(folderIndex) ?? '').split('/')),
+      tags: splitTags(cell(tagsIndex), tagSeparator),
+    }
+  })
+}
+
+type ExportedBookmark = {
+  title?: unknown
+  url?: unknown
+  description?: unknown
+  notes?: unknown
+  created_at?: unknown
+  collection_id?: unknown
+  tags?: unknown
+}
+
+// The app's own bookmarks.json export
+export function parseJsonExport(text: string): ImportEntry[] {
+  const data = JSON.parse(text)
+  const items: ExportedBookmark[] = Array.isArray(data) ? data : Array.isArray(data?.bookmarks) ? data.bookmarks : []
+
+  return items
+    .filter(item => item && typeof item === 'object')
+    .map(item => ({
+      title: typeof item.title === 'string' ? collapseWhitespace(item.title) : '',
+      url: typeof item.url === 'string' ? item.url.trim() : '',
+      description: typeof item.description === 'string' ? item.description : null,
+      notes: typeof item.notes === 'string' && item.notes.trim() ? item.notes : null,
+      created_at: typeof item.created_at === 'string' ? parseDate(item.created_at) : null,
+      collection_id: typeof item.collection_id === 'string' ? item.collection_id : null,
+      folder: [],
+      tags: Array.isArray(item.tags)
+        ? item.tags
+            .map((tag: unknown) => typeof tag === 'string' ? tag : (tag as { name?: unknown })?.name)
+            .filter((name: unknown): name is string => typeof name === 'string')
+            .map(normalizeTagName)
+            .filter(Boolean)
+        : [],
+    }))
+}
+
+export function parseImportFile(fileName: string, text: string): ParsedImport {
+  const format = detectFormat(fileName, text)
+  if (!format) {
+    throw new Error('Unsupported file. Use a browser HTML export, a Pocket/Raindrop CSV or a SaveNest JSON export.')
+  }
+
+  const parsed = format === 'html'
+    ? parseNetscapeHtml(text)
+    : format === 'csv'
+      ? parseCsv(text)
+      : parseJsonExport(text)
+
+  const entries: ImportEntry[] = []
+  const invalid: ParsedImport['invalid'] = []
+  parsed.forEach(entry => {
+    if (isHttpUrl(entry.url)) {
+      // Overlong text is cut to what the table accepts rather than dropped
+      entries.push({
+        ...entry,
+        title: entry.title.slice(0, MAX_TITLE_LENGTH),
+        description: entry.description?.slice(0, MAX_DESCRIPTION_LENGTH) ?? null,
+        notes: entry.notes?.slice(0, MAX_NOTES_LENGTH) ?? null,
+      })
+    } else {
+      invalid.push({ title: entry.title, url: entry.url })
+    }
+  })
+
+  return { format, entries, invalid }
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { UnsafeUrlError, safeFetch } from '@/lib/safe-fetch'
+
+export type LinkCheck = {
+  link_status: number | null
+  link_final_url: string | null
+  link_error: string | null
+  link_checked_at: string
+}
+
+export type LinkCheckResult = LinkCheck & { id: string }
+
+const TIMEOUT_MS = 10000
+const CONCURRENCY = 5
+
+function isTimeout(error: unknown) {
+  return error instanceof DOMException && error.name === 'TimeoutError'
+}
+
+// Requests the URL following redirects. HEAD is tried first since it skips
+// the body; plenty of servers answer HEAD with 403/404/405 while serving
+// GET fine, so any error status is confirmed with a GET before counting.
+async function requestLink(url: string) {
+  let result = await safeFetch(url, { method: 'HEAD', timeoutMs: TIMEOUT_MS })
+  if (result.response.status >= 400) {
+    result = await safeFetch(url, { method: 'GET', timeoutMs: TIMEOUT_MS })
+  }
+  await result.response.body?.cancel()
+  return result
+}
+
+// A slow host gets a second try before it counts as broken. Links the
+// checker won't fetch (private and intranet addresses) are recorded as
+// checked with no result, so they stay unchecked rather than broken.
+export async function checkLink(url: string): Promise<LinkCheck> {
+  const checkedAt = new Date().toISOString()
+  try {
+    const result = await requestLink(url).catch(error => {
+      if (isTimeout(error)) return requestLink(url)
+      throw error
+    })
+
+    return {
+      link_status: result.response.status,
+      link_final_url: result.redirects.length > 0 ? result.finalUrl : null,
+      link_error: null,
+      link_checked_at: checkedAt,
+    }
+  } catch (error) {
+    return {
+      link_status: null,
+      link_final_url: null,
+      link_error: error instanceof UnsafeUrlError ? null : isTimeout(error) ? 'Timed out' : 'Could not connect',
+      link_checked_at: checkedAt,
+    }
+  }
+}
+
+// Checks each bookmark a few at a time and stores the results. The client
+// decides whose rows can be written: the user's own for the route handler,
+// a service-role client for the scheduled job.
+export async function checkBookmarks(
+  supabase: SupabaseClient,
+  bookmarks: { id: string, url: string }[]
+): Promise<LinkCheckResult[]> {
+  const results: LinkCheckResult[] = []
+  let next = 0
+
+  const worker = async () => {
+    while (next < bookmarks.length) {
+      const bookmark = bookmarks[next++]
+      const check = await checkLink(bookmark.url)
+      const { error } = await supabase.from('bookmarks').update(check).eq('id', bookmark.id)
+      if (!error) results.push({ id: bookmark.id, ...check })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, bookmarks.length) }, worker))
+  return results
+}
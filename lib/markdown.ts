@@ -0,0 +1,158 @@
+// A small Markdown subset for bookmark notes. It parses into plain data that
+// components/Markdown.tsx renders as React elements, so no HTML from a note
+// ever reaches the page and only http(s) and mailto links become clickable.
+//
+// Blocks: paragraphs, # headings, - / * / 1. lists, > quotes, ``` code, ---
+// Inline: **bold**, *italic*, ~~strike~~, `code`, [text](url), bare URLs
+
+export type MarkdownInline =
+  | { type: 'text', text: string }
+  | { type: 'code', text: string }
+  | { type: 'strong' | 'em' | 'del', children: MarkdownInline[] }
+  | { type: 'link', href: string, children: MarkdownInline[] }
+
+export type MarkdownBlock =
+  | { type: 'paragraph', children: MarkdownInline[] }
+  | { type: 'heading', level: number, children: MarkdownInline[] }
+  | { type: 'list', ordered: boolean, items: MarkdownInline[][] }
+  | { type: 'quote', blocks: MarkdownBlock[] }
+  | { type: 'code', text: string }
+  | { type: 'rule' }
+
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`]+)`/.source,
+    /\*\*(.+?)\*\*/.source,
+    /(?<![\p{L}\p{N}])__(.+?)__(?![\p{L}\p{N}])/u.source,
+    /~~(.+?)~~/.source,
+    /\*([^*\s](?:[^*]*[^*\s])?)\*/.source,
+    /(?<![\p{L}\p{N}])_([^_\s](?:[^_]*[^_\s])?)_(?![\p{L}\p{N}])/u.source,
+    /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?\s*\)/.source,
+    /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/.source,
+  ].join('|'),
+  'gu'
+)
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^\s*(?:-\s*){3,}$|^\s*(?:\*\s*){3,}$|^\s*(?:_\s*){3,}$/
+const FENCE = /^\s*```/
+
+// Links keep their text but lose the href unless it is a web or mail link
+export function safeHref(href: string) {
+  try {
+    const url = new URL(href)
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  let last = 0
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, strong, strongUnderscore, del, em, emUnderscore, linkText, linkHref, bareUrl] = match
+    if (match.index > last) nodes.push({ type: 'text', text: text.slice(last, match.index) })
+    last = match.index + whole.length
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) })
+    } else if (del !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(del) })
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emUnderscore) })
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkHref)
+      const children = parseInline(linkText)
+      nodes.push(...(href ? [{ type: 'link' as const, href, children }] : children))
+    } else {
+      const href = safeHref(bareUrl)
+      nodes.push(href ? { type: 'link', href, children: [{ type: 'text', text: bareUrl }] } : { type: 'text', text: bareUrl })
+    }
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) })
+  return nodes
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++])
+      i++
+      blocks.push({ type: 'code', text: code.join('\n') })
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''))
+      blocks.push({ type: 'quote', blocks: parseMarkdown(quoted.join('\n')) })
+      continue
+    }
+
+    const firstItem = line.match(LIST_ITEM)
+    if (firstItem) {
+      const ordered = firstItem[2] !== undefined
+      const items: string[] = []
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(LIST_ITEM)
+        if (item && (item[2] !== undefined) === ordered) {
+          items.push(item[3])
+        } else if (item || items.length === 0) {
+          break
+        } else {
+          // Continuation line of the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`
+        }
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (
+      i < lines.length
+      && lines[i].trim()
+      && !FENCE.test(lines[i])
+      && !RULE.test(lines[i])
+      && !HEADING.test(lines[i])
+      && !/^\s*>/.test(lines[i])
+      && !(paragraph.length > 0 && LIST_ITEM.test(lines[i]))
+    ) {
+      paragraph.push(lines[i++])
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
@@ -0,0 +1,66 @@
+import { collapseWhitespace, decodeEntities, findTags, resolveHttpUrl } from '@/lib/html'
+import { readLimitedText, safeFetch } from '@/lib/safe-fetch'
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH } from '@/lib/bookmark-input'
+
+export type PageMetadata = {
+  title: string | null
+  description: string | null
+  image_url: string | null
+  canonical_url: string | null
+  favicon_url: string | null
+}
+
+const MAX_HTML_BYTES = 1_000_000
+
+function clip(text: string | undefined, max: number) {
+  if (!text) return null
+  const clean = collapseWhitespace(text)
+  return clean ? clean.slice(0, max) : null
+}
+
+export function extractMetadata(html: string, pageUrl: string): PageMetadata {
+  const head = html.split(/<\/head>/i)[0]
+  const base = resolveHttpUrl(findTags(head, 'base')[0]?.href, pageUrl) ?? pageUrl
+
+  const meta: Record<string, string> = {}
+  findTags(head, 'meta').forEach(attributes => {
+    const key = (attributes.property ?? attributes.name ?? '').toLowerCase()
+    if (key && attributes.content && !(key in meta)) meta[key] = attributes.content
+  })
+
+  const links = findTags(head, 'link')
+  const linkFor = (...rels: string[]) =>
+    links.find(attributes => {
+      const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/)
+      return rels.some(r => rel.includes(r)) && attributes.href
+    })?.href
+
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  return {
+    title: clip(meta['og:title'] ?? (titleTag && decodeEntities(titleTag)) ?? meta['twitter:title'], MAX_TITLE_LENGTH),
+    description: clip(meta['og:description'] ?? meta.description ?? meta['twitter:description'], MAX_DESCRIPTION_LENGTH),
+    image_url: resolveHttpUrl(meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['twitter:image'], base),
+    canonical_url: resolveHttpUrl(linkFor('canonical') ?? meta['og:url'], base),
+    favicon_url: resolveHttpUrl(linkFor('icon', 'apple-touch-icon') ?? '/favicon.ico', base),
+  }
+}
+
+export async function fetchMetadata(url: string): Promise<PageMetadata> {
+  const { response, finalUrl } = await safeFetch(url)
+  const contentType = response.headers.get('content-type') ?? ''
+
+  if (!response.ok || !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel()
+    return {
+      title: null,
+      description: null,
+      image_url: null,
+      canonical_url: null,
+      favicon_url: resolveHttpUrl('/favicon.ico', finalUrl),
+    }
+  }
+
+  const html = await readLimitedText(response, MAX_HTML_BYTES, true)
+  return extractMetadata(html, finalUrl)
+}
@@ -0,0 +1,23 @@
+// Duplicate detection key for a bookmark URL. Addresses that only differ in
+// scheme (http/https), a leading www., a default port, trailing slashes,
+// the fragment, tracking parameters or parameter order count as one page.
+//
+// normalize_url() in supabase-setup.sql computes the stored
+// bookmarks.normalized_url the same way; keep the two in step.
+
+const URL_PARTS = /^(https?):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?/i
+const TRACKING_PARAM = /^(utm_[^=]*|fbclid|gclid|dclid|msclkid|yclid|mc_cid|mc_eid|igshid|_hsenc|_hsmi)(=|$)/i
+
+export function normalizeUrl(url: string) {
+  const trimmed = url.trim()
+  const parts = trimmed.match(URL_PARTS)
+  if (!parts) return trimmed
+
+  const host = parts[2].toLowerCase().replace(/:(80|443)$/, '').replace(/^www\./, '')
+  const path = parts[3].replace(/\/+$/, '')
+  const params = (parts[4] ?? '')
+    .split('&')
+    .filter(param => param && !TRACKING_PARAM.test(param))
+    .sort()
+  return `https://${host}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`
+}
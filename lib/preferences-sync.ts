@@ -0,0 +1,88 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { customizedBindings } from '@/lib/shortcuts'
+import {
+  COLOR_SCHEME_PENDING_ATTRIBUTE,
+  colorSchemeCookie,
+  isDarkTheme,
+  parsePreferences,
+  type Preferences,
+} from '@/lib/preferences'
+
+type PreferencesSyncOptions = {
+  supabase: SupabaseClient
+  userId: string
+  initial: Preferences
+  // From the color-scheme cookie, until the browser can be asked directly
+  initialSystemDark: boolean
+}
+
+// Preferences as rendered by the server, kept in step with changes from
+// other tabs and devices. Local changes apply immediately; realtime echoes
+// that arrive while a write is still in flight are skipped so they can't
+// briefly undo a newer change.
+export function usePreferences({ supabase, userId, initial, initialSystemDark }: PreferencesSyncOptions) {
+  const [preferences, setPreferences] = useState(initial)
+  const [systemDark, setSystemDark] = useState(initialSystemDark)
+  const writes = useRef(0)
+
+  // Follow the OS setting, and remember it for the next server render
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-color-scheme: dark)')
+    const update = () => {
+      setSystemDark(query.matches)
+      document.cookie = colorSchemeCookie(query.matches)
+    }
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`preferences-${userId}`)
+      .on<Record<string, unknown>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'user_preferences', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (writes.current > 0 || payload.eventType === 'DELETE') return
+          setPreferences(parsePreferences(payload.new))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [supabase, userId])
+
+  // Upserted, since there is no row until the first change. Returns whether
+  // the change was saved; it stays applied locally either way.
+  const updatePreferences = useCallback(async (changes: Partial<Preferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }))
+    writes.current++
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        ...changes,
+        ...(changes.shortcuts ? { shortcuts: customizedBindings(changes.shortcuts) } : {}),
+      })
+    writes.current--
+    return !error
+  }, [supabase, userId])
+
+  const darkMode = isDarkTheme(preferences.theme, systemDark)
+
+  // Shows the page the color scheme script hid once it renders in the
+  // scheme the script expected
+  useEffect(() => {
+    const root = document.documentElement
+    const pending = root.getAttribute(COLOR_SCHEME_PENDING_ATTRIBUTE)
+    if (pending && (pending === 'dark') === darkMode) root.removeAttribute(COLOR_SCHEME_PENDING_ATTRIBUTE)
+  }, [darkMode])
+
+  return { preferences, updatePreferences, darkMode }
+}
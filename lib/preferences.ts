@@ -0,0 +1,68 @@
+import { SORT_ORDER, type BookmarkSort, type ViewMode } from '@/lib/bookmarks'
+import { resolveBindings, type ShortcutBindings } from '@/lib/shortcuts'
+
+export type Theme = 'light' | 'dark' | 'system'
+
+// One row of user_preferences, with shortcuts merged over the defaults
+export type Preferences = {
+  theme: Theme
+  view_mode: ViewMode
+  sort_by: BookmarkSort
+  shortcuts: ShortcutBindings
+}
+
+export const THEMES: { id: Theme, label: string }[] = [
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' },
+  { id: 'system', label: 'System' },
+]
+
+export const PREFERENCE_COLUMNS = 'theme, view_mode, sort_by, shortcuts'
+
+// The OS color scheme the browser last reported. The server can't see it,
+// so this cookie is what lets a "system" theme render dark on the first
+// paint instead of flashing light until the page hydrates.
+export const COLOR_SCHEME_COOKIE = 'color-scheme'
+
+const COLOR_SCHEME_COOKIE_ATTRIBUTES = `; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`
+
+// Marks the page as rendered in the wrong scheme until it hydrates;
+// globals.css keeps it hidden meanwhile
+export const COLOR_SCHEME_PENDING_ATTRIBUTE = 'data-color-scheme-pending'
+
+export function colorSchemeCookie(dark: boolean) {
+  return `${COLOR_SCHEME_COOKIE}=${dark ? 'dark' : 'light'}${COLOR_SCHEME_COOKIE_ATTRIBUTES}`
+}
+
+// Inline script for a "system" theme, run before the first paint. It stores
+// the OS scheme right away, and when the server guessed wrong (no cookie
+// yet, or the OS setting changed since) hides the page until it renders in
+// the right one, instead of flashing the other.
+export function colorSchemeScript(renderedDark: boolean) {
+  return [
+    '(function () {',
+    "  var dark = window.matchMedia('(prefers-color-scheme: dark)').matches;",
+    `  document.cookie = '${COLOR_SCHEME_COOKIE}=' + (dark ? 'dark' : 'light') + '${COLOR_SCHEME_COOKIE_ATTRIBUTES}';`,
+    `  if (dark !== ${renderedDark}) document.documentElement.setAttribute('${COLOR_SCHEME_PENDING_ATTRIBUTE}', dark ? 'dark' : 'light');`,
+    '})();',
+  ].join('\n')
+}
+
+const VIEW_MODES: ViewMode[] = ['grid', 'cards', 'list']
+
+// Reads a stored row, or no row yet; anything unknown falls back to the default
+export function parsePreferences(row: Record<string, unknown> | null): Preferences {
+  const theme = THEMES.find(({ id }) => id === row?.theme)?.id
+  const viewMode = VIEW_MODES.find(mode => mode === row?.view_mode)
+  const sortBy = typeof row?.sort_by === 'string' && Object.hasOwn(SORT_ORDER, row.sort_by) ? row.sort_by as BookmarkSort : undefined
+  return {
+    theme: theme ?? 'system',
+    view_mode: viewMode ?? 'grid',
+    sort_by: sortBy ?? 'date',
+    shortcuts: resolveBindings(row?.shortcuts),
+  }
+}
+
+export function isDarkTheme(theme: Theme, systemDark: boolean) {
+  return theme === 'dark' || (theme === 'system' && systemDark)
+}
@@ -0,0 +1,245 @@
+import { collapseWhitespace, decodeEntities, parseAttributes } from '@/lib/html'
+
+// Readability-style article extraction: parse the page into a loose tree,
+// score the containers holding the most paragraph text, and flatten the
+// winner into plain blocks. The output is text only, so the reader view can
+// render it without trusting any of the page's markup.
+
+export type ArticleBlock =
+  | { type: 'heading', level: 2 | 3, text: string }
+  | { type: 'paragraph', text: string }
+  | { type: 'list-item', ordered: boolean, text: string }
+  | { type: 'quote', text: string }
+  | { type: 'code', text: string }
+
+export type Article = {
+  blocks: ArticleBlock[]
+  text: string
+  wordCount: number
+}
+
+type ElementNode = {
+  tag: string
+  attributes: Record<string, string>
+  children: Node[]
+  parent: ElementNode | null
+}
+
+type Node = ElementNode | string
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+const RAW_TEXT_TAGS = /<(script|style|noscript|template|svg|math|iframe|canvas|object|select|textarea)\b[\s\S]*?<\/\1\s*>/gi
+const UNLIKELY_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'button', 'dialog', 'menu'])
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'ul', 'ol', 'li', 'pre', 'blockquote', 'table', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'figure', 'hr'])
+
+const POSITIVE_PATTERN = /article|body|content|entry|hentry|main|page|post|text|blog|story|prose/i
+const NEGATIVE_PATTERN = /comment|meta|footer|footnote|sidebar|sponsor|share|social|promo|related|recommend|newsletter|subscribe|nav|menu|breadcrumb|banner|cookie|popup|modal|\bad-|advert/i
+
+const MIN_PARAGRAPH_LENGTH = 25
+
+function parse(html: string): ElementNode {
+  const root: ElementNode = { tag: 'root', attributes: {}, children: [], parent: null }
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(RAW_TEXT_TAGS, '')
+  const tokenPattern = /<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|([^<]+|<)/g
+  let current = root
+  let match: RegExpExecArray | null
+
+  while ((match = tokenPattern.exec(cleaned))) {
+    const [token, closing, rawTag, , text] = match
+    if (text !== undefined) {
+      current.children.push(decodeEntities(text))
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    if (closing) {
+      // Close up to the matching open element; stray end tags are ignored
+      let node: ElementNode | null = current
+      while (node && node.tag !== tag) node = node.parent
+      if (node?.parent) current = node.parent
+      continue
+    }
+
+    // An open <p> ends where the next block starts, as browsers do
+    if (current.tag === 'p' && BLOCK_TAGS.has(tag) && current.parent) current = current.parent
+    if (tag === 'li' && current.tag === 'li' && current.parent) current = current.parent
+
+    const element: ElementNode = { tag, attributes: parseAttributes(token), children: [], parent: current }
+    current.children.push(element)
+    if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) current = element
+  }
+
+  return root
+}
+
+function isElement(node: Node): node is ElementNode {
+  return typeof node !== 'string'
+}
+
+function elements(node: ElementNode): ElementNode[] {
+  return node.children.filter(isElement).flatMap(child => [child, ...elements(child)])
+}
+
+function textOf(node: Node): string {
+  if (!isElement(node)) return node
+  if (node.tag === 'br') return '\n'
+  return node.children.map(textOf).join('')
+}
+
+function classWeight(node: ElementNode) {
+  const names = `${node.attributes.class ?? ''} ${node.attributes.id ?? ''}`
+  let weight = 0
+  if (NEGATIVE_PATTERN.test(names)) weight -= 25
+  if (POSITIVE_PATTERN.test(names)) weight += 25
+  return weight
+}
+
+function isUnlikely(node: ElementNode) {
+  if (UNLIKELY_TAGS.has(node.tag)) return true
+  if (node.attributes.hidden !== undefined || node.attributes['aria-hidden'] === 'true') return true
+  const role = node.attributes.role ?? ''
+  return /navigation|banner|complementary|contentinfo|dialog/.test(role)
+}
+
+function linkDensity(node: ElementNode) {
+  const length = collapseWhitespace(textOf(node)).length
+  if (length === 0) return 0
+  const linkLength = elements(node)
+    .filter(child => child.tag === 'a')
+    .reduce((sum, link) => sum + collapseWhitespace(textOf(link)).length, 0)
+  return linkLength / length
+}
+
+function removeUnlikely(node: ElementNode) {
+  node.children = node.children.filter(child => !isElement(child) || !isUnlikely(child))
+  node.children.filter(isElement).forEach(removeUnlikely)
+}
+
+// Scores containers by the paragraphs inside them (a parent gets the full
+// paragraph score, the grandparent half) and returns the best one
+function findContentRoot(body: ElementNode) {
+  const scores = new Map<ElementNode, number>()
+  const initialScore = (node: ElementNode) => {
+    const base = node.tag === 'div' || node.tag === 'article' || node.tag === 'main' ? 5
+      : node.tag === 'pre' || node.tag === 'td' || node.tag === 'blockquote' ? 3
+        : node.tag === 'ol' || node.tag === 'ul' || node.tag === 'form' ? -3
+          : /^h[1-6]$/.test(node.tag) ? -5
+            : 0
+    return base + classWeight(node)
+  }
+
+  elements(body)
+    .filter(node => node.tag === 'p' || node.tag === 'pre' || node.tag === 'td')
+    .forEach(paragraph => {
+      const text = collapseWhitespace(textOf(paragraph))
+      if (text.length < MIN_PARAGRAPH_LENGTH) return
+      const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3)
+      const parent = paragraph.parent
+      const grandparent = parent?.parent
+      if (parent) scores.set(parent, (scores.get(parent) ?? initialScore(parent)) + score)
+      if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? initialScore(grandparent)) + score / 2)
+    })
+
+  let best: ElementNode | null = null
+  let bestScore = 0
+  scores.forEach((score, node) => {
+    const adjusted = score * (1 - linkDensity(node))
+    scores.set(node, adjusted)
+    if (adjusted > bestScore) {
+      best = node
+      bestScore = adjusted
+    }
+  })
+  if (!best) return [body]
+
+  // Content is often split across siblings (e.g. a lede outside the main
+  // column), so keep siblings that scored reasonably well too
+  const top: ElementNode = best
+  const parent = top.parent
+  if (!parent) return [top]
+  return parent.children.filter(isElement).filter(sibling =>
+    sibling === top || (scores.get(sibling) ?? 0) >= Math.max(10, bestScore * 0.2)
+  )
+}
+
+function toBlocks(node: ElementNode, blocks: ArticleBlock[], ordered = false) {
+  let inline = ''
+  const flushInline = () => {
+    const text = collapseWhitespace(inline)
+    if (text) blocks.push({ type: 'paragraph', text })
+    inline = ''
+  }
+
+  node.children.forEach(child => {
+    if (!isElement(child)) {
+      inline += child
+      return
+    }
+    if (!BLOCK_TAGS.has(child.tag)) {
+      inline += textOf(child)
+      return
+    }
+
+    flushInline()
+    const text = collapseWhitespace(textOf(child))
+    if (classWeight(child) < 0 && linkDensity(child) > 0.3) return
+
+    switch (child.tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+        if (text) blocks.push({ type: 'heading', level: 2, text })
+        break
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        if (text) blocks.push({ type: 'heading', level: 3, text })
+        break
+      case 'p':
+        if (text) blocks.push({ type: 'paragraph', text })
+        break
+      case 'pre': {
+        const code = textOf(child).replace(/^\n+|\s+$/g, '')
+        if (code) blocks.push({ type: 'code', text: code })
+        break
+      }
+      case 'blockquote':
+        if (text) blocks.push({ type: 'quote', text })
+        break
+      case 'ul':
+      case 'ol':
+        toBlocks(child, blocks, child.tag === 'ol')
+        break
+      case 'li':
+        if (text && linkDensity(child) < 0.8) blocks.push({ type: 'list-item', ordered, text })
+        break
+      case 'hr':
+        break
+      default:
+        toBlocks(child, blocks, ordered)
+    }
+  })
+  flushInline()
+}
+
+export function extractArticle(html: string): Article {
+  const root = parse(html)
+  const body = elements(root).find(node => node.tag === 'body') ?? root
+  removeUnlikely(body)
+
+  const blocks: ArticleBlock[] = []
+  findContentRoot(body).forEach(node => {
+    if (node.tag === 'p' || /^h[1-6]$/.test(node.tag) || node.tag === 'pre' || node.tag === 'blockquote') {
+      toBlocks({ ...node, tag: 'div', children: [node] }, blocks)
+    } else {
+      toBlocks(node, blocks)
+    }
+  })
+
+  const text = blocks.map(block => block.text).join('\n\n')
+  return {
+    blocks,
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  }
+}
@@ -0,0 +1,189 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { NextResponse } from 'next/server'
+import { findSavedUrls, getDomain, isDuplicateUrlError, readStateUpdate, type BookmarkSort, type ReadState } from '@/lib/bookmarks'
+import { BookmarkInputError, isUuid, type BookmarkInput } from '@/lib/bookmark-input'
+import { fetchMetadata } from '@/lib/metadata'
+import { TokenAuthError } from '@/lib/supabase/token'
+import { setBookmarkTags, type Tag } from '@/lib/tags'
+import { canEditWorkspace, type LibraryScope, type WorkspaceRole } from '@/lib/workspaces'
+
+// Shared pieces of the /api/v1 REST API: request validation, the public
+// bookmark shape and error responses. Bookmark fields are validated by
+// lib/bookmark-input.ts, which the app's server actions share.
+
+export { isUuid, parseBookmarkInput } from '@/lib/bookmark-input'
+
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+export const MAX_PAGE_SIZE = 200
+export const MAX_BULK_ITEMS = 100
+
+export type ApiBookmark = {
+  id: string
+  title: string
+  url: string
+  description: string | null
+  notes: string | null
+  image_url: string | null
+  domain: string | null
+  collection_id: string | null
+  read_state: ReadState
+  pinned: boolean
+  tags: string[]
+  created_at: string
+  updated_at: string
+}
+
+// A row selected with API_COLUMNS
+export type ApiBookmarkRow = Omit<ApiBookmark, 'tags'> & { tags: Tag[] }
+
+export const API_COLUMNS = 'id, title, url, description, notes, image_url, domain, collection_id, read_state, pinned, created_at, updated_at, tags(id, name)'
+
+export function toApiBookmark(row: ApiBookmarkRow): ApiBookmark {
+  return {
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    description: row.description,
+    notes: row.notes,
+    image_url: row.image_url,
+    domain: row.domain,
+    collection_id: row.collection_id,
+    read_state: row.read_state,
+    pinned: row.pinned,
+    tags: row.tags.map(tag => tag.name).sort(),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export function parseIds(value: unknown) {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isUuid)) {
+    throw new ApiError('ids must be a non-empty array of bookmark ids')
+  }
+  if (value.length > MAX_BULK_ITEMS) {
+    throw new ApiError(`At most ${MAX_BULK_ITEMS} ids per request`)
+  }
+  return [...new Set(value)]
+}
+
+// Opaque keyset cursor: the last row's sort value and id
+export function encodeCursor(value: string | null, id: string) {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url')
+}
+
+export function decodeCursor(cursor: string, sort: BookmarkSort) {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if ((typeof value !== 'string' && value !== null) || !isUuid(id)) throw new Error()
+    const column = sort === 'date' ? 'created_at' : sort
+    return { id, created_at: '', title: '', domain: null, [column]: value }
+  } catch {
+    throw new ApiError('Invalid cursor')
+  }
+}
+
+// Every request works in one workspace: the one named by `?workspace=`,
+// or the token owner's personal workspace
+export async function resolveWorkspace(
+  supabase: SupabaseClient,
+  userId: string,
+  requested: string | null,
+  { write }: { write: boolean }
+): Promise<LibraryScope> {
+  if (requested !== null && !isUuid(requested)) {
+    throw new ApiError('workspace must be a workspace id')
+  }
+  let query = supabase
+    .from('workspace_members')
+    .select('workspace_id, role, workspaces!inner(personal)')
+    .eq('user_id', userId)
+  query = requested ? query.eq('workspace_id', requested) : query.eq('workspaces.personal', true)
+  const { data, error } = await query.maybeSingle<{ workspace_id: string, role: WorkspaceRole }>()
+  if (error) throw new ApiError('Failed to load workspace', 500)
+  if (!data) throw new ApiError('Workspace not found', 404)
+  if (write && !canEditWorkspace(data.role)) {
+    throw new ApiError('Viewers cannot change this workspace', 403)
+  }
+  return { userId, workspaceId: data.workspace_id }
+}
+
+// Saves one bookmark the way the app does: metadata is fetched server-side
+// to fill in what the caller left out, and the URL must not already be saved
+export async function createBookmark(supabase: SupabaseClient, scope: LibraryScope, input: BookmarkInput) {
+  const url = input.url!
+  const saved = await findSavedUrls(supabase, scope.workspaceId, [url])
+  if (saved.length > 0) {
+    throw new ApiError('This URL is already bookmarked', 409)
+  }
+
+  // Private addresses are never fetched, but are still saved without metadata
+  const metadata = await fetchMetadata(url).catch(() => null)
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .insert([{
+      title: input.title || metadata?.title || getDomain(url),
+      url,
+      description: input.description !== undefined ? input.description : metadata?.description ?? null,
+      notes: input.notes ?? null,
+      image_url: metadata?.image_url ?? null,
+      canonical_url: metadata?.canonical_url ?? null,
+      favicon_url: metadata?.favicon_url ?? null,
+      collection_id: input.collection_id ?? null,
+      ...readStateUpdate(input.read_state ?? 'unread'),
+      pinned: input.pinned ?? false,
+      user_id: scope.userId,
+      workspace_id: scope.workspaceId,
+    }])
+    .select('id')
+    .single()
+  if (isDuplicateUrlError(error)) {
+    throw new ApiError('This URL is already bookmarked', 409)
+  }
+  if (error) {
+    throw new ApiError('Failed to save bookmark', 500)
+  }
+
+  if (input.tags?.length) {
+    await setBookmarkTags(supabase, scope, data.id, input.tags)
+  }
+  return readBookmark(supabase, scope, data.id)
+}
+
+export async function readBookmark(supabase: SupabaseClient, scope: LibraryScope, id: string) {
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .select(API_COLUMNS)
+    .eq('id', id)
+    .eq('workspace_id', scope.workspaceId)
+    .is('deleted_at', null)
+    .maybeSingle<ApiBookmarkRow>()
+  if (error) throw new ApiError('Failed to load bookmark', 500)
+  if (!data) throw new ApiError('Bookmark not found', 404)
+  return toApiBookmark(data)
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof TokenAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers: { 'WWW-Authenticate': 'Bearer' } }
+    )
+  }
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  if (error instanceof BookmarkInputError) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+  return NextResponse.json({ error: 'Something went wrong' }, { status: 500 })
+}
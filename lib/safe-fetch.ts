@@ -0,0 +1,237 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns'
+import { isIP } from 'node:net'
+import { Agent, fetch } from 'undici'
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+export class ResponseTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Response exceeded ${maxBytes} bytes`)
+    this.name = 'ResponseTooLargeError'
+  }
+}
+
+type SafeFetchOptions = {
+  method?: 'GET' | 'HEAD'
+  headers?: Record<string, string>
+  timeoutMs?: number
+  maxRedirects?: number
+}
+
+export type SafeFetchResult = {
+  response: Response
+  finalUrl: string
+  redirects: string[]
+}
+
+const DEFAULT_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; SaveNestBot/1.0; +https://github.com/sandeepj-git567/SaveNest)',
+  Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+}
+
+function isPrivateIPv4(address: string) {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  )
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function ipv6Groups(address: string) {
+  let text = address.toLowerCase().split('%')[0]
+  // A trailing dotted quad stands for the last two groups
+  const quad = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (quad) {
+    if (isIP(quad[2]) !== 4) return null
+    const [a, b, c, d] = quad[2].split('.').map(Number)
+    text = `${quad[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const parse = (part: string) => part ? part.split(':') : []
+  const head = parse(halves[0])
+  const tail = halves.length === 2 ? parse(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map(group => parseInt(group, 16))
+}
+
+function ipv4FromGroups(high: number, low: number) {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`
+}
+
+export function isPrivateAddress(address: string) {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+
+  const groups = ipv6Groups(address)
+  if (!groups) return true
+  const [first, second] = groups
+  const zeroUpTo = (count: number) => groups.slice(0, count).every(group => group === 0)
+
+  // Unspecified and loopback
+  if (zeroUpTo(7) && groups[7] <= 1) return true
+  // Addresses that carry an IPv4 one, which is checked in their place:
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d), NAT64
+  // (64:ff9b::a.b.c.d) and 6to4 (2002:aabb:ccdd::)
+  if ((zeroUpTo(5) && groups[5] === 0xffff) || zeroUpTo(6)) {
+    return isPrivateIPv4(ipv4FromGroups(groups[6], groups[7]))
+  }
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(ipv4FromGroups(groups[6], groups[7]))
+  }
+  if (first === 0x2002) return isPrivateIPv4(ipv4FromGroups(groups[1], groups[2]))
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 // multicast
+  )
+}
+
+// Rejects anything that isn't a plain http(s) URL pointing at a public address,
+// so user-supplied URLs can't be used to reach internal services. Host names
+// are checked again when the connection is made; see publicOnlyLookup.
+export function assertPublicUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError('Only http and https URLs are allowed')
+  }
+  if (url.username || url.password) {
+    throw new UnsafeUrlError('URLs with credentials are not allowed')
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new UnsafeUrlError('This host is not allowed')
+  }
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new UnsafeUrlError('This host is not allowed')
+  }
+}
+
+type LookupCallback = (error: Error | null, address: string | LookupAddress[], family?: number) => void
+
+// DNS lookup for the sockets safeFetch opens. Checking the addresses here,
+// on the answer the connection actually uses, means a host can't pass with
+// a public address and then resolve to a private one when fetched.
+function publicOnlyLookup(hostname: string, options: LookupOptions, callback: LookupCallback) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new UnsafeUrlError('This host is not allowed'), [])
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const publicOnlyAgent = new Agent({ connect: { lookup: publicOnlyLookup } })
+
+// fetch() wrapper for user-supplied URLs: validates every hop of the
+// redirect chain and aborts the whole request after `timeoutMs`.
+export async function safeFetch(
+  input: string,
+  { method = 'GET', headers, timeoutMs = 8000, maxRedirects = 5 }: SafeFetchOptions = {}
+): Promise<SafeFetchResult> {
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch {
+    throw new UnsafeUrlError('Invalid URL')
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs)
+  const redirects: string[] = []
+
+  for (;;) {
+    assertPublicUrl(url)
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method,
+        headers: { ...DEFAULT_HEADERS, ...headers },
+        redirect: 'manual',
+        signal,
+        dispatcher: publicOnlyAgent,
+        // undici's Response only differs from the DOM type in its iterator typings
+      }) as unknown as Response
+    } catch (error) {
+      // undici reports connection failures as "fetch failed" with the cause
+      if (error instanceof TypeError && error.cause instanceof UnsafeUrlError) throw error.cause
+      throw error
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects.length >= maxRedirects) {
+        throw new UnsafeUrlError('Too many redirects')
+      }
+      await response.body?.cancel()
+      url = new URL(location, url)
+      redirects.push(url.toString())
+      continue
+    }
+
+    return { response, finalUrl: url.toString(), redirects }
+  }
+}
+
+// Reads a response body, giving up once more than `maxBytes` arrive. With
+// `truncate` the first `maxBytes` are returned instead of throwing.
+export async function readLimitedBytes(response: Response, maxBytes: number, truncate = false) {
+  const declared = Number(response.headers.get('content-length'))
+  if (declared > maxBytes && !truncate) {
+    await response.body?.cancel()
+    throw new ResponseTooLargeError(maxBytes)
+  }
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      if (!truncate) throw new ResponseTooLargeError(maxBytes)
+      chunks.push(value.subarray(0, value.byteLength - (received - maxBytes)))
+      break
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+// readLimitedBytes, decoded with the charset the response declares
+export async function readLimitedText(response: Response, maxBytes: number, truncate = false) {
+  const bytes = await readLimitedBytes(response, maxBytes, truncate)
+  const charset = response.headers.get('content-type')?.match(/charset=["']?([\w-]+)/i)?.[1]
+  let decoder: TextDecoder
+  try {
+    decoder = new TextDecoder(charset ?? 'utf-8')
+  } catch {
+    decoder = new TextDecoder('utf-8')
+  }
+  return decoder.decode(bytes)
+}
@@ -0,0 +1,89 @@
+// Search syntax understood by the search box:
+//   word        prefix match on title, URL, description and notes
+//   "a phrase"  words must appear next to each other
+//   -word       exclude bookmarks containing the word
+//   site:x.com  only bookmarks on x.com or its subdomains (-site: excludes)
+//   tag:name    only bookmarks with the tag (-tag: excludes)
+
+export type ParsedSearch = {
+  terms: string[]
+  phrases: string[][]
+  excludedTerms: string[]
+  sites: string[]
+  excludedSites: string[]
+  tags: string[]
+  excludedTags: string[]
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+function words(text: string) {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? [])
+}
+
+export function parseSearchQuery(query: string): ParsedSearch {
+  const parsed: ParsedSearch = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    sites: [],
+    excludedSites: [],
+    tags: [],
+    excludedTags: [],
+  }
+
+  const tokenPattern = /(-?)(?:(site|tag):)?(?:"([^"]*)"?|(\S+))/gi
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(query))) {
+    const [, negation, operator, quoted, bare] = match
+    const value = (quoted ?? bare ?? '').trim()
+    const excluded = negation === '-'
+    if (!value) continue
+
+    switch (operator?.toLowerCase()) {
+      case 'site': {
+        const site = value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split('/')[0]
+        if (site) (excluded ? parsed.excludedSites : parsed.sites).push(site)
+        break
+      }
+      case 'tag': {
+        const tag = value.toLowerCase().replace(/^#/, '').replace(/\s+/g, '-')
+        if (tag) (excluded ? parsed.excludedTags : parsed.tags).push(tag)
+        break
+      }
+      default: {
+        const tokens = words(value)
+        if (tokens.length === 0) break
+        if (excluded) {
+          parsed.excludedTerms.push(...tokens)
+        } else if (quoted !== undefined && tokens.length > 1) {
+          parsed.phrases.push(tokens)
+        } else {
+          parsed.terms.push(...tokens)
+        }
+      }
+    }
+  }
+
+  return parsed
+}
+
+export function isEmptySearch(parsed: ParsedSearch) {
+  return Object.values(parsed).every(list => list.length === 0)
+}
+
+// Builds a to_tsquery('simple', ...) expression. Tokens only ever contain
+// letters and digits, so user input can't break the query syntax.
+export function toTsQuery(parsed: ParsedSearch) {
+  const clauses = [
+    ...parsed.terms.map(term => `${term}:*`),
+    ...parsed.phrases.map(phrase => `(${phrase.join(' <-> ')})`),
+    ...parsed.excludedTerms.map(term => `!${term}`),
+  ]
+  return clauses.length > 0 ? clauses.join(' & ') : null
+}
+
+// Words to highlight in matching cards
+export function highlightTerms(parsed: ParsedSearch) {
+  return [...new Set([...parsed.terms, ...parsed.phrases.flat()])]
+}
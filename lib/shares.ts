@@ -0,0 +1,56 @@
+export type ShareScope = 'tag' | 'collection' | 'selection'
+
+// What a new link will cover, picked from the current view
+export type ShareTarget =
+  | { scope: 'tag', tagName: string, label: string }
+  | { scope: 'collection', collectionId: string, label: string }
+  | { scope: 'selection', bookmarkIds: string[], label: string }
+
+export type SharedLink = {
+  id: string
+  token: string
+  title: string
+  description: string | null
+  scope: ShareScope
+  tag_name: string | null
+  collection_id: string | null
+  bookmark_ids: string[]
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_at: string
+}
+
+export const SHARED_LINK_COLUMNS = 'id, token, title, description, scope, tag_name, collection_id, bookmark_ids, expires_at, revoked_at, view_count, last_viewed_at, created_at'
+
+// What get_shared_collection() returns to visitors
+export type SharedCollection = {
+  title: string
+  description: string | null
+  created_at: string
+  expires_at: string | null
+  bookmarks: {
+    title: string
+    url: string
+    description: string | null
+    image_url: string | null
+    domain: string | null
+    created_at: string
+    tags: string[]
+  }[]
+}
+
+// 192 random bits, hex encoded; the token is the link's only secret
+export function generateShareToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function shareUrl(origin: string, token: string) {
+  return `${origin}/shared/${token}`
+}
+
+export function isShareActive(link: Pick<SharedLink, 'expires_at' | 'revoked_at'>) {
+  return !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date())
+}
@@ -0,0 +1,156 @@
+// Keyboard shortcuts. A binding is a key as KeyboardEvent.key reports it,
+// prefixed with "Mod+" (Ctrl, or Cmd on a Mac), "Alt+" and "Shift+" as held,
+// e.g. "Mod+k", "?" or "Shift+Delete". Shift is only spelled out for named
+// keys and Mod combinations; for anything else the key already shows it.
+
+export type ShortcutAction =
+  | 'palette'
+  | 'search'
+  | 'newBookmark'
+  | 'toggleTheme'
+  | 'help'
+  | 'next'
+  | 'previous'
+  | 'open'
+  | 'edit'
+  | 'select'
+  | 'delete'
+  | 'pin'
+  | 'toggleRead'
+  | 'toggleArchived'
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>
+
+export const SHORTCUTS: { action: ShortcutAction, label: string, group: 'General' | 'Navigation' | 'Bookmarks' }[] = [
+  { action: 'palette', label: 'Open the command palette', group: 'General' },
+  { action: 'search', label: 'Focus search', group: 'General' },
+  { action: 'newBookmark', label: 'Add a bookmark', group: 'General' },
+  { action: 'toggleTheme', label: 'Switch theme', group: 'General' },
+  { action: 'help', label: 'Show keyboard shortcuts', group: 'General' },
+  { action: 'next', label: 'Next bookmark', group: 'Navigation' },
+  { action: 'previous', label: 'Previous bookmark', group: 'Navigation' },
+  { action: 'open', label: 'Open the link', group: 'Navigation' },
+  { action: 'edit', label: 'Edit', group: 'Bookmarks' },
+  { action: 'select', label: 'Select or deselect', group: 'Bookmarks' },
+  { action: 'delete', label: 'Move to trash', group: 'Bookmarks' },
+  { action: 'pin', label: 'Pin or unpin', group: 'Bookmarks' },
+  { action: 'toggleRead', label: 'Mark read or unread', group: 'Bookmarks' },
+  { action: 'toggleArchived', label: 'Archive or unarchive', group: 'Bookmarks' },
+]
+
+export const DEFAULT_BINDINGS: ShortcutBindings = {
+  palette: ['Mod+k'],
+  search: ['/'],
+  newBookmark: ['Mod+n'],
+  toggleTheme: ['Mod+d'],
+  help: ['?'],
+  next: ['j'],
+  previous: ['k'],
+  open: ['Enter'],
+  edit: ['e'],
+  select: ['x'],
+  delete: ['Delete'],
+  pin: ['p'],
+  toggleRead: ['r'],
+  toggleArchived: ['a'],
+}
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']
+const MAX_BINDINGS_PER_ACTION = 3
+const MAX_BINDING_LENGTH = 40
+
+type KeyEvent = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+
+// The binding a key press matches, or null for a lone modifier
+export function eventToBinding(e: KeyEvent) {
+  if (MODIFIER_KEYS.includes(e.key)) return null
+  const key = e.key === ' ' ? 'Space' : e.key
+  const named = key.length > 1
+  const mod = e.ctrlKey || e.metaKey
+  return [
+    mod && 'Mod',
+    e.altKey && 'Alt',
+    e.shiftKey && (named || mod) && 'Shift',
+    mod && !named ? key.toLowerCase() : key,
+  ].filter(Boolean).join('+')
+}
+
+// Bindings with a modifier still work while typing in a field; single keys don't
+export function worksInFields(binding: string) {
+  return binding.startsWith('Mod+') || binding.startsWith('Alt+')
+}
+
+export function actionForBinding(bindings: ShortcutBindings, binding: string) {
+  return SHORTCUTS.find(({ action }) => bindings[action].includes(binding))?.action ?? null
+}
+
+// Defaults overlaid with what the user changed. Stored bindings come back
+// from user_preferences as plain JSON, so anything malformed is ignored.
+export function resolveBindings(custom: unknown): ShortcutBindings {
+  const bindings = { ...DEFAULT_BINDINGS }
+  if (!custom || typeof custom !== 'object') return bindings
+  for (const { action } of SHORTCUTS) {
+    const value = (custom as Record<string, unknown>)[action]
+    if (
+      Array.isArray(value)
+      && value.length <= MAX_BINDINGS_PER_ACTION
+      && value.every(binding => typeof binding === 'string' && binding && binding.length <= MAX_BINDING_LENGTH)
+    ) {
+      bindings[action] = value
+    }
+  }
+  return bindings
+}
+
+// Only the actions that differ from the defaults, which is what gets stored
+export function customizedBindings(bindings: ShortcutBindings) {
+  const custom: Partial<ShortcutBindings> = {}
+  for (const { action } of SHORTCUTS) {
+    if (bindings[action].join(' ') !== DEFAULT_BINDINGS[action].join(' ')) custom[action] = bindings[action]
+  }
+  return custom
+}
+
+export function isMacPlatform() {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent)
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+}
+
+// The keys of a binding as they'd be printed on a keyboard
+export function bindingKeys(binding: string, isMac: boolean) {
+  const [, prefix, key] = binding.match(/^((?:(?:Mod|Alt|Shift)\+)*)(.+)$/)!
+  const modifiers = prefix.split('+').filter(Boolean).map(modifier =>
+    modifier === 'Mod' ? (isMac ? '⌘' : 'Ctrl') : modifier === 'Alt' ? (isMac ? '⌥' : 'Alt') : (isMac ? '⇧' : 'Shift')
+  )
+  return [...modifiers, KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key)]
+}
+
+// Scores `text` against a fuzzy `query`: every query character has to appear
+// in order. Runs of consecutive characters and matches at word starts score
+// higher. Returns null when it doesn't match at all.
+export function fuzzyScore(query: string, text: string) {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  if (!needle) return 0
+  const haystack = text.toLowerCase()
+
+  let score = 0
+  let position = -1
+  let previous = -2
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1)
+    if (position === -1) return null
+    if (position === previous + 1) score += 3
+    if (position === 0 || /[\s\-_/.:]/.test(haystack[position - 1])) score += 2
+    score += 1
+    previous = position
+  }
+  // Prefer shorter texts when the match is otherwise the same
+  return score - haystack.length / 100
+}
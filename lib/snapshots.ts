@@ -0,0 +1,93 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findTags } from '@/lib/html'
+import { extractMetadata } from '@/lib/metadata'
+import { extractArticle, type ArticleBlock } from '@/lib/readability'
+import { readLimitedText, safeFetch } from '@/lib/safe-fetch'
+import type { LibraryScope } from '@/lib/workspaces'
+
+export type Snapshot = {
+  id: string
+  bookmark_id: string
+  source_url: string
+  title: string | null
+  byline: string | null
+  excerpt: string | null
+  content: ArticleBlock[]
+  word_count: number
+  html_path: string | null
+  created_at: string
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotError'
+  }
+}
+
+export const SNAPSHOT_BUCKET = 'snapshots'
+
+const MAX_HTML_BYTES = 5_000_000
+const TIMEOUT_MS = 15000
+
+// Fetches the bookmarked page and stores a readable copy plus the raw HTML.
+// Runs with the caller's Supabase client, so RLS and the storage policies
+// keep everything inside the workspace's rows and folder.
+export async function captureSnapshot(
+  supabase: SupabaseClient,
+  scope: LibraryScope,
+  bookmark: { id: string, url: string }
+): Promise<Snapshot> {
+  const { response, finalUrl } = await safeFetch(bookmark.url, { timeoutMs: TIMEOUT_MS })
+  const contentType = response.headers.get('content-type') ?? ''
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new SnapshotError(`The page answered with status ${response.status}`)
+  }
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel()
+    throw new SnapshotError('Only HTML pages can be saved')
+  }
+
+  const html = await readLimitedText(response, MAX_HTML_BYTES, true)
+  const metadata = extractMetadata(html, finalUrl)
+  const article = extractArticle(html)
+  if (article.blocks.length === 0) {
+    throw new SnapshotError('No readable text found on the page')
+  }
+
+  const id = crypto.randomUUID()
+  const htmlPath = `${scope.workspaceId}/${bookmark.id}/${id}.html`
+  const { error: uploadError } = await supabase.storage
+    .from(SNAPSHOT_BUCKET)
+    .upload(htmlPath, html, { contentType: 'text/html; charset=utf-8' })
+
+  const author = findTags(html.split(/<\/head>/i)[0], 'meta')
+    .find(attributes => (attributes.name ?? attributes.property ?? '').toLowerCase() === 'author')?.content
+
+  const { data, error } = await supabase
+    .from('bookmark_snapshots')
+    .insert([{
+      id,
+      bookmark_id: bookmark.id,
+      user_id: scope.userId,
+      workspace_id: scope.workspaceId,
+      source_url: finalUrl,
+      title: metadata.title,
+      byline: author?.trim() || null,
+      excerpt: metadata.description,
+      content: article.blocks,
+      text_content: article.text,
+      word_count: article.wordCount,
+      // The text copy is still worth keeping if the upload failed
+      html_path: uploadError ? null : htmlPath,
+    }])
+    .select('id, bookmark_id, source_url, title, byline, excerpt, content, word_count, html_path, created_at')
+    .single()
+  if (error) {
+    throw new SnapshotError('Could not save the snapshot')
+  }
+
+  await supabase.from('bookmarks').update({ snapshot_at: data.created_at }).eq('id', bookmark.id)
+  return data as Snapshot
+}
@@ -0,0 +1,15 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service-role client for scheduled jobs and access-token lookups, which run
+// without a signed-in user. It bypasses RLS, so only use it server-side and
+// scope every query yourself.
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,88 @@
+import { createHash, createHmac, randomBytes } from 'node:crypto'
+import { createClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { isTokenActive, type AccessTokenScope } from '@/lib/access-tokens'
+
+const TOKEN_PREFIX = 'snp_'
+const SESSION_SECONDS = 60
+const LAST_USED_RESOLUTION_MS = 60_000
+
+export class TokenAuthError extends Error {
+  status: 401 | 403
+
+  constructor(message: string, status: 401 | 403) {
+    super(message)
+    this.name = 'TokenAuthError'
+    this.status = status
+  }
+}
+
+export function hashAccessToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// A new random token. Only the hash and a short display prefix are stored.
+export function generateAccessToken() {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return {
+    token,
+    hash: hashAccessToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  }
+}
+
+// Short-lived Supabase session JWT for the token's owner, so queries run
+// as that user and RLS applies exactly as it does in the browser
+function signUserJwt(userId: string) {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET is not set')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url')
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + SESSION_SECONDS,
+  })}`
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`
+}
+
+// Server client for requests authenticated with a personal access token
+// (`Authorization: Bearer snp_...`) instead of session cookies. Checks the
+// token is live and carries `scope`, and records when it was last used.
+export async function createTokenClient(authorization: string | null, scope: AccessTokenScope) {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  if (!token?.startsWith(TOKEN_PREFIX)) {
+    throw new TokenAuthError('Missing or malformed access token', 401)
+  }
+
+  const admin = createAdminClient()
+  const { data: record } = await admin
+    .from('personal_access_tokens')
+    .select('id, user_id, scopes, expires_at, revoked_at, last_used_at')
+    .eq('token_hash', hashAccessToken(token))
+    .maybeSingle()
+  if (!record || !isTokenActive(record)) {
+    throw new TokenAuthError('Invalid, expired or revoked access token', 401)
+  }
+  if (!(record.scopes as string[]).includes(scope)) {
+    throw new TokenAuthError(`This token is missing the ${scope} scope`, 403)
+  }
+
+  // Only write when the stored time is stale, so busy scripts don't turn
+  // every request into an update
+  const now = new Date()
+  if (!record.last_used_at || now.getTime() - new Date(record.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await admin.from('personal_access_tokens').update({ last_used_at: now.toISOString() }).eq('id', record.id)
+  }
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${signUserJwt(record.user_id)}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  return { supabase, userId: record.user_id as string, tokenId: record.id as string }
+}
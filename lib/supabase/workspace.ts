@@ -0,0 +1,32 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import {
+  WORKSPACE_COOKIE,
+  pickWorkspace,
+  type Workspace,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from '@/lib/workspaces'
+
+type MembershipRow = { role: WorkspaceRole, workspaces: Workspace }
+
+// Workspaces the user belongs to, personal one first
+export async function getWorkspaces(supabase: SupabaseClient, userId: string): Promise<WorkspaceMembership[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name, personal, created_at)')
+    .eq('user_id', userId)
+    .returns<MembershipRow[]>()
+  if (error) throw error
+  return data
+    .map(row => ({ ...row.workspaces, role: row.role }))
+    .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name))
+}
+
+// The workspace picked in the header switcher, falling back to the personal
+// one when the cookie is missing or names a workspace the user has left
+export async function getActiveWorkspace(supabase: SupabaseClient, userId: string) {
+  const cookieStore = await cookies()
+  const workspaces = await getWorkspaces(supabase, userId)
+  return { workspaces, active: pickWorkspace(workspaces, cookieStore.get(WORKSPACE_COOKIE)?.value) }
+}
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LibraryScope } from '@/lib/workspaces'
+
+export type Tag = {
+  id: string
+  name: string
+}
+
+export function normalizeTagName(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+// Replaces the tags on a bookmark with the given names, creating any
+// tags the workspace doesn't have yet. Returns the tags now attached.
+export async function setBookmarkTags(
+  supabase: SupabaseClient,
+  scope: LibraryScope,
+  bookmarkId: string,
+  names: string[]
+): Promise<Tag[]> {
+  const uniqueNames = [...new Set(names.map(normalizeTagName).filter(Boolean))]
+
+  let tags: Tag[] = []
+  if (uniqueNames.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('tags')
+      .upsert(
+        uniqueNames.map(name => ({ name, user_id: scope.userId, workspace_id: scope.workspaceId })),
+        { onConflict: 'workspace_id,name', ignoreDuplicates: true }
+      )
+    if (upsertError) throw upsertError
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name')
+      .eq('workspace_id', scope.workspaceId)
+      .in('name', uniqueNames)
+    if (error) throw error
+    tags = data ?? []
+  }
+
+  const tagIds = tags.map(tag => tag.id)
+  let removeQuery = supabase
+    .from('bookmark_tags')
+    .delete()
+    .eq('bookmark_id', bookmarkId)
+  if (tagIds.length > 0) {
+    removeQuery = removeQuery.not('tag_id', 'in', `(${tagIds.join(',')})`)
+  }
+  const { error: removeError } = await removeQuery
+  if (removeError) throw removeError
+
+  if (tagIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from('bookmark_tags')
+      .upsert(
+        tagIds.map(tagId => ({ bookmark_id: bookmarkId, tag_id: tagId, user_id: scope.userId, workspace_id: scope.workspaceId })),
+        { onConflict: 'bookmark_id,tag_id', ignoreDuplicates: true }
+      )
+    if (linkError) throw linkError
+  }
+
+  return tags.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Adds tags to many bookmarks at once without touching tags they already have.
+export async function addTagsToBookmarks(
+  supabase: SupabaseClient,
+  scope: LibraryScope,
+  links: { bookmarkId: string, names: string[] }[]
+) {
+  const uniqueNames = [...new Set(links.flatMap(link => link.names.map(normalizeTagName)).filter(Boolean))]
+  if (uniqueNames.length === 0) return
+
+  const { error: upsertError } = await supabase
+    .from('tags')
+    .upsert(
+      uniqueNames.map(name => ({ name, user_id: scope.userId, workspace_id: scope.workspaceId })),
+      { onConflict: 'workspace_id,name', ignoreDuplicates: true }
+    )
+  if (upsertError) throw upsertError
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id, name')
+    .eq('workspace_id', scope.workspaceId)
+    .in('name', uniqueNames)
+  if (error) throw error
+
+  const idsByName = new Map((data ?? []).map((tag: Tag) => [tag.name, tag.id]))
+  const rows = links.flatMap(link =>
+    [...new Set(link.names.map(normalizeTagName))]
+      .filter(name => idsByName.has(name))
+      .map(name => ({ bookmark_id: link.bookmarkId, tag_id: idsByName.get(name), user_id: scope.userId, workspace_id: scope.workspaceId }))
+  )
+  if (rows.length === 0) return
+
+  const { error: linkError } = await supabase
+    .from('bookmark_tags')
+    .upsert(rows, { onConflict: 'bookmark_id,tag_id', ignoreDuplicates: true })
+  if (linkError) throw linkError
+}
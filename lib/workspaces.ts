@@ -0,0 +1,89 @@
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export type Workspace = {
+  id: string
+  name: string
+  personal: boolean
+  created_at: string
+}
+
+// A workspace as seen by one of its members
+export type WorkspaceMembership = Workspace & { role: WorkspaceRole }
+
+export type WorkspaceMember = {
+  user_id: string
+  email: string | null
+  role: WorkspaceRole
+  created_at: string
+}
+
+export type WorkspaceInvite = {
+  id: string
+  email: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  token: string
+  expires_at: string
+  accepted_at: string | null
+  created_at: string
+}
+
+// What get_workspace_invite() shows on the invite page
+export type WorkspaceInvitePreview = {
+  workspace_name: string
+  email: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  expires_at: string
+  accepted_at: string | null
+}
+
+// Who is writing and which library they are writing to. Rows keep user_id
+// as "added by"; workspace_id decides who can see them.
+export type LibraryScope = {
+  userId: string
+  workspaceId: string
+}
+
+export const WORKSPACE_COOKIE = 'savenest-workspace'
+
+export const WORKSPACE_INVITE_COLUMNS = 'id, email, role, token, expires_at, accepted_at, created_at'
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
+// Makes `workspaceId` the active workspace for this browser; null goes
+// back to the personal one. Callers refresh the page afterwards.
+export function rememberWorkspace(workspaceId: string | null) {
+  document.cookie = workspaceId
+    ? `${WORKSPACE_COOKIE}=${workspaceId}; path=/; max-age=31536000; samesite=lax`
+    : `${WORKSPACE_COOKIE}=; path=/; max-age=0; samesite=lax`
+}
+
+export function canEditWorkspace(role: WorkspaceRole) {
+  return role === 'owner' || role === 'editor'
+}
+
+// The cookie's workspace if the user still belongs to it, else their
+// personal one
+export function pickWorkspace(memberships: WorkspaceMembership[], preferredId: string | undefined) {
+  return memberships.find(workspace => workspace.id === preferredId)
+    ?? memberships.find(workspace => workspace.personal)
+    ?? memberships[0]
+    ?? null
+}
+
+// 192 random bits, hex encoded, like share tokens
+export function generateInviteToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function inviteUrl(origin: string, token: string) {
+  return `${origin}/invite/${token}`
+}
+
+export function isInvitePending(invite: Pick<WorkspaceInvite, 'accepted_at' | 'expires_at'>) {
+  return !invite.accepted_at && new Date(invite.expires_at) > new Date()
+}
@@ -7,19 +7,10 @@ const nextConfig: NextConfig = {
   },
   images: {
     remotePatterns: [
-      {
-        protocol: 'https',
-        hostname: 'www.google.com',
-        pathname: '/s2/favicons/**',
-      },
       {
         protocol: 'https',
         hostname: '**.githubusercontent.com',
       },
-      {
-        protocol: 'https',
-        hostname: '**.favicon.ico',
-      },
     ],
   },
 };
@@ -27,3 +27,1651 @@ create policy "Users can delete own bookmarks"
 
 -- Enable realtime
 alter publication supabase_realtime add table bookmarks;
+
+-- Create tags table
+create table tags (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  name text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+-- Create join table between bookmarks and tags
+create table bookmark_tags (
+  bookmark_id uuid references bookmarks on delete cascade not null,
+  tag_id uuid references tags on delete cascade not null,
+  user_id uuid references auth.users not null,
+  primary key (bookmark_id, tag_id)
+);
+
+create index bookmark_tags_tag_id_idx on bookmark_tags (tag_id);
+
+-- Enable Row Level Security
+alter table tags enable row level security;
+alter table bookmark_tags enable row level security;
+
+-- Create policies: Users can only manage their own tags
+create policy "Users can view own tags"
+  on tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own tags"
+  on tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own tags"
+  on tags for delete
+  using (auth.uid() = user_id);
+
+-- Create policies: Users can only tag their own bookmarks with their own tags
+create policy "Users can view own bookmark tags"
+  on bookmark_tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own bookmark tags"
+  on bookmark_tags for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from bookmarks where bookmarks.id = bookmark_id and bookmarks.user_id = auth.uid())
+    and exists (select 1 from tags where tags.id = tag_id and tags.user_id = auth.uid())
+  );
+
+create policy "Users can delete own bookmark tags"
+  on bookmark_tags for delete
+  using (auth.uid() = user_id);
+
+-- Enable realtime for tag changes
+alter publication supabase_realtime add table bookmark_tags;
+
+-- Create collections table (folders, optionally nested)
+create table collections (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users not null,
+  parent_id uuid references collections on delete cascade,
+  name text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index collections_parent_id_idx on collections (parent_id);
+
+-- Bookmarks belong to at most one collection
+alter table bookmarks add column collection_id uuid references collections on delete set null;
+
+create index bookmarks_collection_id_idx on bookmarks (collection_id);
+
+-- Enable Row Level Security
+alter table collections enable row level security;
+
+-- Create policies: Users can only manage their own collections
+create policy "Users can view own collections"
+  on collections for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own collections"
+  on collections for insert
+  with check (
+    auth.uid() = user_id
+    and (parent_id is null or exists (select 1 from collections parent where parent.id = parent_id and parent.user_id = auth.uid()))
+  );
+
+create policy "Users can update own collections"
+  on collections for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (parent_id is null or exists (select 1 from collections parent where parent.id = parent_id and parent.user_id = auth.uid()))
+  );
+
+-- A folder can't be moved into itself or one of its own subfolders, which
+-- would leave a loop that never reaches the top level
+create or replace function prevent_collection_cycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and exists (
+    with recursive ancestors as (
+      select c.id, c.parent_id from collections c where c.id = new.parent_id
+      union
+      select c.id, c.parent_id from collections c join ancestors a on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A folder cannot be moved into itself or one of its subfolders'
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger collections_prevent_cycle
+  before insert or update of parent_id on collections
+  for each row execute function prevent_collection_cycle();
+
+create policy "Users can delete own collections"
+  on collections for delete
+  using (auth.uid() = user_id);
+
+-- Create policy: Users can update their own bookmarks (edits, and moves between collections)
+create policy "Users can update own bookmarks"
+  on bookmarks for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Enable realtime
+alter publication supabase_realtime add table collections;
+
+-- Page metadata extracted server-side by /api/metadata
+alter table bookmarks add column description text;
+alter table bookmarks add column image_url text;
+alter table bookmarks add column canonical_url text;
+alter table bookmarks add column favicon_url text;
+
+-- Full-text search: weighted tsvector over title, description and URL words
+alter table bookmarks add column search_vector tsvector generated always as (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'C')
+) stored;
+
+create index bookmarks_search_vector_idx on bookmarks using gin (search_vector);
+
+-- Ranked search used by the search box. search_query is a to_tsquery('simple')
+-- expression built by lib/search.ts; site and tag filters are matched exactly.
+-- Runs as the caller, so the bookmarks RLS policies still apply.
+create or replace function search_bookmarks(
+  search_query text default null,
+  sites text[] default '{}',
+  excluded_sites text[] default '{}',
+  tag_names text[] default '{}',
+  excluded_tag_names text[] default '{}',
+  max_results int default 500
+)
+returns setof bookmarks
+language sql
+stable
+security invoker
+as $$
+  select b.*
+  from bookmarks b
+  cross join lateral (
+    select lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')) as host
+  ) h
+  where b.user_id = auth.uid()
+    and (search_query is null or b.search_vector @@ to_tsquery('simple', search_query))
+    and (
+      cardinality(sites) = 0
+      or exists (select 1 from unnest(sites) s where h.host = s or h.host like '%.' || s)
+    )
+    and not exists (select 1 from unnest(excluded_sites) s where h.host = s or h.host like '%.' || s)
+    and not exists (
+      select 1 from unnest(tag_names) t
+      where not exists (
+        select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+        where bt.bookmark_id = b.id and tg.name = t
+      )
+    )
+    and not exists (
+      select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+      where bt.bookmark_id = b.id and tg.name = any(excluded_tag_names)
+    )
+  order by
+    case when search_query is null then 0 else ts_rank(b.search_vector, to_tsquery('simple', search_query)) end desc,
+    b.created_at desc
+  limit max_results
+$$;
+
+-- Domain used for sorting, derived from the URL host without "www."
+alter table bookmarks add column domain text generated always as (
+  lower(regexp_replace(
+    substring(url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)'),
+    '^www\.', ''
+  ))
+) stored;
+
+-- Keyset pagination indexes, one per sort order (id breaks ties)
+create index bookmarks_user_created_idx on bookmarks (user_id, created_at desc, id desc);
+create index bookmarks_user_title_idx on bookmarks (user_id, title, id);
+create index bookmarks_user_domain_idx on bookmarks (user_id, domain, id);
+
+-- Bookmark totals per collection (null = unsorted) for the sidebar,
+-- so counts don't depend on how many pages the client has loaded
+create or replace function bookmark_counts()
+returns table (collection_id uuid, bookmark_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select b.collection_id, count(*)
+  from bookmarks b
+  where b.user_id = auth.uid()
+  group by b.collection_id
+$$;
+
+-- Last modification time, maintained by trigger; realtime catch-up after a
+-- reconnect fetches rows changed since the last event it saw
+alter table bookmarks add column updated_at timestamp with time zone default timezone('utc'::text, now()) not null;
+
+create index bookmarks_user_updated_idx on bookmarks (user_id, updated_at);
+
+create or replace function set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = timezone('utc'::text, now());
+  return new;
+end;
+$$;
+
+create trigger bookmarks_set_updated_at
+  before update on bookmarks
+  for each row execute function set_updated_at();
+
+-- Edit history: the previous title and URL, recorded whenever either changes
+create table bookmark_revisions (
+  id uuid default gen_random_uuid() primary key,
+  bookmark_id uuid references bookmarks on delete cascade not null,
+  user_id uuid references auth.users not null,
+  title text not null,
+  url text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index bookmark_revisions_bookmark_id_idx on bookmark_revisions (bookmark_id, created_at desc);
+
+-- Enable Row Level Security
+alter table bookmark_revisions enable row level security;
+
+-- Create policy: Users can view their own revisions. Rows are only written
+-- by the trigger below, so there are no insert/update/delete policies.
+create policy "Users can view own bookmark revisions"
+  on bookmark_revisions for select
+  using (auth.uid() = user_id);
+
+create or replace function record_bookmark_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.title is distinct from old.title or new.url is distinct from old.url then
+    insert into bookmark_revisions (bookmark_id, user_id, title, url)
+    values (old.id, old.user_id, old.title, old.url);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bookmarks_record_revision
+  after update on bookmarks
+  for each row execute function record_bookmark_revision();
+
+-- Soft delete: deleting a bookmark moves it to the trash by setting
+-- deleted_at; it can be restored until the purge below removes it for good
+alter table bookmarks add column deleted_at timestamp with time zone;
+
+create index bookmarks_user_deleted_idx on bookmarks (user_id, deleted_at) where deleted_at is not null;
+
+-- Search and folder counts only consider bookmarks that aren't in the trash
+create or replace function search_bookmarks(
+  search_query text default null,
+  sites text[] default '{}',
+  excluded_sites text[] default '{}',
+  tag_names text[] default '{}',
+  excluded_tag_names text[] default '{}',
+  max_results int default 500
+)
+returns setof bookmarks
+language sql
+stable
+security invoker
+as $$
+  select b.*
+  from bookmarks b
+  cross join lateral (
+    select lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')) as host
+  ) h
+  where b.user_id = auth.uid()
+    and b.deleted_at is null
+    and (search_query is null or b.search_vector @@ to_tsquery('simple', search_query))
+    and (
+      cardinality(sites) = 0
+      or exists (select 1 from unnest(sites) s where h.host = s or h.host like '%.' || s)
+    )
+    and not exists (select 1 from unnest(excluded_sites) s where h.host = s or h.host like '%.' || s)
+    and not exists (
+      select 1 from unnest(tag_names) t
+      where not exists (
+        select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+        where bt.bookmark_id = b.id and tg.name = t
+      )
+    )
+    and not exists (
+      select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+      where bt.bookmark_id = b.id and tg.name = any(excluded_tag_names)
+    )
+  order by
+    case when search_query is null then 0 else ts_rank(b.search_vector, to_tsquery('simple', search_query)) end desc,
+    b.created_at desc
+  limit max_results
+$$;
+
+create or replace function bookmark_counts()
+returns table (collection_id uuid, bookmark_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select b.collection_id, count(*)
+  from bookmarks b
+  where b.user_id = auth.uid()
+    and b.deleted_at is null
+  group by b.collection_id
+$$;
+
+-- How long bookmarks stay in the trash. Change the number here to adjust
+-- the retention period; the app reads it to tell users when items expire.
+create or replace function trash_retention_days()
+returns int
+language sql
+immutable
+as $$
+  select 30
+$$;
+
+-- Permanently deletes trashed bookmarks older than the retention period.
+-- Runs as the owner so it can clear every user's trash; only the scheduler
+-- may call it.
+create or replace function purge_deleted_bookmarks()
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purged int;
+begin
+  delete from bookmarks
+  where deleted_at < timezone('utc'::text, now()) - make_interval(days => trash_retention_days());
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
+
+revoke execute on function purge_deleted_bookmarks() from public, anon, authenticated;
+
+-- Schedule the purge nightly with pg_cron (enable it under Database →
+-- Extensions in the Supabase dashboard first)
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-deleted-bookmarks', '0 3 * * *', 'select purge_deleted_bookmarks()');
+
+-- Link health, written by the link checker (/api/link-check and the
+-- scheduled /api/cron/link-check job). link_status is the final HTTP status,
+-- link_final_url is set when the URL redirected, link_error when the request
+-- failed outright (DNS, timeout, refused connection).
+alter table bookmarks add column link_status int;
+alter table bookmarks add column link_final_url text;
+alter table bookmarks add column link_error text;
+alter table bookmarks add column link_checked_at timestamp with time zone;
+
+create index bookmarks_link_checked_idx on bookmarks (link_checked_at nulls first) where deleted_at is null;
+
+-- Offline snapshots: the readable article text lives in this table, the raw
+-- HTML in the private "snapshots" storage bucket at <user_id>/<bookmark_id>/<id>.html.
+-- Storage objects aren't removed by the cascade when a bookmark is purged.
+create table bookmark_snapshots (
+  id uuid default gen_random_uuid() primary key,
+  bookmark_id uuid references bookmarks on delete cascade not null,
+  user_id uuid references auth.users not null,
+  source_url text not null,
+  title text,
+  byline text,
+  excerpt text,
+  content jsonb not null,
+  text_content text not null,
+  word_count int not null default 0,
+  html_path text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index bookmark_snapshots_bookmark_id_idx on bookmark_snapshots (bookmark_id, created_at desc);
+
+-- When the latest snapshot was taken, so cards can offer the reader view
+alter table bookmarks add column snapshot_at timestamp with time zone;
+
+-- Enable Row Level Security
+alter table bookmark_snapshots enable row level security;
+
+-- Create policies: Users can only manage snapshots of their own bookmarks
+create policy "Users can view own snapshots"
+  on bookmark_snapshots for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own snapshots"
+  on bookmark_snapshots for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from bookmarks where bookmarks.id = bookmark_id and bookmarks.user_id = auth.uid())
+  );
+
+create policy "Users can delete own snapshots"
+  on bookmark_snapshots for delete
+  using (auth.uid() = user_id);
+
+-- Private bucket for raw HTML; each user can only touch their own folder
+insert into storage.buckets (id, name, public)
+values ('snapshots', 'snapshots', false)
+on conflict (id) do nothing;
+
+create policy "Users can view own snapshot files"
+  on storage.objects for select
+  using (bucket_id = 'snapshots' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload own snapshot files"
+  on storage.objects for insert
+  with check (bucket_id = 'snapshots' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete own snapshot files"
+  on storage.objects for delete
+  using (bucket_id = 'snapshots' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Personal access tokens for the /api/v1 REST API. Only a SHA-256 hash of
+-- each token is stored; the plaintext is shown once when it is created.
+create table personal_access_tokens (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  name text not null,
+  token_hash text not null unique,
+  token_prefix text not null,
+  scopes text[] not null default '{}'
+    check (scopes <@ array['bookmarks:read', 'bookmarks:write']::text[]),
+  expires_at timestamp with time zone,
+  last_used_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index personal_access_tokens_user_id_idx on personal_access_tokens (user_id, created_at desc);
+
+-- Enable Row Level Security
+alter table personal_access_tokens enable row level security;
+
+-- Create policies: Users can only manage their own tokens. Tokens are looked
+-- up by hash with the service-role client when an API request comes in.
+create policy "Users can view own tokens"
+  on personal_access_tokens for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own tokens"
+  on personal_access_tokens for insert
+  with check (auth.uid() = user_id);
+
+-- Once issued, a token can only be revoked, so there is no update policy
+-- that would let a session bring one back or widen its scopes
+create or replace function revoke_access_token(target uuid)
+returns timestamp with time zone
+language sql
+security definer
+set search_path = public
+as $$
+  update personal_access_tokens
+  set revoked_at = coalesce(revoked_at, now())
+  where id = target and user_id = auth.uid()
+  returning revoked_at
+$$;
+
+revoke execute on function revoke_access_token(uuid) from anon;
+
+-- Public read-only links to a tag, a folder (with its subfolders) or a
+-- hand-picked selection. The token is the only thing needed to view one.
+create table shared_links (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  token text not null unique check (char_length(token) >= 32),
+  title text not null,
+  description text,
+  scope text not null check (scope in ('tag', 'collection', 'selection')),
+  tag_name text,
+  collection_id uuid references collections on delete cascade,
+  bookmark_ids uuid[] not null default '{}',
+  expires_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  view_count int not null default 0,
+  last_viewed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  check (
+    (scope = 'tag' and tag_name is not null)
+    or (scope = 'collection' and collection_id is not null)
+    or (scope = 'selection' and cardinality(bookmark_ids) > 0)
+  )
+);
+
+create index shared_links_user_id_idx on shared_links (user_id, created_at desc);
+
+-- Enable Row Level Security
+alter table shared_links enable row level security;
+
+-- Create policies: Users can only manage their own links. Visitors never
+-- read this table directly; they go through get_shared_collection().
+create policy "Users can view own shared links"
+  on shared_links for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own shared links"
+  on shared_links for insert
+  with check (
+    auth.uid() = user_id
+    and (collection_id is null or exists (
+      select 1 from collections where collections.id = collection_id and collections.user_id = auth.uid()
+    ))
+  );
+
+create policy "Users can update own shared links"
+  on shared_links for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own shared links"
+  on shared_links for delete
+  using (auth.uid() = user_id);
+
+-- Returns a live shared link's title and bookmarks, counting the view, or
+-- null for unknown, revoked or expired tokens. Runs as definer so anonymous
+-- visitors can read exactly the rows the link covers: the owner's
+-- non-deleted bookmarks in its scope, and only public-safe columns.
+create or replace function get_shared_collection(share_token text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  share shared_links;
+  items json;
+begin
+  update shared_links
+  set view_count = view_count + 1, last_viewed_at = now()
+  where token = share_token
+    and revoked_at is null
+    and (expires_at is null or expires_at > now())
+  returning * into share;
+
+  if not found then
+    return null;
+  end if;
+
+  with recursive folders as (
+    select c.id from collections c where c.id = share.collection_id and c.user_id = share.user_id
+    union
+    select c.id from collections c join folders f on c.parent_id = f.id
+  )
+  select coalesce(json_agg(row_to_json(shared) order by shared.created_at desc), '[]'::json)
+  into items
+  from (
+    select
+      b.title,
+      b.url,
+      b.description,
+      b.image_url,
+      b.domain,
+      b.created_at,
+      array(
+        select t.name from bookmark_tags bt join tags t on t.id = bt.tag_id
+        where bt.bookmark_id = b.id order by t.name
+      ) as tags
+    from bookmarks b
+    where b.user_id = share.user_id
+      and b.deleted_at is null
+      and case share.scope
+        when 'tag' then exists (
+          select 1 from bookmark_tags bt join tags t on t.id = bt.tag_id
+          where bt.bookmark_id = b.id and t.name = share.tag_name
+        )
+        when 'collection' then b.collection_id in (select id from folders)
+        else b.id = any(share.bookmark_ids)
+      end
+    order by b.created_at desc
+    limit 500
+  ) shared;
+
+  return json_build_object(
+    'title', share.title,
+    'description', share.description,
+    'created_at', share.created_at,
+    'expires_at', share.expires_at,
+    'bookmarks', items
+  );
+end;
+$$;
+
+grant execute on function get_shared_collection(text) to anon, authenticated;
+
+-- Team workspaces. Every library is a workspace: each user gets a personal
+-- one, and can create shared ones with owner/editor/viewer members. Rows keep
+-- user_id as "added by"; access is decided by workspace membership.
+create table workspaces (
+  id uuid default gen_random_uuid() primary key,
+  name text not null check (char_length(name) between 1 and 100),
+  personal boolean not null default false,
+  created_by uuid references auth.users on delete cascade not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index workspaces_personal_idx on workspaces (created_by) where personal;
+
+create table workspace_members (
+  workspace_id uuid references workspaces on delete cascade not null,
+  user_id uuid references auth.users on delete cascade not null,
+  email text,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on workspace_members (user_id);
+
+-- Invitations are accepted through /invite/<token> by the invited email only
+create table workspace_invites (
+  id uuid default gen_random_uuid() primary key,
+  workspace_id uuid references workspaces on delete cascade not null,
+  email text not null,
+  role text not null check (role in ('editor', 'viewer')),
+  token text not null unique check (char_length(token) >= 32),
+  invited_by uuid references auth.users on delete cascade not null,
+  expires_at timestamp with time zone default timezone('utc'::text, now()) + interval '7 days' not null,
+  accepted_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index workspace_invites_workspace_id_idx on workspace_invites (workspace_id, created_at desc);
+
+-- Membership checks used by the policies below. Security definer so the
+-- workspace_members policies can use them without recursing into themselves.
+create or replace function workspace_role(target uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from workspace_members where workspace_id = target and user_id = auth.uid()
+$$;
+
+create or replace function is_workspace_member(target uuid)
+returns boolean
+language sql
+stable
+as $$
+  select workspace_role(target) is not null
+$$;
+
+create or replace function can_edit_workspace(target uuid)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(workspace_role(target) in ('owner', 'editor'), false)
+$$;
+
+-- Enable Row Level Security
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table workspace_invites enable row level security;
+
+-- Create policies: Members can see their workspaces and each other; only
+-- owners rename, delete, manage roles and invite, and personal workspaces
+-- can't be shared. Workspaces and memberships are created through
+-- create_workspace() and accept_workspace_invite().
+create policy "Members can view workspaces"
+  on workspaces for select
+  using (is_workspace_member(id));
+
+create policy "Owners can update workspaces"
+  on workspaces for update
+  using (workspace_role(id) = 'owner')
+  with check (workspace_role(id) = 'owner');
+
+create policy "Owners can delete shared workspaces"
+  on workspaces for delete
+  using (workspace_role(id) = 'owner' and not personal);
+
+create policy "Members can view workspace members"
+  on workspace_members for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Owners can change member roles"
+  on workspace_members for update
+  using (workspace_role(workspace_id) = 'owner' and user_id <> auth.uid())
+  with check (workspace_role(workspace_id) = 'owner' and user_id <> auth.uid());
+
+create policy "Owners can remove members and members can leave"
+  on workspace_members for delete
+  using (
+    (workspace_role(workspace_id) = 'owner' and user_id <> auth.uid())
+    or (user_id = auth.uid() and role <> 'owner')
+  );
+
+-- The update policies above only say who may update. Owners can rename a
+-- workspace and change a member's role, nothing else: without these column
+-- grants they could turn a membership into one for any account, or flip
+-- a workspace's personal flag and creator.
+revoke update on workspaces from anon, authenticated;
+grant update (name) on workspaces to authenticated;
+revoke update on workspace_members from anon, authenticated;
+grant update (role) on workspace_members to authenticated;
+
+create policy "Owners can view invites"
+  on workspace_invites for select
+  using (workspace_role(workspace_id) = 'owner');
+
+create policy "Owners can create invites"
+  on workspace_invites for insert
+  with check (
+    workspace_role(workspace_id) = 'owner'
+    and invited_by = auth.uid()
+    and not exists (select 1 from workspaces where workspaces.id = workspace_id and workspaces.personal)
+  );
+
+create policy "Owners can delete invites"
+  on workspace_invites for delete
+  using (workspace_role(workspace_id) = 'owner');
+
+-- Creates a shared workspace with the caller as its owner
+create or replace function create_workspace(workspace_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  insert into workspaces (name, created_by) values (trim(workspace_name), auth.uid())
+  returning id into created;
+  insert into workspace_members (workspace_id, user_id, email, role)
+  values (created, auth.uid(), auth.jwt() ->> 'email', 'owner');
+  return created;
+end;
+$$;
+
+-- What the invite page shows before accepting; null for unknown tokens
+create or replace function get_workspace_invite(invite_token text)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'workspace_name', w.name,
+    'email', i.email,
+    'role', i.role,
+    'expires_at', i.expires_at,
+    'accepted_at', i.accepted_at
+  )
+  from workspace_invites i
+  join workspaces w on w.id = i.workspace_id
+  where i.token = invite_token
+$$;
+
+-- Joins the invited workspace if the invite is live and addressed to the
+-- caller's email. Returns the workspace id.
+create or replace function accept_workspace_invite(invite_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite workspace_invites;
+begin
+  select * into invite from workspace_invites where token = invite_token for update;
+  if not found or invite.accepted_at is not null or invite.expires_at < now() then
+    raise exception 'This invitation is no longer valid';
+  end if;
+  if lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'This invitation was sent to a different email address';
+  end if;
+
+  insert into workspace_members (workspace_id, user_id, email, role)
+  values (invite.workspace_id, auth.uid(), auth.jwt() ->> 'email', invite.role)
+  on conflict (workspace_id, user_id) do nothing;
+  update workspace_invites set accepted_at = now() where id = invite.id;
+  return invite.workspace_id;
+end;
+$$;
+
+revoke execute on function create_workspace(text) from anon;
+revoke execute on function accept_workspace_invite(text) from anon;
+
+-- A personal workspace for every new user, and for existing ones
+create or replace function create_personal_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created uuid;
+begin
+  insert into workspaces (name, personal, created_by) values ('Personal', true, new.id)
+  returning id into created;
+  insert into workspace_members (workspace_id, user_id, email, role)
+  values (created, new.id, new.email, 'owner');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_workspace
+  after insert on auth.users
+  for each row execute function create_personal_workspace();
+
+insert into workspaces (name, personal, created_by)
+select 'Personal', true, id from auth.users
+on conflict (created_by) where personal do nothing;
+
+insert into workspace_members (workspace_id, user_id, email, role)
+select w.id, w.created_by, u.email, 'owner'
+from workspaces w join auth.users u on u.id = w.created_by
+where w.personal
+on conflict (workspace_id, user_id) do nothing;
+
+-- Move every library table onto workspaces, starting from the personal one
+alter table bookmarks add column workspace_id uuid references workspaces on delete cascade;
+alter table collections add column workspace_id uuid references workspaces on delete cascade;
+alter table tags add column workspace_id uuid references workspaces on delete cascade;
+alter table bookmark_tags add column workspace_id uuid references workspaces on delete cascade;
+alter table bookmark_revisions add column workspace_id uuid references workspaces on delete cascade;
+alter table bookmark_snapshots add column workspace_id uuid references workspaces on delete cascade;
+alter table shared_links add column workspace_id uuid references workspaces on delete cascade;
+
+update bookmarks t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update collections t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update tags t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update bookmark_tags t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update bookmark_revisions t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update bookmark_snapshots t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+update shared_links t set workspace_id = w.id from workspaces w where w.personal and w.created_by = t.user_id;
+
+alter table bookmarks alter column workspace_id set not null;
+alter table collections alter column workspace_id set not null;
+alter table tags alter column workspace_id set not null;
+alter table bookmark_tags alter column workspace_id set not null;
+alter table bookmark_revisions alter column workspace_id set not null;
+alter table bookmark_snapshots alter column workspace_id set not null;
+alter table shared_links alter column workspace_id set not null;
+
+-- Tag names are unique per workspace rather than per user
+alter table tags drop constraint tags_user_id_name_key;
+alter table tags add constraint tags_workspace_id_name_key unique (workspace_id, name);
+
+-- Keyset pagination and catch-up indexes, now per workspace
+create index bookmarks_workspace_created_idx on bookmarks (workspace_id, created_at desc, id desc);
+create index bookmarks_workspace_title_idx on bookmarks (workspace_id, title, id);
+create index bookmarks_workspace_domain_idx on bookmarks (workspace_id, domain, id);
+create index bookmarks_workspace_updated_idx on bookmarks (workspace_id, updated_at);
+create index collections_workspace_id_idx on collections (workspace_id);
+
+-- Replace the per-user policies with membership-based ones: every member
+-- can read, owners and editors can write
+drop policy "Users can view own bookmarks" on bookmarks;
+drop policy "Users can insert own bookmarks" on bookmarks;
+drop policy "Users can update own bookmarks" on bookmarks;
+drop policy "Users can delete own bookmarks" on bookmarks;
+
+create policy "Members can view workspace bookmarks"
+  on bookmarks for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Editors can insert workspace bookmarks"
+  on bookmarks for insert
+  with check (
+    auth.uid() = user_id
+    and can_edit_workspace(workspace_id)
+    and (collection_id is null or exists (
+      select 1 from collections where collections.id = collection_id and collections.workspace_id = bookmarks.workspace_id
+    ))
+  );
+
+create policy "Editors can update workspace bookmarks"
+  on bookmarks for update
+  using (can_edit_workspace(workspace_id))
+  with check (
+    can_edit_workspace(workspace_id)
+    and (collection_id is null or exists (
+      select 1 from collections where collections.id = collection_id and collections.workspace_id = bookmarks.workspace_id
+    ))
+  );
+
+create policy "Editors can delete workspace bookmarks"
+  on bookmarks for delete
+  using (can_edit_workspace(workspace_id));
+
+-- Editors may change each other's bookmarks, but who added one stays as is
+create or replace function keep_bookmark_user()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'A bookmark''s user_id cannot be changed'
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bookmarks_keep_user
+  before update of user_id on bookmarks
+  for each row execute function keep_bookmark_user();
+
+drop policy "Users can view own collections" on collections;
+drop policy "Users can insert own collections" on collections;
+drop policy "Users can update own collections" on collections;
+drop policy "Users can delete own collections" on collections;
+
+create policy "Members can view workspace collections"
+  on collections for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Editors can insert workspace collections"
+  on collections for insert
+  with check (
+    auth.uid() = user_id
+    and can_edit_workspace(workspace_id)
+    and (parent_id is null or exists (
+      select 1 from collections parent where parent.id = parent_id and parent.workspace_id = collections.workspace_id
+    ))
+  );
+
+create policy "Editors can update workspace collections"
+  on collections for update
+  using (can_edit_workspace(workspace_id))
+  with check (
+    can_edit_workspace(workspace_id)
+    and (parent_id is null or exists (
+      select 1 from collections parent where parent.id = parent_id and parent.workspace_id = collections.workspace_id
+    ))
+  );
+
+create policy "Editors can delete workspace collections"
+  on collections for delete
+  using (can_edit_workspace(workspace_id));
+
+drop policy "Users can view own tags" on tags;
+drop policy "Users can insert own tags" on tags;
+drop policy "Users can delete own tags" on tags;
+
+create policy "Members can view workspace tags"
+  on tags for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Editors can insert workspace tags"
+  on tags for insert
+  with check (auth.uid() = user_id and can_edit_workspace(workspace_id));
+
+create policy "Editors can delete workspace tags"
+  on tags for delete
+  using (can_edit_workspace(workspace_id));
+
+drop policy "Users can view own bookmark tags" on bookmark_tags;
+drop policy "Users can insert own bookmark tags" on bookmark_tags;
+drop policy "Users can delete own bookmark tags" on bookmark_tags;
+
+create policy "Members can view workspace bookmark tags"
+  on bookmark_tags for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Editors can insert workspace bookmark tags"
+  on bookmark_tags for insert
+  with check (
+    auth.uid() = user_id
+    and can_edit_workspace(workspace_id)
+    and exists (select 1 from bookmarks where bookmarks.id = bookmark_id and bookmarks.workspace_id = bookmark_tags.workspace_id)
+    and exists (select 1 from tags where tags.id = tag_id and tags.workspace_id = bookmark_tags.workspace_id)
+  );
+
+create policy "Editors can delete workspace bookmark tags"
+  on bookmark_tags for delete
+  using (can_edit_workspace(workspace_id));
+
+drop policy "Users can view own bookmark revisions" on bookmark_revisions;
+
+create policy "Members can view workspace bookmark revisions"
+  on bookmark_revisions for select
+  using (is_workspace_member(workspace_id));
+
+create or replace function record_bookmark_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.title is distinct from old.title or new.url is distinct from old.url then
+    insert into bookmark_revisions (bookmark_id, user_id, workspace_id, title, url)
+    values (old.id, old.user_id, old.workspace_id, old.title, old.url);
+  end if;
+  return new;
+end;
+$$;
+
+-- Snapshots are shared with the workspace; new HTML files are stored under
+-- <workspace_id>/ and the per-user folder policies keep older files readable
+drop policy "Users can view own snapshots" on bookmark_snapshots;
+drop policy "Users can insert own snapshots" on bookmark_snapshots;
+drop policy "Users can delete own snapshots" on bookmark_snapshots;
+
+create policy "Members can view workspace snapshots"
+  on bookmark_snapshots for select
+  using (is_workspace_member(workspace_id));
+
+create policy "Editors can insert workspace snapshots"
+  on bookmark_snapshots for insert
+  with check (
+    auth.uid() = user_id
+    and can_edit_workspace(workspace_id)
+    and exists (select 1 from bookmarks where bookmarks.id = bookmark_id and bookmarks.workspace_id = bookmark_snapshots.workspace_id)
+  );
+
+create policy "Editors can delete workspace snapshots"
+  on bookmark_snapshots for delete
+  using (can_edit_workspace(workspace_id));
+
+create policy "Members can view workspace snapshot files"
+  on storage.objects for select
+  using (bucket_id = 'snapshots' and is_workspace_member(((storage.foldername(name))[1])::uuid));
+
+create policy "Editors can upload workspace snapshot files"
+  on storage.objects for insert
+  with check (bucket_id = 'snapshots' and can_edit_workspace(((storage.foldername(name))[1])::uuid));
+
+create policy "Editors can delete workspace snapshot files"
+  on storage.objects for delete
+  using (bucket_id = 'snapshots' and can_edit_workspace(((storage.foldername(name))[1])::uuid));
+
+-- Shared links stay owned by their creator but must point into a workspace
+-- the creator belongs to, also after an edit
+drop policy "Users can insert own shared links" on shared_links;
+drop policy "Users can update own shared links" on shared_links;
+
+create policy "Users can insert own shared links"
+  on shared_links for insert
+  with check (
+    auth.uid() = user_id
+    and is_workspace_member(workspace_id)
+    and (collection_id is null or exists (
+      select 1 from collections where collections.id = collection_id and collections.workspace_id = shared_links.workspace_id
+    ))
+  );
+
+create policy "Users can update own shared links"
+  on shared_links for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and is_workspace_member(workspace_id)
+    and (collection_id is null or exists (
+      select 1 from collections where collections.id = collection_id and collections.workspace_id = shared_links.workspace_id
+    ))
+  );
+
+-- Search and counts take the workspace to read from
+drop function search_bookmarks(text, text[], text[], text[], text[], int);
+drop function bookmark_counts();
+
+create or replace function search_bookmarks(
+  target_workspace uuid,
+  search_query text default null,
+  sites text[] default '{}',
+  excluded_sites text[] default '{}',
+  tag_names text[] default '{}',
+  excluded_tag_names text[] default '{}',
+  max_results int default 500
+)
+returns setof bookmarks
+language sql
+stable
+security invoker
+as $$
+  select b.*
+  from bookmarks b
+  cross join lateral (
+    select lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/:?#]+)')) as host
+  ) h
+  where b.workspace_id = target_workspace
+    and b.deleted_at is null
+    and (search_query is null or b.search_vector @@ to_tsquery('simple', search_query))
+    and (
+      cardinality(sites) = 0
+      or exists (select 1 from unnest(sites) s where h.host = s or h.host like '%.' || s)
+    )
+    and not exists (select 1 from unnest(excluded_sites) s where h.host = s or h.host like '%.' || s)
+    and not exists (
+      select 1 from unnest(tag_names) t
+      where not exists (
+        select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+        where bt.bookmark_id = b.id and tg.name = t
+      )
+    )
+    and not exists (
+      select 1 from bookmark_tags bt join tags tg on tg.id = bt.tag_id
+      where bt.bookmark_id = b.id and tg.name = any(excluded_tag_names)
+    )
+  order by
+    case when search_query is null then 0 else ts_rank(b.search_vector, to_tsquery('simple', search_query)) end desc,
+    b.created_at desc
+  limit max_results
+$$;
+
+create or replace function bookmark_counts(target_workspace uuid)
+returns table (collection_id uuid, bookmark_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select b.collection_id, count(*)
+  from bookmarks b
+  where b.workspace_id = target_workspace
+    and b.deleted_at is null
+  group by b.collection_id
+$$;
+
+-- Shared links publish from their workspace rather than the creator's rows,
+-- and only while the creator is still a member of it
+create or replace function get_shared_collection(share_token text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  share shared_links;
+  items json;
+begin
+  update shared_links
+  set view_count = view_count + 1, last_viewed_at = now()
+  where token = share_token
+    and revoked_at is null
+    and (expires_at is null or expires_at > now())
+    and exists (
+      select 1 from workspace_members m
+      where m.workspace_id = shared_links.workspace_id and m.user_id = shared_links.user_id
+    )
+  returning * into share;
+
+  if not found then
+    return null;
+  end if;
+
+  with recursive folders as (
+    select c.id from collections c where c.id = share.collection_id and c.workspace_id = share.workspace_id
+    union
+    select c.id from collections c join folders f on c.parent_id = f.id
+  )
+  select coalesce(json_agg(row_to_json(shared) order by shared.created_at desc), '[]'::json)
+  into items
+  from (
+    select
+      b.title,
+      b.url,
+      b.description,
+      b.image_url,
+      b.domain,
+      b.created_at,
+      array(
+        select t.name from bookmark_tags bt join tags t on t.id = bt.tag_id
+        where bt.bookmark_id = b.id order by t.name
+      ) as tags
+    from bookmarks b
+    where b.workspace_id = share.workspace_id
+      and b.deleted_at is null
+      and case share.scope
+        when 'tag' then exists (
+          select 1 from bookmark_tags bt join tags t on t.id = bt.tag_id
+          where bt.bookmark_id = b.id and t.name = share.tag_name
+        )
+        when 'collection' then b.collection_id in (select id from folders)
+        else b.id = any(share.bookmark_ids)
+      end
+    order by b.created_at desc
+    limit 500
+  ) shared;
+
+  return json_build_object(
+    'title', share.title,
+    'description', share.description,
+    'created_at', share.created_at,
+    'expires_at', share.expires_at,
+    'bookmarks', items
+  );
+end;
+$$;
+
+-- Realtime for the workspace switcher and member list
+alter publication supabase_realtime add table workspace_members;
+
+-- Account settings: the signed-in user's sessions, read straight from
+-- auth.sessions. `current` marks the session making the request.
+create or replace function get_account_sessions()
+returns table (
+  id uuid,
+  user_agent text,
+  ip text,
+  created_at timestamp with time zone,
+  last_active_at timestamp with time zone,
+  current boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.id,
+    s.user_agent,
+    host(s.ip),
+    s.created_at,
+    coalesce(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    s.id::text = auth.jwt() ->> 'session_id'
+  from auth.sessions s
+  where s.user_id = auth.uid()
+  order by coalesce(s.refreshed_at::timestamptz, s.updated_at, s.created_at) desc
+$$;
+
+-- Ends one of the caller's other sessions. Its refresh tokens go with it;
+-- an access token already issued stays valid until it expires.
+create or replace function revoke_account_session(target uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from auth.sessions
+  where id = target
+    and user_id = auth.uid()
+    and id::text <> coalesce(auth.jwt() ->> 'session_id', '')
+$$;
+
+-- Removes everything a user owns before their auth user is deleted by the
+-- settings page's server action, which calls it with the service role once
+-- the user has confirmed. Workspaces only they belong to are
+-- deleted with their contents; in shared workspaces their bookmarks go,
+-- while folders and tags others may use are handed to the remaining owner.
+-- Refuses while they are the only owner of a workspace with other members.
+-- Returns the snapshot files to remove from storage.
+drop function if exists delete_account_data();
+
+create or replace function delete_account_data(uid uuid)
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  blocked text;
+  doomed uuid[];
+  paths text[];
+begin
+  if uid is null then
+    raise exception 'No user given';
+  end if;
+
+  select w.name into blocked
+  from workspaces w
+  join workspace_members m on m.workspace_id = w.id and m.user_id = uid and m.role = 'owner'
+  where not w.personal
+    and exists (select 1 from workspace_members o where o.workspace_id = w.id and o.user_id <> uid)
+    and not exists (
+      select 1 from workspace_members o
+      where o.workspace_id = w.id and o.user_id <> uid and o.role = 'owner'
+    )
+  limit 1;
+  if blocked is not null then
+    raise exception 'Make someone else an owner of "%" or delete it first', blocked;
+  end if;
+
+  -- Workspaces that outlive the account are handed to another owner
+  update workspaces w
+  set created_by = (
+    select o.user_id from workspace_members o
+    where o.workspace_id = w.id and o.user_id <> uid and o.role = 'owner'
+    order by o.created_at
+    limit 1
+  )
+  where w.created_by = uid
+    and exists (select 1 from workspace_members o where o.workspace_id = w.id and o.user_id <> uid);
+
+  select coalesce(array_agg(w.id), '{}') into doomed
+  from workspaces w
+  where not exists (select 1 from workspace_members o where o.workspace_id = w.id and o.user_id <> uid)
+    and (w.created_by = uid or exists (select 1 from workspace_members m where m.workspace_id = w.id and m.user_id = uid));
+
+  select coalesce(array_agg(s.html_path), '{}') into paths
+  from bookmark_snapshots s
+  where s.html_path is not null
+    and (s.user_id = uid or s.workspace_id = any(doomed)
+      or s.bookmark_id in (select b.id from bookmarks b where b.user_id = uid));
+
+  delete from workspaces where id = any(doomed);
+
+  update collections c set user_id = w.created_by
+  from workspaces w where w.id = c.workspace_id and c.user_id = uid;
+  update tags t set user_id = w.created_by
+  from workspaces w where w.id = t.workspace_id and t.user_id = uid;
+  update bookmark_tags bt set user_id = w.created_by
+  from workspaces w where w.id = bt.workspace_id and bt.user_id = uid;
+
+  delete from bookmarks where user_id = uid;
+  delete from bookmark_revisions where user_id = uid;
+  delete from bookmark_snapshots where user_id = uid;
+
+  return paths;
+end;
+$$;
+
+revoke execute on function get_account_sessions() from anon;
+revoke execute on function revoke_account_session(uuid) from anon;
+revoke execute on function delete_account_data(uuid) from public, anon, authenticated;
+
+-- Markdown notes per bookmark, searchable alongside the description
+alter table bookmarks add column notes text check (char_length(notes) <= 10000);
+
+alter table bookmarks drop column search_vector;
+alter table bookmarks add column search_vector tsvector generated always as (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(notes, '')), 'B') ||
+  setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'C')
+) stored;
+
+create index bookmarks_search_vector_idx on bookmarks using gin (search_vector);
+
+-- Revisions keep the previous notes too, so an edit can be undone
+alter table bookmark_revisions add column notes text;
+
+create or replace function record_bookmark_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.title is distinct from old.title
+    or new.url is distinct from old.url
+    or new.notes is distinct from old.notes then
+    insert into bookmark_revisions (bookmark_id, user_id, workspace_id, title, url, notes)
+    values (old.id, old.user_id, old.workspace_id, old.title, old.url, old.notes);
+  end if;
+  return new;
+end;
+$$;
+
+-- Read-later queue: every bookmark starts unread, opening it can mark it
+-- read, and archiving takes it out of the queue without deleting it.
+-- Pinned bookmarks sort ahead of everything else.
+alter table bookmarks add column read_state text not null default 'unread'
+  check (read_state in ('unread', 'read', 'archived'));
+alter table bookmarks add column read_at timestamptz;
+alter table bookmarks add column pinned boolean not null default false;
+
+create index bookmarks_workspace_read_state_idx on bookmarks (workspace_id, read_state);
+create index bookmarks_workspace_pinned_idx on bookmarks (workspace_id) where pinned;
+
+-- Duplicate detection key for a URL: scheme, a leading www., default ports,
+-- trailing slashes, the fragment, tracking parameters and parameter order
+-- are ignored. lib/normalize-url.ts does the same in the browser; keep the
+-- two in step.
+create or replace function normalize_url(raw text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  parts text[];
+  host text;
+  query text;
+begin
+  parts := regexp_match(btrim(raw, E' \t\r\n'), '^(https?)://([^/?#]*)([^?#]*)(?:\?([^#]*))?', 'i');
+  if parts is null then
+    return btrim(raw, E' \t\r\n');
+  end if;
+  host := regexp_replace(regexp_replace(lower(parts[2]), ':(80|443)$', ''), '^www\.', '');
+  select string_agg(param, '&' order by param collate "C") into query
+  from unnest(string_to_array(parts[4], '&')) as param
+  where param <> ''
+    and param !~* '^(utm_[^=]*|fbclid|gclid|dclid|msclkid|yclid|mc_cid|mc_eid|igshid|_hsenc|_hsmi)(=|$)';
+  return 'https://' || host || regexp_replace(parts[3], '/+$', '') || coalesce('?' || query, '');
+end;
+$$;
+
+alter table bookmarks add column normalized_url text generated always as (normalize_url(url)) stored;
+
+-- Folds duplicates into the bookmark being kept: it gains their tags,
+-- offline copies, notes and any details it was missing, keeps the earliest
+-- saved date, and the duplicates go to the trash. Internal; the app calls
+-- merge_bookmarks() below.
+create or replace function merge_bookmarks_into(keep uuid, others uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target bookmarks;
+begin
+  select * into target from bookmarks where id = keep and deleted_at is null;
+  if not found then
+    raise exception 'Bookmark to keep not found';
+  end if;
+
+  others := array(
+    select id from bookmarks
+    where id = any(others) and id <> keep and workspace_id = target.workspace_id and deleted_at is null
+  );
+  if cardinality(others) = 0 then
+    return;
+  end if;
+
+  insert into bookmark_tags (bookmark_id, tag_id, user_id, workspace_id)
+  select distinct on (bt.tag_id) keep, bt.tag_id, bt.user_id, bt.workspace_id
+  from bookmark_tags bt
+  where bt.bookmark_id = any(others)
+  on conflict do nothing;
+
+  update bookmark_snapshots set bookmark_id = keep where bookmark_id = any(others);
+
+  update bookmarks b set
+    description = coalesce(b.description, m.description),
+    image_url = coalesce(b.image_url, m.image_url),
+    canonical_url = coalesce(b.canonical_url, m.canonical_url),
+    favicon_url = coalesce(b.favicon_url, m.favicon_url),
+    collection_id = coalesce(b.collection_id, m.collection_id),
+    notes = left(nullif(concat_ws(E'\n\n', b.notes, m.notes), ''), 10000),
+    pinned = b.pinned or m.pinned,
+    snapshot_at = greatest(b.snapshot_at, m.snapshot_at),
+    created_at = least(b.created_at, m.created_at)
+  from (
+    select
+      (array_agg(description order by created_at) filter (where description is not null))[1] as description,
+      (array_agg(image_url order by created_at) filter (where image_url is not null))[1] as image_url,
+      (array_agg(canonical_url order by created_at) filter (where canonical_url is not null))[1] as canonical_url,
+      (array_agg(favicon_url order by created_at) filter (where favicon_url is not null))[1] as favicon_url,
+      (array_agg(collection_id order by created_at) filter (where collection_id is not null))[1] as collection_id,
+      string_agg(notes, E'\n\n' order by created_at) filter (where notes is distinct from target.notes) as notes,
+      bool_or(pinned) as pinned,
+      max(snapshot_at) as snapshot_at,
+      min(created_at) as created_at
+    from bookmarks
+    where id = any(others)
+  ) m
+  where b.id = keep;
+
+  update bookmarks set deleted_at = now() where id = any(others);
+end;
+$$;
+
+revoke execute on function merge_bookmarks_into(uuid, uuid[]) from public, anon, authenticated;
+
+-- Bookmarks saved before URLs were normalized may already collide; merge
+-- each set into its oldest copy so the unique index below can be built
+do $$
+declare
+  duplicate record;
+begin
+  for duplicate in
+    select (array_agg(id order by created_at, id))[1] as keep, (array_agg(id order by created_at, id))[2:] as others
+    from bookmarks
+    where deleted_at is null
+    group by workspace_id, normalized_url
+    having count(*) > 1
+  loop
+    perform merge_bookmarks_into(duplicate.keep, duplicate.others);
+  end loop;
+end;
+$$;
+
+-- One live bookmark per normalized URL in each workspace. Trashed copies
+-- don't count, but can't be restored while another copy exists.
+create unique index bookmarks_workspace_normalized_url_key on bookmarks (workspace_id, normalized_url)
+  where deleted_at is null;
+
+-- Merges duplicates for owners and editors of the bookmarks' workspace
+create or replace function merge_bookmarks(keep uuid, others uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from bookmarks where id = keep and can_edit_workspace(workspace_id)) then
+    raise exception 'Bookmark not found or not editable';
+  end if;
+  perform merge_bookmarks_into(keep, others);
+end;
+$$;
+
+revoke execute on function merge_bookmarks(uuid, uuid[]) from anon;
+
+-- Near-duplicates the unique index can't catch, for the duplicates view:
+-- the same page according to its rel=canonical link, the same address with
+-- different query parameters, or the same title on the same site. Runs as
+-- the caller, so only readable bookmarks are compared.
+create or replace function find_duplicate_bookmarks(target_workspace uuid)
+returns table (match_key text, reason text, bookmark_id uuid)
+language sql
+stable
+set search_path = public
+as $$
+  with live as (
+    select * from bookmarks where workspace_id = target_workspace and deleted_at is null
+  ), keys as (
+    select id, 'canonical' as reason, coalesce(normalize_url(canonical_url), normalized_url) as match_key from live
+    union all
+    select id, 'page', split_part(normalized_url, '?', 1) from live
+    union all
+    select id, 'title', lower(btrim(title)) || ' @ ' || coalesce(domain, '') from live where btrim(title) <> ''
+  ), groups as (
+    select reason, match_key from keys group by reason, match_key having count(*) > 1
+  )
+  select k.match_key, k.reason, k.id
+  from keys k
+  join groups g using (reason, match_key)
+  order by k.reason, k.match_key;
+$$;
+
+revoke execute on function find_duplicate_bookmarks(uuid) from anon;
+
+-- Bookmark fields are validated by the app's server actions and the REST
+-- API (lib/bookmark-input.ts); these checks hold the same rules for any
+-- other writer. Only web links are allowed, so a javascript: URL can never
+-- be stored.
+--
+-- Rows saved before the checks existed are brought in line first, since
+-- Postgres checks every updated row and they could otherwise no longer be
+-- pinned, moved or trashed. Over-long titles and descriptions are cut.
+-- Links that aren't web links can't be opened from the app, so they are
+-- moved to the trash, where they can still be seen and exported until the
+-- usual purge; restoring one is refused until its URL could be valid.
+update bookmarks
+set deleted_at = timezone('utc'::text, now())
+where deleted_at is null and (url !~* '^https?://' or char_length(url) > 2048);
+
+update bookmarks
+set title = left(coalesce(nullif(btrim(title), ''), domain, url), 500)
+where btrim(title) = '' or char_length(title) > 500;
+
+update bookmarks
+set description = left(description, 1000)
+where char_length(description) > 1000;
+
+-- Added NOT VALID and validated separately, so the table isn't locked
+-- against writes while existing rows are checked. The URL check stays NOT
+-- VALID for the trashed rows above; it still holds for every new or
+-- updated row.
+alter table bookmarks add constraint bookmarks_url_check
+  check (url ~* '^https?://' and char_length(url) <= 2048) not valid;
+alter table bookmarks add constraint bookmarks_title_check
+  check (btrim(title) <> '' and char_length(title) <= 500) not valid;
+alter table bookmarks add constraint bookmarks_description_check
+  check (char_length(description) <= 1000) not valid;
+
+alter table bookmarks validate constraint bookmarks_title_check;
+alter table bookmarks validate constraint bookmarks_description_check;
+
+-- Shared cache for favicons and preview images (lib/image-cache.ts). Only
+-- the server writes and reads it with the service role, so it has no
+-- policies and no user can list or overwrite what's in it.
+insert into storage.buckets (id, name, public)
+values ('image-cache', 'image-cache', false)
+on conflict (id) do nothing;
+
+-- Per-user display preferences, synced across tabs and devices through
+-- realtime. A user has no row until they first change something; the app
+-- falls back to the defaults until then.
+create table user_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  theme text not null default 'system' check (theme in ('light', 'dark', 'system')),
+  view_mode text not null default 'grid' check (view_mode in ('grid', 'cards', 'list')),
+  sort_by text not null default 'date' check (sort_by in ('date', 'title', 'domain')),
+  -- Only the shortcuts changed from the defaults (lib/shortcuts.ts)
+  shortcuts jsonb not null default '{}'::jsonb check (jsonb_typeof(shortcuts) = 'object'),
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table user_preferences enable row level security;
+
+create policy "Users can view own preferences"
+  on user_preferences for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own preferences"
+  on user_preferences for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own preferences"
+  on user_preferences for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create trigger user_preferences_set_updated_at
+  before update on user_preferences
+  for each row execute function set_updated_at();
+
+alter publication supabase_realtime add table user_preferences;
+
+-- Shortcut bindings used to be kept in the auth user's metadata
+insert into user_preferences (user_id, shortcuts)
+select id, raw_user_meta_data->'shortcuts'
+from auth.users
+where jsonb_typeof(raw_user_meta_data->'shortcuts') = 'object'
+on conflict (user_id) do nothing;